@@ -0,0 +1,5 @@
+module.exports = {
+  timeout: 100000,
+  require: "ts-node/register",
+  exit: true,
+};
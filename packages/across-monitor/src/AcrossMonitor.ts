@@ -6,10 +6,25 @@ import winston from "winston";
 import { createEtherscanLinkMarkdown, createFormatFunction, PublicNetworks } from "@uma/common";
 
 import { RelayEventProcessor } from "./RelayEventProcessor";
+import { getBlockTimestamps, getPercentiles, getRelayAnalytics } from "./RelayAnalytics";
+import { createStuckRelayStore, createPoolHealthStore, LATENCY_SUMMARY_KEY } from "./MonitorStores";
+import { isExchangeRateDecrease, isReserveDrain, isUtilizationRise } from "./PoolHealthChecks";
 
-import type { BridgePoolData, InsuredBridgeL1Client } from "@uma/financial-templates-lib";
+import type {
+  BridgePoolData,
+  Deposit,
+  InsuredBridgeL1Client,
+  InsuredBridgeL2Client,
+  Relay,
+} from "@uma/financial-templates-lib";
+import type { EventData } from "web3-eth-contract";
 import type { AcrossMonitorConfig } from "./AcrossMonitorConfig";
 import type { EventInfo } from "./RelayEventProcessor";
+import type { RelayRecord } from "./RelayAnalytics";
+import type { StuckRelayStore, PoolHealthStore, PoolSnapshot } from "./MonitorStores";
+
+// Percentiles of relay latencies included in the periodic latency summaries.
+const LATENCY_PERCENTILES = [50, 90, 99];
 
 export class AcrossMonitor {
   // Discovered bridge pools are populated after update().
@@ -22,16 +37,32 @@ export class AcrossMonitor {
   // relayEventProcessor Module used to fetch and process relay events.
   private relayEventProcessor: RelayEventProcessor;
 
+  // L1 block timestamps cached across runs, used for relay latencies.
+  private blockTimestamps: { [blockNumber: number]: number } = {};
+
+  // Relay events of each bridge pool since the last latency summary. The l1Client only keeps the events of its latest
+  // update, so they are accumulated here between polling loops.
+  private relayEventData: { [bridgePoolAddress: string]: EventData[] } = {};
+
   /**
    * @notice Constructs new AcrossMonitor Instance.
    * @param {Object} logger Module used to send logs.
    * @param {Object} monitorConfig Across monitor configuration parameters.
    * @param {Object} l1Client InsuredBridgeL1Client used for bridge pool discovery.
+   * @param {Array} l2Clients InsuredBridgeL2Clients of the activated chains, used for fetching deposits to check that
+   * they are relayed. Only required by the stuck relay monitor.
+   * @param {Object} stuckRelayStore Store of stuck relay alerts and latency summary times used by the stuck relay monitor,
+   * so that each stuck relay is alerted once. Use a persistent store to track these between serverless runs.
+   * @param {Object} poolHealthStore Store of bridge pool snapshots used by the pool health monitor, keyed by bridge pool
+   * address. Use a persistent store to track pool health between serverless runs.
    */
   constructor(
     readonly logger: winston.Logger,
     readonly monitorConfig: AcrossMonitorConfig,
-    readonly l1Client: InsuredBridgeL1Client
+    readonly l1Client: InsuredBridgeL1Client,
+    readonly l2Clients: InsuredBridgeL2Client[] = [],
+    readonly stuckRelayStore: StuckRelayStore = createStuckRelayStore(),
+    readonly poolHealthStore: PoolHealthStore = createPoolHealthStore()
   ) {
     this.relayEventProcessor = new RelayEventProcessor(l1Client);
   }
@@ -39,8 +70,10 @@ export class AcrossMonitor {
   async update(): Promise<void> {
     // Update l1Client for bridge pool discovery.
     await this.l1Client.update();
+    this._storeRelayEventData();
     this.bridgePools = this.l1Client.bridgePools;
     this.relayEventProcessor.bridgePools = this.l1Client.bridgePools;
+    await Promise.all(this.l2Clients.map((l2Client) => l2Client.update()));
 
     // In serverless mode (pollingDelay === 0) use block range from environment (or just the latest block if not
     // provided) to fetch for latest events.
@@ -151,4 +184,318 @@ export class AcrossMonitor {
       });
     }
   }
+
+  async checkPoolHealth(): Promise<void> {
+    // Without a persistent store every serverless run would start without snapshots to compare against.
+    if (this.monitorConfig.pollingDelay === 0 && this.monitorConfig.monitorStore === "memory") {
+      this.logger.debug({
+        at: "AcrossMonitor#PoolHealth",
+        message: "Skipping pool health checks, which require a persistent MONITOR_STORE in serverless mode",
+      });
+      return;
+    }
+    this.logger.debug({ at: "AcrossMonitor#PoolHealth", message: "Checking pool health" });
+
+    const latestBlock = await this.l1Client.l1Web3.eth.getBlock("latest");
+    const { poolHealthWindow, maxReserveDrainPercent, maxUtilizationIncreasePerHour } = this.monitorConfig;
+
+    for (const bridgePool of Object.values(this.bridgePools)) {
+      const { contract, poolCollateralDecimals, poolCollateralSymbol } = bridgePool;
+      // exchangeRateCurrent is simulated with the pending LP fees accrued, like when LPs add or remove liquidity.
+      const [
+        exchangeRate,
+        utilization,
+        liquidReserves,
+        pendingReserves,
+        utilizedReserves,
+        undistributedLpFees,
+      ] = await Promise.all([
+        contract.methods.exchangeRateCurrent().call(undefined, latestBlock.number),
+        contract.methods.liquidityUtilizationCurrent().call(undefined, latestBlock.number),
+        contract.methods.liquidReserves().call(undefined, latestBlock.number),
+        contract.methods.pendingReserves().call(undefined, latestBlock.number),
+        contract.methods.utilizedReserves().call(undefined, latestBlock.number),
+        contract.methods.undistributedLpFees().call(undefined, latestBlock.number),
+      ]);
+      const snapshot: PoolSnapshot = {
+        blockNumber: latestBlock.number,
+        timestamp: Number(latestBlock.timestamp),
+        liquidReserves: liquidReserves.toString(),
+        pendingReserves: pendingReserves.toString(),
+        utilizedReserves: utilizedReserves.toString(),
+        undistributedLpFees: undistributedLpFees.toString(),
+        exchangeRate: exchangeRate.toString(),
+        utilization: utilization.toString(),
+      };
+      this.logger.debug({ at: "AcrossMonitor#PoolHealth", message: `${poolCollateralSymbol} pool health`, snapshot });
+
+      // Only compare against snapshots within the window and before this block, which could be missing if the same
+      // block range is monitored again.
+      const address = contract.options.address;
+      let snapshots = ((await this.poolHealthStore.get(address))?.snapshots ?? []).filter(
+        (previous) =>
+          previous.timestamp >= snapshot.timestamp - poolHealthWindow && previous.blockNumber < snapshot.blockNumber
+      );
+      const poolName =
+        poolCollateralSymbol +
+        " bridge pool at " +
+        createEtherscanLinkMarkdown(address, this.monitorConfig.bridgeAdminChainId) +
+        " on " +
+        PublicNetworks[this.monitorConfig.bridgeAdminChainId]?.name;
+      const formatAmount = createFormatFunction(2, 4, false, poolCollateralDecimals);
+      const formatPercent = (value: string) => createFormatFunction(2, 4, false, 18)(toBN(value).muln(100)) + "%";
+
+      const previous = snapshots[snapshots.length - 1];
+      if (previous && isExchangeRateDecrease(previous, snapshot)) {
+        this.logger.error({
+          at: "PoolHealthMonitor",
+          message: "Bridge pool exchange rate decrease warning 📉",
+          mrkdwn:
+            poolName +
+            " LP token exchange rate decreased from " +
+            createFormatFunction(6, 6, false, 18)(previous.exchangeRate) +
+            " at block " +
+            previous.blockNumber +
+            " to " +
+            createFormatFunction(6, 6, false, 18)(snapshot.exchangeRate) +
+            " at block " +
+            snapshot.blockNumber +
+            "! Undistributed LP fees are " +
+            formatAmount(snapshot.undistributedLpFees) +
+            " " +
+            poolCollateralSymbol +
+            ".",
+          notificationPath: "across-monitor",
+        });
+      }
+
+      const oldest = snapshots[0];
+      if (oldest) {
+        const minutes = Math.round((snapshot.timestamp - oldest.timestamp) / 60);
+        const isDraining = isReserveDrain(oldest, snapshot, maxReserveDrainPercent);
+        if (isDraining) {
+          this.logger.warn({
+            at: "PoolHealthMonitor",
+            message: "Bridge pool reserve drain warning 🚰",
+            mrkdwn:
+              poolName +
+              " liquid reserves dropped from " +
+              formatAmount(oldest.liquidReserves) +
+              " to " +
+              formatAmount(snapshot.liquidReserves) +
+              " " +
+              poolCollateralSymbol +
+              " in " +
+              minutes +
+              " minutes, more than " +
+              maxReserveDrainPercent +
+              "%. Pending reserves are " +
+              formatAmount(snapshot.pendingReserves) +
+              " " +
+              poolCollateralSymbol +
+              ".",
+            notificationPath: "across-monitor",
+          });
+        }
+
+        const isUtilizationRising = isUtilizationRise(
+          oldest,
+          snapshot,
+          maxUtilizationIncreasePerHour,
+          poolHealthWindow
+        );
+        if (isUtilizationRising) {
+          this.logger.warn({
+            at: "PoolHealthMonitor",
+            message: "Bridge pool utilization rising warning 📈",
+            mrkdwn:
+              poolName +
+              " utilization rose from " +
+              formatPercent(oldest.utilization) +
+              " to " +
+              formatPercent(snapshot.utilization) +
+              " in " +
+              minutes +
+              " minutes, faster than " +
+              maxUtilizationIncreasePerHour +
+              " percentage points per hour.",
+            notificationPath: "across-monitor",
+          });
+        }
+
+        // Restart the window after alerting so that the same change is not alerted on every run.
+        if (isDraining || isUtilizationRising) snapshots = [];
+      }
+
+      snapshots.push(snapshot);
+      await this.poolHealthStore.set(address, { snapshots });
+    }
+  }
+
+  async checkStuckRelays(): Promise<void> {
+    // Without a persistent store every serverless run would alert on the same stuck relays and post a latency summary.
+    if (this.monitorConfig.pollingDelay === 0 && this.monitorConfig.monitorStore === "memory") {
+      this.logger.debug({
+        at: "AcrossMonitor#StuckRelays",
+        message: "Skipping stuck relay checks, which require a persistent MONITOR_STORE in serverless mode",
+      });
+      return;
+    }
+    this.logger.debug({ at: "AcrossMonitor#StuckRelays", message: "Checking for stuck deposits and relays" });
+
+    const currentTime = Number((await this.l1Client.l1Web3.eth.getBlock("latest")).timestamp);
+
+    // Deposits are quoted when they are sent on L2, so the quote time is used as the deposit time.
+    for (const l2Client of this.l2Clients) {
+      for (const deposit of l2Client.getAllDeposits()) {
+        if (!this.bridgePools[deposit.l1Token] || this.l1Client.getRelayForDeposit(deposit.l1Token, deposit)) continue;
+        const delay = currentTime - deposit.quoteTimestamp;
+        if (delay > this.monitorConfig.maxRelayDelay)
+          await this._alertStuckRelay(
+            "notRelayed",
+            deposit,
+            "Across deposit not relayed warning 🐌",
+            "relayed",
+            currentTime,
+            delay
+          );
+      }
+    }
+
+    const pendingRelays = this.l1Client.getPendingRelayedDeposits();
+    await getBlockTimestamps(
+      this.l1Client.l1Web3,
+      pendingRelays.map((relay) => relay.blockNumber),
+      this.blockTimestamps
+    );
+    for (const relay of pendingRelays) {
+      const relayDelay = currentTime - this.blockTimestamps[relay.blockNumber];
+      if (
+        relayDelay > this.monitorConfig.maxSpeedUpDelay &&
+        !this.l1Client.hasInstantRelayer(relay.l1Token, relay.depositHash, relay.realizedLpFeePct)
+      )
+        await this._alertStuckRelay(
+          "notSpedUp",
+          relay,
+          "Across slow relay not sped up warning 🐢",
+          "sped up",
+          currentTime,
+          relayDelay
+        );
+
+      const settleDelay = currentTime - (relay.priceRequestTime + this.l1Client.optimisticOracleLiveness);
+      if (settleDelay > this.monitorConfig.maxSettleDelay)
+        await this._alertStuckRelay(
+          "notSettled",
+          relay,
+          "Across relay not settled warning ⏳",
+          "settled after its liveness",
+          currentTime,
+          settleDelay
+        );
+    }
+
+    await this._summarizeRelayLatencies(currentTime);
+  }
+
+  // Adds the relay events of the latest l1Client update, skipping events that were already stored.
+  private _storeRelayEventData(): void {
+    const getEventKey = (event: EventData) => `${event.transactionHash}:${event.logIndex}`;
+    for (const [bridgePoolAddress, events] of Object.entries(this.l1Client.allRelayEventData)) {
+      const storedEvents = (this.relayEventData[bridgePoolAddress] = this.relayEventData[bridgePoolAddress] ?? []);
+      const storedEventKeys = new Set(storedEvents.map(getEventKey));
+      storedEvents.push(...events.filter((event) => !storedEventKeys.has(getEventKey(event))));
+    }
+  }
+
+  // Stuck deposits and relays are only alerted once, keyed by issue and deposit hash.
+  private async _alertStuckRelay(
+    issue: string,
+    depositOrRelay: Deposit | Relay,
+    message: string,
+    action: string,
+    currentTime: number,
+    delay: number
+  ): Promise<void> {
+    const key = `${issue}:${depositOrRelay.depositHash}`;
+    if (await this.stuckRelayStore.has(key)) return;
+    await this.stuckRelayStore.set(key, { timestamp: currentTime });
+
+    const { poolCollateralDecimals, poolCollateralSymbol } = this.bridgePools[depositOrRelay.l1Token];
+    this.logger.warn({
+      at: "StuckRelays",
+      message,
+      mrkdwn:
+        "depositId " +
+        depositOrRelay.depositId +
+        " on " +
+        PublicNetworks[depositOrRelay.chainId]?.name +
+        " of " +
+        createFormatFunction(2, 4, false, poolCollateralDecimals)(depositOrRelay.amount) +
+        " " +
+        poolCollateralSymbol +
+        " from " +
+        createEtherscanLinkMarkdown(depositOrRelay.l2Sender, depositOrRelay.chainId) +
+        " has not been " +
+        action +
+        " for " +
+        Math.floor(delay / 60) +
+        " minutes. depositHash: " +
+        depositOrRelay.depositHash,
+      notificationPath: "across-monitor",
+    });
+  }
+
+  // Summarizes latencies of relays made since the last summary, per L2 chain. The first summary is sent one interval
+  // after the first check.
+  private async _summarizeRelayLatencies(currentTime: number): Promise<void> {
+    if (this.startingBlock === undefined || this.endingBlock === undefined) return;
+    const lastSummary = await this.stuckRelayStore.get(LATENCY_SUMMARY_KEY);
+    if (!lastSummary) {
+      await this.stuckRelayStore.set(LATENCY_SUMMARY_KEY, { timestamp: currentTime, nextBlock: this.startingBlock });
+      return;
+    }
+    if (currentTime - lastSummary.timestamp < this.monitorConfig.latencySummaryInterval) return;
+
+    const startingBlock = lastSummary.nextBlock ?? this.startingBlock;
+    const { relays } = await getRelayAnalytics(
+      this.l1Client,
+      startingBlock,
+      this.endingBlock,
+      this.blockTimestamps,
+      this.relayEventData
+    );
+    await this.stuckRelayStore.set(LATENCY_SUMMARY_KEY, { timestamp: currentTime, nextBlock: this.endingBlock + 1 });
+    // Later summaries only include relays after the ending block, so the events up to it are no longer needed.
+    this.relayEventData = {};
+
+    const relaysByChainId: { [chainId: number]: RelayRecord[] } = {};
+    for (const relay of relays) (relaysByChainId[relay.chainId] = relaysByChainId[relay.chainId] ?? []).push(relay);
+
+    const formatPercentiles = (latencies: (number | null)[]) => {
+      const percentiles = getPercentiles(latencies, LATENCY_PERCENTILES);
+      if (!percentiles) return "n/a";
+      return percentiles
+        .map((latency, index) => `p${LATENCY_PERCENTILES[index]} ${(latency / 60).toFixed(1)}m`)
+        .join(", ");
+    };
+    this.logger.info({
+      at: "StuckRelays",
+      message: "Across relay latency summary ⏱",
+      mrkdwn:
+        `${relays.length} relays between blocks ${startingBlock} and ${this.endingBlock}.` +
+        Object.entries(relaysByChainId)
+          .map(
+            ([chainId, chainRelays]) =>
+              `\n*${PublicNetworks[Number(chainId)]?.name ?? chainId}* (${chainRelays.length} relays): ` +
+              `deposit to relay ${formatPercentiles(chainRelays.map((relay) => relay.timeFromQuoteToRelay))}; ` +
+              `deposit to instant relay ${formatPercentiles(
+                chainRelays.map((relay) => relay.timeFromQuoteToInstantRelay)
+              )}; ` +
+              `relay to settlement ${formatPercentiles(chainRelays.map((relay) => relay.timeToSettle))}.`
+          )
+          .join(""),
+      notificationPath: "across-monitor",
+    });
+  }
 }
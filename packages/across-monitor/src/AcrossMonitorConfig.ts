@@ -9,6 +9,8 @@ export interface ProcessEnv {
 export interface BotModes {
   utilizationEnabled: boolean; // Monitors pool utilization ratio
   unknownRelayersEnabled: boolean; // Monitors relay related events triggered by non-whitelisted addresses
+  stuckRelaysEnabled: boolean; // Monitors deposits and relays that are not progressing and summarizes relay latencies
+  poolHealthEnabled: boolean; // Monitors pool exchange rates, reserves and utilization over time
 }
 
 // Following settings can be overridden to optimize L1 event search for select events. For example,
@@ -37,6 +39,22 @@ export class AcrossMonitorConfig {
   readonly whitelistedAddresses: string[];
   readonly botModes: BotModes;
 
+  // Stuck relay monitor settings. Delays are in seconds.
+  readonly activatedChainIds: number[];
+  readonly l2BlockLookback: number;
+  readonly maxRelayDelay: number;
+  readonly maxSpeedUpDelay: number;
+  readonly maxSettleDelay: number;
+  readonly latencySummaryInterval: number;
+
+  // Where the stuck relay and pool health monitors keep their state between runs.
+  readonly monitorStore: string;
+
+  // Pool health monitor settings. Percentages are in 0-100 and the window is in seconds.
+  readonly poolHealthWindow: number;
+  readonly maxReserveDrainPercent: number;
+  readonly maxUtilizationIncreasePerHour: number;
+
   constructor(env: ProcessEnv) {
     const {
       BRIDGE_ADMIN_CHAIN_ID,
@@ -49,6 +67,18 @@ export class AcrossMonitorConfig {
       WHITELISTED_ADDRESSES,
       UTILIZATION_ENABLED,
       UNKNOWN_RELAYERS_ENABLED,
+      STUCK_RELAYS_ENABLED,
+      CHAIN_IDS,
+      L2_BLOCK_LOOKBACK,
+      MAX_RELAY_DELAY_MINUTES,
+      MAX_SPEED_UP_DELAY_MINUTES,
+      MAX_SETTLE_DELAY_MINUTES,
+      LATENCY_SUMMARY_INTERVAL_MINUTES,
+      MONITOR_STORE,
+      POOL_HEALTH_ENABLED,
+      POOL_HEALTH_WINDOW_MINUTES,
+      MAX_RESERVE_DRAIN_PERCENT,
+      MAX_UTILIZATION_INCREASE_PER_HOUR,
       BRIDGE_POOL_EVENT_SEARCH_FROM_BLOCK,
       BRIDGE_POOL_MAX_BLOCKS_TO_SEARCH,
     } = env;
@@ -56,6 +86,8 @@ export class AcrossMonitorConfig {
     this.botModes = {
       utilizationEnabled: UTILIZATION_ENABLED === "true" ? true : false,
       unknownRelayersEnabled: UNKNOWN_RELAYERS_ENABLED === "true" ? true : false,
+      stuckRelaysEnabled: STUCK_RELAYS_ENABLED === "true" ? true : false,
+      poolHealthEnabled: POOL_HEALTH_ENABLED === "true" ? true : false,
     };
 
     // Default pool utilization threshold at 90%.
@@ -69,6 +101,36 @@ export class AcrossMonitorConfig {
       this.whitelistedAddresses[i] = toChecksumAddress(this.whitelistedAddresses[i]);
     }
 
+    // L2 chains to fetch deposits from for the stuck relay monitor.
+    this.activatedChainIds = JSON.parse(CHAIN_IDS || "[]");
+    if (this.botModes.stuckRelaysEnabled && this.activatedChainIds.length === 0)
+      throw new Error("Must define at least 1 chain ID in CHAIN_IDS when STUCK_RELAYS_ENABLED");
+    // Same default as the relayer, staying below the 100,000 block limit of some L2 node providers.
+    this.l2BlockLookback = L2_BLOCK_LOOKBACK ? Number(L2_BLOCK_LOOKBACK) : 99900;
+
+    // Default to alerting on deposits not relayed and slow relays not sped up within 30 minutes, and relays not
+    // settled within 1 hour after their liveness ends. Relay latencies are summarized daily.
+    this.maxRelayDelay = (MAX_RELAY_DELAY_MINUTES ? Number(MAX_RELAY_DELAY_MINUTES) : 30) * 60;
+    this.maxSpeedUpDelay = (MAX_SPEED_UP_DELAY_MINUTES ? Number(MAX_SPEED_UP_DELAY_MINUTES) : 30) * 60;
+    this.maxSettleDelay = (MAX_SETTLE_DELAY_MINUTES ? Number(MAX_SETTLE_DELAY_MINUTES) : 60) * 60;
+    this.latencySummaryInterval =
+      (LATENCY_SUMMARY_INTERVAL_MINUTES ? Number(LATENCY_SUMMARY_INTERVAL_MINUTES) : 24 * 60) * 60;
+
+    this.monitorStore = MONITOR_STORE ? MONITOR_STORE : "memory";
+
+    // Default to alerting when liquid reserves drop by more than 25% or utilization rises by more than 10 percentage points
+    // per hour, measured over the last hour.
+    this.poolHealthWindow = (POOL_HEALTH_WINDOW_MINUTES ? Number(POOL_HEALTH_WINDOW_MINUTES) : 60) * 60;
+    this.maxReserveDrainPercent = MAX_RESERVE_DRAIN_PERCENT ? Number(MAX_RESERVE_DRAIN_PERCENT) : 25;
+    this.maxUtilizationIncreasePerHour = MAX_UTILIZATION_INCREASE_PER_HOUR
+      ? Number(MAX_UTILIZATION_INCREASE_PER_HOUR)
+      : 10;
+
+    if (this.maxReserveDrainPercent > 100) throw new Error("MAX_RESERVE_DRAIN_PERCENT must be <= 100");
+    if (this.maxReserveDrainPercent < 0) throw new Error("MAX_RESERVE_DRAIN_PERCENT must be >= 0");
+    if (this.maxUtilizationIncreasePerHour < 0) throw new Error("MAX_UTILIZATION_INCREASE_PER_HOUR must be >= 0");
+    if (this.poolHealthWindow <= 0) throw new Error("POOL_HEALTH_WINDOW_MINUTES must be > 0");
+
     // Default bridge pools on mainnet.
     this.bridgeAdminChainId = BRIDGE_ADMIN_CHAIN_ID ? Number(BRIDGE_ADMIN_CHAIN_ID) : 1;
 
@@ -0,0 +1,54 @@
+import { Datastore } from "@google-cloud/datastore";
+import { stores } from "@uma/sdk";
+
+// Time a stuck deposit or relay was alerted, keyed by issue and deposit hash, or time of the last relay latency summary
+// and the first block of the next one, keyed by LATENCY_SUMMARY_KEY.
+export interface StuckRelayState {
+  timestamp: number;
+  nextBlock?: number;
+}
+
+export type StuckRelayStore = stores.Store<string, StuckRelayState>;
+
+export const LATENCY_SUMMARY_KEY = "latencySummary";
+
+// State of a bridge pool at a block. Amounts are in the smallest unit of the pool collateral and the exchange rate and
+// utilization are scaled by 1e18.
+export interface PoolSnapshot {
+  blockNumber: number;
+  timestamp: number;
+  liquidReserves: string;
+  pendingReserves: string;
+  utilizedReserves: string;
+  undistributedLpFees: string;
+  exchangeRate: string;
+  utilization: string;
+}
+
+// Snapshots of a bridge pool within the pool health window, oldest first.
+export interface PoolHealthState {
+  snapshots: PoolSnapshot[];
+}
+
+export type PoolHealthStore = stores.Store<string, PoolHealthState>;
+
+// Creates the stores selected by MONITOR_STORE: "memory" (default) for stores that only last as long as the process, or
+// "gcp" for Google Datastore, which persists monitor state between serverless runs.
+export function createStuckRelayStore(mode = "memory"): StuckRelayStore {
+  return createStore("AcrossMonitorStuckRelays", mode);
+}
+
+export function createPoolHealthStore(mode = "memory"): PoolHealthStore {
+  return createStore("AcrossMonitorPoolHealth", mode);
+}
+
+function createStore<D>(kind: string, mode: string): stores.Store<string, D> {
+  switch (mode) {
+    case "memory":
+      return stores.JsMap();
+    case "gcp":
+      return stores.GoogleDatastore(kind, new Datastore());
+    default:
+      throw new Error(`Unknown MONITOR_STORE ${mode}`);
+  }
+}
@@ -0,0 +1,29 @@
+import Web3 from "web3";
+const { toBN, toWei } = Web3.utils;
+
+import type { PoolSnapshot } from "./MonitorStores";
+
+// LP token exchange rates should only increase as LP fees accrue, unless relays are disputed and not reimbursed.
+export function isExchangeRateDecrease(previous: PoolSnapshot, snapshot: PoolSnapshot): boolean {
+  return toBN(snapshot.exchangeRate).lt(toBN(previous.exchangeRate));
+}
+
+// Checks if liquid reserves dropped by more than `maxReserveDrainPercent` of the reserves in the oldest snapshot.
+export function isReserveDrain(oldest: PoolSnapshot, snapshot: PoolSnapshot, maxReserveDrainPercent: number): boolean {
+  const reserveDrain = toBN(oldest.liquidReserves).sub(toBN(snapshot.liquidReserves));
+  return reserveDrain.muln(100).gt(toBN(oldest.liquidReserves).muln(maxReserveDrainPercent));
+}
+
+// Checks if utilization rose by more than `maxUtilizationIncreasePerHour` percentage points per hour over a window of
+// `poolHealthWindow` seconds since the oldest snapshot.
+export function isUtilizationRise(
+  oldest: PoolSnapshot,
+  snapshot: PoolSnapshot,
+  maxUtilizationIncreasePerHour: number,
+  poolHealthWindow: number
+): boolean {
+  const maxUtilizationIncrease = toBN(toWei(maxUtilizationIncreasePerHour.toString()))
+    .muln(poolHealthWindow)
+    .divn(100 * 3600);
+  return toBN(snapshot.utilization).sub(toBN(oldest.utilization)).gt(maxUtilizationIncrease);
+}
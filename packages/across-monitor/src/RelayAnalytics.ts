@@ -0,0 +1,371 @@
+import Web3 from "web3";
+const { fromWei, toWei, toBN } = Web3.utils;
+
+import { ConvertDecimals } from "@uma/common";
+
+import type { BridgePoolData, InsuredBridgeL1Client } from "@uma/financial-templates-lib";
+import type { EventData } from "web3-eth-contract";
+
+export type RelayStatus = "pending" | "settled" | "disputed" | "canceled";
+// "instant" relays were relayed and sped up in the same transaction, "sped up" relays were sped up after a slow relay.
+export type RelayType = "slow" | "sped up" | "instant";
+
+// One record per DepositRelayed event. A deposit that is relayed again after a dispute has one record per relay.
+// Amounts are in token units and fee percentages are fractions, e.g. 0.001 for 0.1%. Times are in seconds.
+export interface RelayRecord {
+  l1Token: string;
+  symbol: string;
+  chainId: number;
+  depositId: number;
+  depositHash: string;
+  l2Sender: string;
+  l1Recipient: string;
+  amount: string;
+  slowRelayFeePct: string;
+  instantRelayFeePct: string;
+  realizedLpFeePct: string;
+  proposerBond: string;
+  finalFee: string;
+  relayType: RelayType;
+  status: RelayStatus;
+  slowRelayer: string;
+  instantRelayer: string | null;
+  settler: string | null;
+  disputer: string | null;
+  quoteTimestamp: number;
+  relayTimestamp: number;
+  speedUpTimestamp: number | null;
+  settleTimestamp: number | null;
+  disputeTimestamp: number | null;
+  // Deposit times are not known on L1, so relay times are measured from the deposit's quote time, which is set when the
+  // deposit is made.
+  timeFromQuoteToRelay: number;
+  timeFromQuoteToInstantRelay: number | null;
+  timeToSettle: number | null;
+  relayTransactionHash: string;
+  relayBlockNumber: number;
+}
+
+// Stats of the relays made by one relayer for one L1 token. Relays count towards both their slow and instant relayer.
+export interface RelayerStats {
+  relayer: string;
+  l1Token: string;
+  symbol: string;
+  slowRelays: number;
+  instantRelays: number;
+  speedUps: number;
+  settledRelays: number;
+  disputedRelays: number;
+  slowRelayVolume: string;
+  instantRelayVolume: string;
+  slowRelayFees: string; // Fees earned by settled slow relays.
+  instantRelayFees: string; // Fees earned by speeding up relays that were not disputed.
+  bondsPosted: string;
+  averageTimeFromQuoteToRelay: number | null;
+  averageTimeFromQuoteToInstantRelay: number | null;
+}
+
+export interface TokenStats {
+  l1Token: string;
+  symbol: string;
+  relays: number;
+  instantRelays: number;
+  speedUps: number;
+  settledRelays: number;
+  disputedRelays: number;
+  pendingRelays: number;
+  volume: string;
+  lpFees: string; // LP fees of settled relays.
+  averageRealizedLpFeePct: string | null;
+  bondsPosted: string;
+  averageTimeFromQuoteToRelay: number | null;
+  averageTimeFromQuoteToInstantRelay: number | null;
+  averageTimeToSettle: number | null;
+}
+
+export interface RelayAnalytics {
+  relays: RelayRecord[];
+  relayerStats: RelayerStats[];
+  tokenStats: TokenStats[];
+}
+
+// Builds relay records from the events of each bridge pool, in order. Only relays made between `startingBlock` and
+// `endingBlock` are included, but their speed ups, settlements and disputes are followed through all events.
+export function buildRelayRecords(
+  bridgePools: { [l1Token: string]: BridgePoolData },
+  allRelayEventData: { [bridgePoolAddress: string]: EventData[] },
+  blockTimestamps: { [blockNumber: number]: number },
+  startingBlock = 0,
+  endingBlock = Infinity
+): RelayRecord[] {
+  const records: RelayRecord[] = [];
+  for (const [l1Token, bridgePool] of Object.entries(bridgePools)) {
+    const { poolCollateralDecimals: decimals, poolCollateralSymbol: symbol } = bridgePool;
+    const toTokenUnits = (amount: string) => fromWei(ConvertDecimals(decimals, 18)(amount));
+    const events = [...(allRelayEventData[bridgePool.contract.options.address] ?? [])].sort((a, b) =>
+      a.blockNumber !== b.blockNumber ? a.blockNumber - b.blockNumber : a.logIndex - b.logIndex
+    );
+
+    // The latest relay of each deposit. Disputed and canceled relays are removed so later events match the next relay.
+    const currentRelays: { [depositHash: string]: RelayRecord } = {};
+    for (const event of events) {
+      const { depositHash } = event.returnValues;
+      const timestamp = blockTimestamps[event.blockNumber];
+      if (event.event === "DepositRelayed") {
+        if (event.blockNumber < startingBlock || event.blockNumber > endingBlock) continue;
+        const { depositData, relay } = event.returnValues;
+        const record: RelayRecord = {
+          l1Token,
+          symbol,
+          chainId: Number(depositData.chainId),
+          depositId: Number(depositData.depositId),
+          depositHash,
+          l2Sender: depositData.l2Sender,
+          l1Recipient: depositData.l1Recipient,
+          amount: toTokenUnits(depositData.amount),
+          slowRelayFeePct: fromWei(depositData.slowRelayFeePct),
+          instantRelayFeePct: fromWei(depositData.instantRelayFeePct),
+          realizedLpFeePct: fromWei(relay.realizedLpFeePct),
+          proposerBond: toTokenUnits(relay.proposerBond),
+          finalFee: toTokenUnits(relay.finalFee),
+          relayType: "slow",
+          status: "pending",
+          slowRelayer: relay.slowRelayer,
+          instantRelayer: null,
+          settler: null,
+          disputer: null,
+          quoteTimestamp: Number(depositData.quoteTimestamp),
+          relayTimestamp: timestamp,
+          speedUpTimestamp: null,
+          settleTimestamp: null,
+          disputeTimestamp: null,
+          timeFromQuoteToRelay: timestamp - Number(depositData.quoteTimestamp),
+          timeFromQuoteToInstantRelay: null,
+          timeToSettle: null,
+          relayTransactionHash: event.transactionHash,
+          relayBlockNumber: event.blockNumber,
+        };
+        currentRelays[depositHash] = record;
+        records.push(record);
+        continue;
+      }
+
+      const record = currentRelays[depositHash];
+      if (!record) continue; // The relay was made outside of the block range.
+      switch (event.event) {
+        case "RelaySpedUp":
+          record.relayType = event.transactionHash === record.relayTransactionHash ? "instant" : "sped up";
+          record.instantRelayer = event.returnValues.instantRelayer;
+          record.speedUpTimestamp = timestamp;
+          record.timeFromQuoteToInstantRelay = timestamp - record.quoteTimestamp;
+          break;
+        case "RelaySettled":
+          record.status = "settled";
+          record.settler = event.returnValues.caller;
+          record.settleTimestamp = timestamp;
+          record.timeToSettle = timestamp - record.relayTimestamp;
+          break;
+        case "RelayDisputed":
+        case "RelayCanceled":
+          record.status = event.event === "RelayDisputed" ? "disputed" : "canceled";
+          record.disputer = event.returnValues.disputer;
+          record.disputeTimestamp = timestamp;
+          delete currentRelays[depositHash];
+          break;
+      }
+    }
+  }
+  return records.sort((a, b) => a.relayBlockNumber - b.relayBlockNumber);
+}
+
+export function aggregateRelayerStats(records: RelayRecord[]): RelayerStats[] {
+  const stats: {
+    [key: string]: RelayerStats & { timesFromQuoteToRelay: number[]; timesFromQuoteToInstantRelay: number[] };
+  } = {};
+  const getStats = (relayer: string, record: RelayRecord) => {
+    const key = `${relayer}:${record.l1Token}`;
+    if (!stats[key])
+      stats[key] = {
+        relayer,
+        l1Token: record.l1Token,
+        symbol: record.symbol,
+        slowRelays: 0,
+        instantRelays: 0,
+        speedUps: 0,
+        settledRelays: 0,
+        disputedRelays: 0,
+        slowRelayVolume: "0",
+        instantRelayVolume: "0",
+        slowRelayFees: "0",
+        instantRelayFees: "0",
+        bondsPosted: "0",
+        averageTimeFromQuoteToRelay: null,
+        averageTimeFromQuoteToInstantRelay: null,
+        timesFromQuoteToRelay: [],
+        timesFromQuoteToInstantRelay: [],
+      };
+    return stats[key];
+  };
+
+  for (const record of records) {
+    const disputed = record.status === "disputed" || record.status === "canceled";
+
+    const slowRelayerStats = getStats(record.slowRelayer, record);
+    slowRelayerStats.slowRelays += 1;
+    slowRelayerStats.slowRelayVolume = addDecimals(slowRelayerStats.slowRelayVolume, record.amount);
+    slowRelayerStats.bondsPosted = addDecimals(
+      slowRelayerStats.bondsPosted,
+      addDecimals(record.proposerBond, record.finalFee)
+    );
+    slowRelayerStats.timesFromQuoteToRelay.push(record.timeFromQuoteToRelay);
+    if (record.status === "settled") {
+      slowRelayerStats.settledRelays += 1;
+      slowRelayerStats.slowRelayFees = addDecimals(
+        slowRelayerStats.slowRelayFees,
+        mulDecimals(record.amount, record.slowRelayFeePct)
+      );
+    }
+    if (disputed) slowRelayerStats.disputedRelays += 1;
+
+    if (record.instantRelayer && record.timeFromQuoteToInstantRelay !== null) {
+      const instantRelayerStats = getStats(record.instantRelayer, record);
+      if (record.relayType === "instant") instantRelayerStats.instantRelays += 1;
+      else instantRelayerStats.speedUps += 1;
+      instantRelayerStats.instantRelayVolume = addDecimals(instantRelayerStats.instantRelayVolume, record.amount);
+      instantRelayerStats.timesFromQuoteToInstantRelay.push(record.timeFromQuoteToInstantRelay);
+      if (!disputed)
+        instantRelayerStats.instantRelayFees = addDecimals(
+          instantRelayerStats.instantRelayFees,
+          mulDecimals(record.amount, record.instantRelayFeePct)
+        );
+    }
+  }
+
+  return Object.values(stats).map(({ timesFromQuoteToRelay, timesFromQuoteToInstantRelay, ...relayerStats }) => ({
+    ...relayerStats,
+    averageTimeFromQuoteToRelay: average(timesFromQuoteToRelay),
+    averageTimeFromQuoteToInstantRelay: average(timesFromQuoteToInstantRelay),
+  }));
+}
+
+export function aggregateTokenStats(records: RelayRecord[]): TokenStats[] {
+  const stats: { [l1Token: string]: RelayRecord[] } = {};
+  for (const record of records) (stats[record.l1Token] = stats[record.l1Token] ?? []).push(record);
+
+  return Object.entries(stats).map(([l1Token, tokenRecords]) => {
+    const settledRecords = tokenRecords.filter((record) => record.status === "settled");
+    const sum = (values: string[]) => values.reduce(addDecimals, "0");
+    return {
+      l1Token,
+      symbol: tokenRecords[0].symbol,
+      relays: tokenRecords.length,
+      instantRelays: tokenRecords.filter((record) => record.relayType === "instant").length,
+      speedUps: tokenRecords.filter((record) => record.relayType === "sped up").length,
+      settledRelays: settledRecords.length,
+      disputedRelays: tokenRecords.filter((record) => record.status === "disputed" || record.status === "canceled")
+        .length,
+      pendingRelays: tokenRecords.filter((record) => record.status === "pending").length,
+      volume: sum(tokenRecords.map((record) => record.amount)),
+      lpFees: sum(settledRecords.map((record) => mulDecimals(record.amount, record.realizedLpFeePct))),
+      averageRealizedLpFeePct: tokenRecords.length
+        ? fromWei(toBN(toWei(sum(tokenRecords.map((record) => record.realizedLpFeePct)))).divn(tokenRecords.length))
+        : null,
+      bondsPosted: sum(tokenRecords.map((record) => addDecimals(record.proposerBond, record.finalFee))),
+      averageTimeFromQuoteToRelay: average(tokenRecords.map((record) => record.timeFromQuoteToRelay)),
+      averageTimeFromQuoteToInstantRelay: average(
+        tokenRecords.map((record) => record.timeFromQuoteToInstantRelay).filter((time): time is number => time !== null)
+      ),
+      averageTimeToSettle: average(
+        settledRecords.map((record) => record.timeToSettle).filter((time): time is number => time !== null)
+      ),
+    };
+  });
+}
+
+// Fetches the events of every bridge pool from the updated l1Client and builds the analytics for relays made between
+// `startingBlock` and `endingBlock`. Block timestamps are only fetched for the events of these relays and are cached in
+// `blockTimestamps` so that it can be passed again on later calls. Events accumulated over several l1Client updates can
+// be passed as `allRelayEventData`, as the l1Client only keeps the events of its latest update.
+export async function getRelayAnalytics(
+  l1Client: InsuredBridgeL1Client,
+  startingBlock = 0,
+  endingBlock = Infinity,
+  blockTimestamps: { [blockNumber: number]: number } = {},
+  allRelayEventData: { [bridgePoolAddress: string]: EventData[] } = l1Client.allRelayEventData
+): Promise<RelayAnalytics> {
+  const allEvents = Object.values<EventData[]>(allRelayEventData).flat();
+  const relayedDepositHashes = new Set(
+    allEvents
+      .filter((event) => event.event === "DepositRelayed")
+      .filter((event) => event.blockNumber >= startingBlock && event.blockNumber <= endingBlock)
+      .map((event) => event.returnValues.depositHash)
+  );
+  const blockNumbers = allEvents
+    .filter((event) => relayedDepositHashes.has(event.returnValues.depositHash))
+    .map((event) => event.blockNumber);
+  await getBlockTimestamps(l1Client.l1Web3, blockNumbers, blockTimestamps);
+
+  const relays = buildRelayRecords(
+    l1Client.bridgePools,
+    allRelayEventData,
+    blockTimestamps,
+    startingBlock,
+    endingBlock
+  );
+  return { relays, relayerStats: aggregateRelayerStats(relays), tokenStats: aggregateTokenStats(relays) };
+}
+
+// Formats rows as CSV with a header row of the keys of the first row.
+export function toCsv<T extends RelayRecord | RelayerStats | TokenStats>(rows: T[]): string {
+  if (rows.length === 0) return "";
+  const escape = (value: unknown) => {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const keys = Object.keys(rows[0]) as (keyof T)[];
+  return [keys.join(","), ...rows.map((row) => keys.map((key) => escape(row[key])).join(","))].join("\n") + "\n";
+}
+
+// Adds the timestamps of blocks missing from `blockTimestamps`. Timestamps are fetched in batches to limit the number of
+// concurrent requests.
+export async function getBlockTimestamps(
+  web3: Web3,
+  blockNumbers: number[],
+  blockTimestamps: { [blockNumber: number]: number } = {}
+): Promise<{ [blockNumber: number]: number }> {
+  const missingBlockNumbers = Array.from(new Set(blockNumbers)).filter((number) => !(number in blockTimestamps));
+  const batchSize = 50;
+  for (let i = 0; i < missingBlockNumbers.length; i += batchSize) {
+    const blocks = await Promise.all(
+      missingBlockNumbers.slice(i, i + batchSize).map((number) => web3.eth.getBlock(number))
+    );
+    for (const block of blocks) blockTimestamps[block.number] = Number(block.timestamp);
+  }
+  return blockTimestamps;
+}
+
+// Returns the nearest-rank percentiles of the values, ignoring nulls, or null if there are no values.
+export function getPercentiles(values: (number | null)[], percentiles: number[]): number[] | null {
+  const sortedValues = values.filter((value): value is number => value !== null).sort((a, b) => a - b);
+  if (sortedValues.length === 0) return null;
+  return percentiles.map(
+    (percentile) => sortedValues[Math.max(0, Math.ceil((percentile / 100) * sortedValues.length) - 1)]
+  );
+}
+
+function average(values: number[]): number | null {
+  return values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+// Amounts and fee percentages are formatted with at most 18 decimals, so they are summed and multiplied as wei.
+function addDecimals(a: string, b: string): string {
+  return fromWei(toBN(toWei(a)).add(toBN(toWei(b))));
+}
+
+function mulDecimals(a: string, b: string): string {
+  return fromWei(
+    toBN(toWei(a))
+      .mul(toBN(toWei(b)))
+      .div(toBN(toWei("1")))
+  );
+}
@@ -0,0 +1,81 @@
+import winston from "winston";
+import Web3 from "web3";
+import fs from "fs";
+import path from "path";
+import { config } from "dotenv";
+
+import { getWeb3 } from "@uma/common";
+import { getAddress } from "@uma/contracts-node";
+import { Logger, InsuredBridgeL1Client } from "@uma/financial-templates-lib";
+
+import { AcrossMonitorConfig } from "./AcrossMonitorConfig";
+import { getRelayAnalytics, toCsv } from "./RelayAnalytics";
+config();
+
+// Exports records and aggregated stats of relays made between STARTING_BLOCK_NUMBER and ENDING_BLOCK_NUMBER.
+export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
+  const config = new AcrossMonitorConfig(process.env);
+  const format = process.env.ANALYTICS_EXPORT_FORMAT ?? "csv";
+  const outputDir = process.env.ANALYTICS_EXPORT_DIR ?? "./relay-analytics";
+  if (format !== "csv" && format !== "json") throw new Error("ANALYTICS_EXPORT_FORMAT must be csv or json");
+
+  const startingBlock = config.startingBlock ?? config.bridgePoolEarliestBlockToSearch;
+  const endingBlock = config.endingBlock ?? (await l1Web3.eth.getBlockNumber());
+  logger.debug({
+    at: "AcrossMonitor#RelayAnalytics",
+    message: "Exporting relay analytics 📊",
+    startingBlock,
+    endingBlock,
+    format,
+    outputDir,
+  });
+
+  // Events are fetched up to the latest block so that relays in the range are followed through to their settlement.
+  const l1Client = new InsuredBridgeL1Client(
+    logger,
+    l1Web3,
+    await getAddress("BridgeAdmin", config.bridgeAdminChainId),
+    null,
+    Math.min(startingBlock, config.bridgePoolEarliestBlockToSearch),
+    null,
+    config.bridgePoolMaxBlocksToSeach
+  );
+  await l1Client.update();
+  const analytics = await getRelayAnalytics(l1Client, startingBlock, endingBlock);
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  const files =
+    format === "json"
+      ? { "relay-analytics.json": JSON.stringify(analytics, null, 2) }
+      : {
+          "relays.csv": toCsv(analytics.relays),
+          "relayer-stats.csv": toCsv(analytics.relayerStats),
+          "token-stats.csv": toCsv(analytics.tokenStats),
+        };
+  for (const [fileName, contents] of Object.entries(files)) fs.writeFileSync(path.join(outputDir, fileName), contents);
+
+  logger.info({
+    at: "AcrossMonitor#RelayAnalytics",
+    message: "Exported relay analytics 📊",
+    relays: analytics.relays.length,
+    relayers: new Set(analytics.relayerStats.map((stats) => stats.relayer)).size,
+    tokens: analytics.tokenStats.length,
+    files: Object.keys(files).map((fileName) => path.join(outputDir, fileName)),
+  });
+}
+
+if (require.main === module) {
+  run(Logger, getWeb3())
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      Logger.error({
+        at: "AcrossMonitor#RelayAnalytics",
+        message: "Relay analytics export error🚨",
+        error: typeof error === "string" ? new Error(error) : error,
+        notificationPath: "infrastructure-error",
+      });
+      process.exit(1);
+    });
+}
@@ -3,12 +3,13 @@ import Web3 from "web3";
 import retry from "async-retry";
 import { config } from "dotenv";
 
-import { getWeb3 } from "@uma/common";
+import { getWeb3, getWeb3ByChainId, getRetryWeb3sByChainId } from "@uma/common";
 import { getAddress } from "@uma/contracts-node";
-import { Logger, delay, InsuredBridgeL1Client } from "@uma/financial-templates-lib";
+import { Logger, delay, InsuredBridgeL1Client, InsuredBridgeL2Client } from "@uma/financial-templates-lib";
 
 import { AcrossMonitor } from "./AcrossMonitor";
 import { AcrossMonitorConfig } from "./AcrossMonitorConfig";
+import { createStuckRelayStore, createPoolHealthStore } from "./MonitorStores";
 config();
 
 export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
@@ -35,7 +36,33 @@ export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
       config.bridgePoolMaxBlocksToSeach
     );
 
-    const acrossMonitor = new AcrossMonitor(logger, config, l1Client);
+    // L2 clients are only needed to check that deposits are relayed by the stuck relay monitor.
+    const l2Clients = config.botModes.stuckRelaysEnabled
+      ? await Promise.all(
+          config.activatedChainIds.map(async (chainId: number) => {
+            const l2Web3 = getWeb3ByChainId(chainId);
+            const latestL2BlockNumber = await l2Web3.eth.getBlockNumber();
+            return new InsuredBridgeL2Client(
+              logger,
+              l2Web3,
+              await l1Client.getL2DepositBoxAddress(chainId),
+              chainId,
+              Math.max(0, latestL2BlockNumber - config.l2BlockLookback),
+              null,
+              getRetryWeb3sByChainId(chainId)
+            );
+          })
+        )
+      : [];
+
+    const acrossMonitor = new AcrossMonitor(
+      logger,
+      config,
+      l1Client,
+      l2Clients,
+      createStuckRelayStore(config.monitorStore),
+      createPoolHealthStore(config.monitorStore)
+    );
 
     for (;;) {
       await retry(
@@ -49,6 +76,12 @@ export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
 
           if (config.botModes.unknownRelayersEnabled) acrossMonitor.checkUnknownRelayers();
           else logger.debug({ at: "AcrossMonitor#UnknownRelayers", message: "UnknownRelayers monitor disabled" });
+
+          if (config.botModes.poolHealthEnabled) await acrossMonitor.checkPoolHealth();
+          else logger.debug({ at: "AcrossMonitor#PoolHealth", message: "PoolHealth monitor disabled" });
+
+          if (config.botModes.stuckRelaysEnabled) await acrossMonitor.checkStuckRelays();
+          else logger.debug({ at: "AcrossMonitor#StuckRelays", message: "StuckRelays monitor disabled" });
         },
         {
           retries: config.errorRetries,
@@ -0,0 +1,220 @@
+import { assert } from "chai";
+import winston from "winston";
+import { stores } from "@uma/sdk";
+
+import { AcrossMonitor } from "../src/AcrossMonitor";
+import { AcrossMonitorConfig } from "../src/AcrossMonitorConfig";
+import { createStuckRelayStore, LATENCY_SUMMARY_KEY } from "../src/MonitorStores";
+
+import type { InsuredBridgeL1Client, InsuredBridgeL2Client } from "@uma/financial-templates-lib";
+import type { PoolHealthState, StuckRelayState } from "../src/MonitorStores";
+import type { EventData } from "web3-eth-contract";
+
+describe("AcrossMonitor.ts", function () {
+  const l1Token = "0x0000000000000000000000000000000000000001";
+  const deposit = {
+    chainId: 10,
+    depositId: 1,
+    depositHash: "0x1234",
+    l1Token,
+    l2Sender: "0x0000000000000000000000000000000000000002",
+    amount: "1000000",
+    quoteTimestamp: 1000,
+  };
+  const bridgePoolAddress = "0x0000000000000000000000000000000000000003";
+  let currentTime: number;
+  let currentBlock: number;
+  let liquidReserves: string;
+  let relayEvents: EventData[];
+  let logs: { level: string; message: string; mrkdwn?: string }[];
+
+  // Only the bridge pool methods used by the pool health checks. Only liquid reserves change.
+  const call = (value: () => string) => () => ({ call: async () => value() });
+  const contract = {
+    options: { address: bridgePoolAddress },
+    methods: {
+      exchangeRateCurrent: call(() => "1000000000000000000"),
+      liquidityUtilizationCurrent: call(() => "0"),
+      liquidReserves: call(() => liquidReserves),
+      pendingReserves: call(() => "0"),
+      utilizedReserves: call(() => "0"),
+      undistributedLpFees: call(() => "0"),
+    },
+  };
+  const bridgePools = { [l1Token]: { contract, poolCollateralDecimals: 6, poolCollateralSymbol: "USDC" } };
+
+  // Only the client methods used by updates, the stuck relay and pool health checks. The deposit is never relayed. Like
+  // the real client, only the relay events of the latest update are kept.
+  const l1Client = ({
+    l1Web3: {
+      eth: {
+        getBlockNumber: async () => currentBlock,
+        getBlock: async (number: number | "latest") => ({
+          number: number === "latest" ? currentBlock : number,
+          timestamp: currentTime,
+        }),
+      },
+    },
+    bridgePools,
+    allRelayEventData: {},
+    update: async () => {
+      l1Client.allRelayEventData[bridgePoolAddress] = relayEvents;
+    },
+    getAllRelayedDepositsSimple: () => [],
+    getRelayForDeposit: () => undefined,
+    getPendingRelayedDeposits: () => [],
+  } as unknown) as InsuredBridgeL1Client;
+  const l2Client = ({
+    update: async () => undefined,
+    getAllDeposits: () => [deposit],
+  } as unknown) as InsuredBridgeL2Client;
+  const logger = ({
+    debug: (log: { message: string }) => logs.push({ level: "debug", ...log }),
+    info: (log: { message: string }) => logs.push({ level: "info", ...log }),
+    warn: (log: { message: string }) => logs.push({ level: "warn", ...log }),
+    error: (log: { message: string }) => logs.push({ level: "error", ...log }),
+  } as unknown) as winston.Logger;
+  const createMonitor = (
+    env: { [key: string]: string },
+    stuckRelayStore = stores.JsMap<string, StuckRelayState>(),
+    poolHealthStore = stores.JsMap<string, PoolHealthState>()
+  ) => {
+    const config = new AcrossMonitorConfig({ STUCK_RELAYS_ENABLED: "true", CHAIN_IDS: "[10]", ...env });
+    const monitor = new AcrossMonitor(logger, config, l1Client, [l2Client], stuckRelayStore, poolHealthStore);
+    monitor.bridgePools = (bridgePools as unknown) as AcrossMonitor["bridgePools"];
+    return monitor;
+  };
+  const relayEvent = (depositHash: string, blockNumber: number) =>
+    (({
+      event: "DepositRelayed",
+      blockNumber,
+      logIndex: 0,
+      transactionHash: depositHash,
+      returnValues: {
+        depositHash,
+        depositData: {
+          ...deposit,
+          l1Recipient: deposit.l2Sender,
+          slowRelayFeePct: "0",
+          instantRelayFeePct: "0",
+        },
+        relay: { slowRelayer: deposit.l2Sender, realizedLpFeePct: "0", proposerBond: "0", finalFee: "0" },
+      },
+    } as unknown) as EventData);
+  const stuckRelayWarnings = () => logs.filter((log) => log.message === "Across deposit not relayed warning 🐌");
+  const reserveDrainWarnings = () => logs.filter((log) => log.message === "Bridge pool reserve drain warning 🚰");
+  // Advances to a new block `minutes` later with the given liquid reserves.
+  const advance = (minutes: number, reserves: string) => {
+    currentTime += minutes * 60;
+    currentBlock += minutes * 5;
+    liquidReserves = reserves;
+  };
+
+  beforeEach(function () {
+    currentTime = 1000 + 31 * 60;
+    currentBlock = 100;
+    liquidReserves = "1000";
+    relayEvents = [];
+    logs = [];
+  });
+
+  it("Alerts on each stuck deposit once", async function () {
+    const monitor = createMonitor({});
+    await monitor.checkStuckRelays();
+    assert.equal(stuckRelayWarnings().length, 1);
+
+    currentTime += 60;
+    await monitor.checkStuckRelays();
+    assert.equal(stuckRelayWarnings().length, 1);
+  });
+
+  it("Remembers alerts between serverless runs in the store", async function () {
+    const stuckRelayStore = stores.JsMap<string, StuckRelayState>();
+    await createMonitor({ POLLING_DELAY: "0", MONITOR_STORE: "gcp" }, stuckRelayStore).checkStuckRelays();
+    await createMonitor({ POLLING_DELAY: "0", MONITOR_STORE: "gcp" }, stuckRelayStore).checkStuckRelays();
+    assert.equal(stuckRelayWarnings().length, 1);
+    assert.deepEqual(await stuckRelayStore.get(`notRelayed:${deposit.depositHash}`), { timestamp: currentTime });
+  });
+
+  it("Skips stuck relay checks in serverless mode without a persistent store", async function () {
+    const stuckRelayStore = stores.JsMap<string, StuckRelayState>();
+    await createMonitor({ POLLING_DELAY: "0" }, stuckRelayStore).checkStuckRelays();
+    assert.equal(stuckRelayWarnings().length, 0);
+    assert.isFalse(await stuckRelayStore.has(LATENCY_SUMMARY_KEY));
+  });
+
+  it("Summarizes the relays of every update since the last summary", async function () {
+    const monitor = createMonitor({ LATENCY_SUMMARY_INTERVAL_MINUTES: "60" });
+    relayEvents = [relayEvent("0xa", currentBlock)];
+    await monitor.update();
+    await monitor.checkStuckRelays();
+
+    // The first relay is no longer in the events of the l1Client once it is updated again.
+    advance(30, "1000");
+    relayEvents = [relayEvent("0xb", currentBlock)];
+    await monitor.update();
+    await monitor.checkStuckRelays();
+    advance(30, "1000");
+    relayEvents = [];
+    await monitor.update();
+    await monitor.checkStuckRelays();
+
+    const summaries = logs.filter((log) => log.message === "Across relay latency summary ⏱");
+    assert.equal(summaries.length, 1);
+    assert.match(summaries[0].mrkdwn ?? "", /^2 relays between blocks 100 and 400\./);
+  });
+
+  it("Measures reserve drains against snapshots within the window", async function () {
+    const poolHealthStore = stores.JsMap<string, PoolHealthState>();
+    const monitor = createMonitor({ POOL_HEALTH_WINDOW_MINUTES: "60" }, createStuckRelayStore(), poolHealthStore);
+    await monitor.checkPoolHealth();
+    advance(30, "900");
+    await monitor.checkPoolHealth();
+    // 26% of the first snapshot's reserves are drained, but it is outside the window and 740 is within 25% of 900.
+    advance(40, "740");
+    await monitor.checkPoolHealth();
+    assert.equal(reserveDrainWarnings().length, 0);
+    const snapshots = (await poolHealthStore.get(bridgePoolAddress))?.snapshots ?? [];
+    assert.deepEqual(
+      snapshots.map((snapshot) => snapshot.liquidReserves),
+      ["900", "740"]
+    );
+
+    // The snapshot of the same block, from monitoring it again, is left out, so this is measured against 900.
+    advance(0, "500");
+    await monitor.checkPoolHealth();
+    assert.equal(reserveDrainWarnings().length, 1);
+  });
+
+  it("Restarts the window after alerting", async function () {
+    const poolHealthStore = stores.JsMap<string, PoolHealthState>();
+    const monitor = createMonitor({}, createStuckRelayStore(), poolHealthStore);
+    await monitor.checkPoolHealth();
+    advance(10, "700");
+    await monitor.checkPoolHealth();
+    assert.equal(reserveDrainWarnings().length, 1);
+    assert.equal((await poolHealthStore.get(bridgePoolAddress))?.snapshots.length, 1);
+
+    // The same drain is not alerted again, only a further drain of more than 25% of the reserves after the alert.
+    advance(10, "700");
+    await monitor.checkPoolHealth();
+    assert.equal(reserveDrainWarnings().length, 1);
+    advance(10, "500");
+    await monitor.checkPoolHealth();
+    assert.equal(reserveDrainWarnings().length, 2);
+  });
+
+  it("Skips pool health checks in serverless mode without a persistent store", async function () {
+    const poolHealthStore = stores.JsMap<string, PoolHealthState>();
+    await createMonitor({ POLLING_DELAY: "0" }, createStuckRelayStore(), poolHealthStore).checkPoolHealth();
+    assert.equal(await poolHealthStore.size(), 0);
+  });
+
+  it("Rejects invalid pool health settings", function () {
+    assert.throws(() => new AcrossMonitorConfig({ POOL_HEALTH_WINDOW_MINUTES: "0" }), /POOL_HEALTH_WINDOW_MINUTES/);
+    assert.throws(
+      () => new AcrossMonitorConfig({ MAX_UTILIZATION_INCREASE_PER_HOUR: "-1" }),
+      /MAX_UTILIZATION_INCREASE_PER_HOUR/
+    );
+  });
+});
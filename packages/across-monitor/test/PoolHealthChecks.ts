@@ -0,0 +1,44 @@
+import { assert } from "chai";
+import Web3 from "web3";
+const { toWei } = Web3.utils;
+
+import { isExchangeRateDecrease, isReserveDrain, isUtilizationRise } from "../src/PoolHealthChecks";
+
+import type { PoolSnapshot } from "../src/MonitorStores";
+
+describe("PoolHealthChecks.ts", function () {
+  const snapshot = (props: Partial<PoolSnapshot>): PoolSnapshot => ({
+    blockNumber: 1,
+    timestamp: 1000,
+    liquidReserves: "1000",
+    pendingReserves: "0",
+    utilizedReserves: "0",
+    undistributedLpFees: "0",
+    exchangeRate: toWei("1.01"),
+    utilization: toWei("0.5"),
+    ...props,
+  });
+  const oldest = snapshot({});
+
+  it("Detects exchange rate decreases", function () {
+    assert.isTrue(isExchangeRateDecrease(oldest, snapshot({ exchangeRate: toWei("1.009999") })));
+    assert.isFalse(isExchangeRateDecrease(oldest, snapshot({ exchangeRate: toWei("1.01") })));
+    assert.isFalse(isExchangeRateDecrease(oldest, snapshot({ exchangeRate: toWei("1.02") })));
+  });
+
+  it("Detects liquid reserve drains", function () {
+    // 25% of the oldest reserves may be drained.
+    assert.isFalse(isReserveDrain(oldest, snapshot({ liquidReserves: "750" }), 25));
+    assert.isTrue(isReserveDrain(oldest, snapshot({ liquidReserves: "749" }), 25));
+    assert.isFalse(isReserveDrain(oldest, snapshot({ liquidReserves: "2000" }), 25));
+    assert.isFalse(isReserveDrain(snapshot({ liquidReserves: "0" }), snapshot({ liquidReserves: "0" }), 25));
+  });
+
+  it("Detects utilization rising faster than the hourly rate", function () {
+    // 10 percentage points per hour over a 30 minute window allows a 5 percentage point increase.
+    assert.isFalse(isUtilizationRise(oldest, snapshot({ utilization: toWei("0.55") }), 10, 1800));
+    assert.isTrue(isUtilizationRise(oldest, snapshot({ utilization: toWei("0.5501") }), 10, 1800));
+    assert.isFalse(isUtilizationRise(oldest, snapshot({ utilization: toWei("0.5501") }), 10, 3600));
+    assert.isFalse(isUtilizationRise(oldest, snapshot({ utilization: toWei("0.1") }), 10, 1800));
+  });
+});
@@ -0,0 +1,211 @@
+import { assert } from "chai";
+import Web3 from "web3";
+const { toWei } = Web3.utils;
+
+import {
+  buildRelayRecords,
+  aggregateRelayerStats,
+  aggregateTokenStats,
+  toCsv,
+  getPercentiles,
+} from "../src/RelayAnalytics";
+
+import type { BridgePoolData } from "@uma/financial-templates-lib";
+import type { EventData } from "web3-eth-contract";
+
+describe("RelayAnalytics.ts", function () {
+  const l1Token = "0x0000000000000000000000000000000000000001";
+  const bridgePoolAddress = "0x0000000000000000000000000000000000000002";
+  const [slowRelayer, instantRelayer, disputer] = [
+    "0x0000000000000000000000000000000000000003",
+    "0x0000000000000000000000000000000000000004",
+    "0x0000000000000000000000000000000000000005",
+  ];
+  // Only the fields used to build relay records. The pool collateral has 6 decimals, like USDC.
+  const bridgePools = {
+    [l1Token]: ({
+      contract: { options: { address: bridgePoolAddress } },
+      poolCollateralDecimals: 6,
+      poolCollateralSymbol: "USDC",
+    } as unknown) as BridgePoolData,
+  };
+  const blockTimestamps = { 10: 1000, 11: 1100, 12: 1160, 13: 1200, 14: 1400, 20: 2000 };
+
+  const depositData = (depositId: number, amount: string, quoteTimestamp: number) => ({
+    chainId: "10",
+    depositId: depositId.toString(),
+    l1Recipient: instantRelayer,
+    l2Sender: instantRelayer,
+    amount,
+    slowRelayFeePct: toWei("0.01"),
+    instantRelayFeePct: toWei("0.02"),
+    quoteTimestamp: quoteTimestamp.toString(),
+  });
+  const relay = (relayer: string) => ({
+    slowRelayer: relayer,
+    realizedLpFeePct: toWei("0.001"),
+    proposerBond: "5000000",
+    finalFee: "1000000",
+  });
+  const event = (
+    name: string,
+    blockNumber: number,
+    transactionHash: string,
+    returnValues: { [key: string]: unknown }
+  ): EventData => (({ event: name, blockNumber, logIndex: 0, transactionHash, returnValues } as unknown) as EventData);
+
+  // Deposit 0xa is relayed and sped up in the same transaction, then settled. Deposit 0xb is sped up after its slow
+  // relay, disputed and relayed again by another relayer.
+  const events = [
+    event("RelaySettled", 20, "0x20", { depositHash: "0xa", caller: slowRelayer }),
+    event("DepositRelayed", 10, "0x10", {
+      depositHash: "0xa",
+      depositData: depositData(1, "100000000", 900),
+      relay: relay(slowRelayer),
+    }),
+    event("RelaySpedUp", 10, "0x10", { depositHash: "0xa", instantRelayer }),
+    event("DepositRelayed", 11, "0x11", {
+      depositHash: "0xb",
+      depositData: depositData(2, "50000000", 1000),
+      relay: relay(slowRelayer),
+    }),
+    event("RelaySpedUp", 12, "0x12", { depositHash: "0xb", instantRelayer }),
+    event("RelayDisputed", 13, "0x13", { depositHash: "0xb", disputer }),
+    event("DepositRelayed", 14, "0x14", {
+      depositHash: "0xb",
+      depositData: depositData(2, "50000000", 1000),
+      relay: relay(instantRelayer),
+    }),
+  ];
+  const records = buildRelayRecords(bridgePools, { [bridgePoolAddress]: events }, blockTimestamps);
+
+  it("Builds relay records", function () {
+    assert.equal(records.length, 3);
+    assert.deepInclude(records[0], {
+      l1Token,
+      symbol: "USDC",
+      chainId: 10,
+      depositId: 1,
+      amount: "100",
+      slowRelayFeePct: "0.01",
+      instantRelayFeePct: "0.02",
+      realizedLpFeePct: "0.001",
+      proposerBond: "5",
+      finalFee: "1",
+      relayType: "instant",
+      status: "settled",
+      slowRelayer,
+      instantRelayer,
+      settler: slowRelayer,
+      disputer: null,
+      timeFromQuoteToRelay: 100,
+      timeFromQuoteToInstantRelay: 100,
+      timeToSettle: 1000,
+    });
+    assert.deepInclude(records[1], {
+      depositHash: "0xb",
+      relayType: "sped up",
+      status: "disputed",
+      disputer,
+      disputeTimestamp: 1200,
+      timeFromQuoteToRelay: 100,
+      timeFromQuoteToInstantRelay: 160,
+    });
+    // Events after the dispute apply to the new relay.
+    assert.deepInclude(records[2], {
+      depositHash: "0xb",
+      relayType: "slow",
+      status: "pending",
+      slowRelayer: instantRelayer,
+      instantRelayer: null,
+      timeFromQuoteToRelay: 400,
+    });
+  });
+
+  it("Only includes relays made in the block range", function () {
+    const rangeRecords = buildRelayRecords(bridgePools, { [bridgePoolAddress]: events }, blockTimestamps, 11, 13);
+    assert.equal(rangeRecords.length, 1);
+    assert.equal(rangeRecords[0].status, "disputed");
+  });
+
+  it("Aggregates relayer stats", function () {
+    const [slowRelayerStats, instantRelayerStats] = aggregateRelayerStats(records);
+    assert.deepEqual(slowRelayerStats, {
+      relayer: slowRelayer,
+      l1Token,
+      symbol: "USDC",
+      slowRelays: 2,
+      instantRelays: 0,
+      speedUps: 0,
+      settledRelays: 1,
+      disputedRelays: 1,
+      slowRelayVolume: "150",
+      instantRelayVolume: "0",
+      slowRelayFees: "1",
+      instantRelayFees: "0",
+      bondsPosted: "12",
+      averageTimeFromQuoteToRelay: 100,
+      averageTimeFromQuoteToInstantRelay: null,
+    });
+    // The disputed relay earns no instant relay fees.
+    assert.deepInclude(instantRelayerStats, {
+      relayer: instantRelayer,
+      slowRelays: 1,
+      instantRelays: 1,
+      speedUps: 1,
+      slowRelayVolume: "50",
+      instantRelayVolume: "150",
+      instantRelayFees: "2",
+      bondsPosted: "6",
+      averageTimeFromQuoteToRelay: 400,
+      averageTimeFromQuoteToInstantRelay: 130,
+    });
+  });
+
+  it("Aggregates token stats", function () {
+    assert.deepEqual(aggregateTokenStats(records), [
+      {
+        l1Token,
+        symbol: "USDC",
+        relays: 3,
+        instantRelays: 1,
+        speedUps: 1,
+        settledRelays: 1,
+        disputedRelays: 1,
+        pendingRelays: 1,
+        volume: "200",
+        lpFees: "0.1",
+        averageRealizedLpFeePct: "0.001",
+        bondsPosted: "18",
+        averageTimeFromQuoteToRelay: 200,
+        averageTimeFromQuoteToInstantRelay: 130,
+        averageTimeToSettle: 1000,
+      },
+    ]);
+  });
+
+  it("Formats rows as CSV", function () {
+    const [, instantRelayerStats] = aggregateRelayerStats(records);
+    const csv = toCsv([{ ...instantRelayerStats, symbol: 'US"DC, bridged' }]).split("\n");
+    assert.equal(csv[0], Object.keys(instantRelayerStats).join(","));
+    assert.include(csv[1], `${instantRelayer},${l1Token},"US""DC, bridged",1,1,1`);
+    assert.equal(csv[2], "");
+
+    // Nulls are empty.
+    assert.match(toCsv(records).split("\n")[3], /,pending,0x0{39}4,,,,/);
+    assert.equal(toCsv([]), "");
+  });
+
+  it("Computes nearest-rank percentiles", function () {
+    assert.deepEqual(getPercentiles([5, null, 1, 3, 2, 4], [50, 90, 99]), [3, 5, 5]);
+    assert.deepEqual(getPercentiles([7], [50, 99]), [7, 7]);
+    assert.deepEqual(
+      getPercentiles(
+        Array.from({ length: 100 }, (_, i) => 100 - i),
+        [1, 50, 99]
+      ),
+      [1, 50, 99]
+    );
+    assert.isNull(getPercentiles([null], [50]));
+  });
+});
@@ -3,12 +3,13 @@ import { ethers } from "ethers";
 import moment from "moment";
 import Events from "events";
 
-import { tables, Coingecko, utils, Multicall2 } from "@uma/sdk";
+import { tables, Coingecko, utils, Multicall2, across, clients } from "@uma/sdk";
 
 import * as Services from "../../services";
 import Express from "../../services/express-channels";
 import * as Actions from "../../services/actions";
 import { ProcessEnv, AppState, Channels, AppClients } from "../../types";
+import type { StreamUpdate } from "../../services/express-channels";
 import {
   addresses,
   appStats,
@@ -28,6 +29,8 @@ export default async (env: ProcessEnv) => {
   assert(env.zrxBaseUrl, "requires zrxBaseUrl");
   assert(env.MULTI_CALL_2_ADDRESS, "requires MULTI_CALL_2_ADDRESS");
   const lspCreatorAddresses = parseEnvArray(env.lspCreatorAddresses || "");
+  // optional, enables the across fee quote channel for these bridge pools
+  const acrossBridgePoolAddresses = parseEnvArray(env.ACROSS_BRIDGE_POOL_ADDRESSES || "");
 
   // debug flag for more verbose logs
   const debug = Boolean(env.debug);
@@ -51,6 +54,13 @@ export default async (env: ProcessEnv) => {
 
   // services can emit events when necessary, though for now any services that depend on events must be in same process
   const serviceEvents = new Events();
+  // every stream subscription listens for "update" events, so don't limit the number of listeners
+  serviceEvents.setMaxListeners(0);
+  // notify stream subscriptions that state has been updated by a service, optionally for specific contract addresses
+  function emitUpdate(source: string, addresses?: string[]) {
+    const update: StreamUpdate = { source, addresses };
+    serviceEvents.emit("update", update);
+  }
   const networkChainId = env.NETWORK_CHAIN_ID ? parseInt(env.NETWORK_CHAIN_ID) : (await provider.getNetwork()).chainId;
   // state shared between services
   const appState: AppState = {
@@ -219,6 +229,37 @@ export default async (env: ProcessEnv) => {
   await services.marketPrices.update();
   console.log("Updated Market Prices");
 
+  // across fee quotes read rate models from the rate model store events, which are refreshed with contract state.
+  // the dictionary is rebuilt from every event on each update, so events are kept and only new blocks are queried.
+  const rateModelDictionary = new across.rateModel.RateModelDictionary();
+  const rateModelEvents: across.rateModel.RateModelEvent[] = [];
+  let lastRateModelBlock = -1;
+  async function updateRateModels(endBlock: number) {
+    if (!acrossBridgePoolAddresses.length || endBlock <= lastRateModelBlock) return;
+    const rateModelStore = clients.rateModelStore.connect(
+      await clients.rateModelStore.getAddress(networkChainId),
+      provider
+    );
+    const events = await rateModelStore.queryFilter(
+      rateModelStore.filters.UpdatedRateModel(),
+      lastRateModelBlock + 1,
+      endBlock
+    );
+    rateModelEvents.push(
+      ...events.map((event) => ({
+        blockNumber: event.blockNumber,
+        transactionIndex: event.transactionIndex,
+        logIndex: event.logIndex,
+        rateModel: event.args.rateModel,
+        l1Token: event.args.l1Token,
+      }))
+    );
+    rateModelDictionary.updateWithEvents(rateModelEvents);
+    lastRateModelBlock = endBlock;
+  }
+  await updateRateModels(initBlock.number);
+  if (acrossBridgePoolAddresses.length) console.log("Updated Across Rate Models");
+
   // services consuming data
   const channels: Channels = [
     // set this as default channel for backward compatibility. This is deprecated and will eventually be used for global style queries
@@ -230,7 +271,17 @@ export default async (env: ProcessEnv) => {
     ["global", Actions.Global(undefined, appState)],
   ];
 
-  await Express({ port: Number(env.EXPRESS_PORT), debug }, channels)();
+  if (acrossBridgePoolAddresses.length) {
+    const bridgePools: Record<string, string> = {};
+    for (const bridgePoolAddress of acrossBridgePoolAddresses) {
+      const l1Token = await clients.bridgePool.connect(bridgePoolAddress, provider).l1Token();
+      bridgePools[ethers.utils.getAddress(l1Token)] = bridgePoolAddress;
+    }
+    const quoteSource = new across.feeQuote.OnchainQuoteSource(provider, bridgePools, rateModelDictionary);
+    channels.push(["across", Actions.Across(undefined, { feeQuoter: new across.feeQuote.FeeQuoter(quoteSource) })]);
+  }
+
+  await Express({ port: Number(env.EXPRESS_PORT), debug }, channels, serviceEvents)();
   console.log("Started Express Server, API accessible");
 
   async function detectNewContracts(startBlock: number, endBlock: number) {
@@ -250,17 +301,23 @@ export default async (env: ProcessEnv) => {
     await services.emps.update(startBlock, endBlock);
     await services.lsps.update(startBlock, endBlock);
     await services.erc20s.update();
+    await updateRateModels(endBlock);
     await appState.appStats.setLastBlockUpdate(endBlock);
+    emitUpdate("contractState");
   }
 
   // separate out price updates into a different loop to query every few minutes
   async function updatePrices() {
     await services.collateralPrices.update();
     await services.syntheticPrices.update();
+    emitUpdate("syntheticPrices");
     await services.marketPrices.update();
     await services.empStats.update();
+    emitUpdate("empStats");
     await services.lspStats.update();
+    emitUpdate("lspStats");
     await services.globalStats.update();
+    emitUpdate("globalStats");
   }
 
   // wait update rate before running loops, since all state was just updated on init
@@ -275,7 +332,10 @@ export default async (env: ProcessEnv) => {
     // handle created events
     if (event === "created") {
       console.log("LspCreator found a new contract", JSON.stringify(data));
-      services.lsps.updateLsps([data.address], data.startBlock, data.endBlock).catch(console.error);
+      services.lsps
+        .updateLsps([data.address], data.startBlock, data.endBlock)
+        .then(() => emitUpdate("multiLspCreator", [data.address]))
+        .catch(console.error);
     }
   });
 
@@ -284,7 +344,10 @@ export default async (env: ProcessEnv) => {
     // handle created events
     if (event === "created") {
       console.log("EmpRegistry found a new contract", JSON.stringify(data));
-      services.emps.updateAll([data.address], data.startBlock, data.endBlock).catch(console.error);
+      services.emps
+        .updateAll([data.address], data.startBlock, data.endBlock)
+        .then(() => emitUpdate("empRegistry", [data.address]))
+        .catch(console.error);
     }
   });
 
@@ -0,0 +1,37 @@
+import assert from "assert";
+import { across } from "@uma/sdk";
+import { Json, Actions } from "../../types";
+
+type Dependencies = {
+  feeQuoter: across.feeQuote.FeeQuoter;
+};
+type Config = undefined;
+
+export function Handlers(config: Config, { feeQuoter }: Dependencies): Actions {
+  const actions: Actions = {
+    async quote(l1Token: string, amount: string, destinationChainId: number, quoteTimestamp?: number) {
+      assert(l1Token, "requires an l1 token address");
+      assert(amount, "requires an amount");
+      assert(destinationChainId, "requires a destination chain id");
+      return (await feeQuoter.getQuote({
+        l1Token,
+        amount,
+        destinationChainId: Number(destinationChainId),
+        quoteTimestamp: quoteTimestamp ? Number(quoteTimestamp) : undefined,
+      })) as Json;
+    },
+  };
+
+  // list all available actions
+  const keys = Object.keys(actions);
+  actions.actions = () => keys;
+
+  return actions;
+}
+export default (config: Config, dependencies: Dependencies) => {
+  const actions = Handlers(config, dependencies);
+  return async (action: string, ...args: Json[]) => {
+    assert(actions[action], `Invalid action: ${action}`);
+    return actions[action](...args);
+  };
+};
@@ -2,3 +2,4 @@ export { default as Emp } from "./emp";
 export { default as Lsp } from "./lsp";
 export { default as Global } from "./global";
 export { default as Scheduler } from "./scheduler";
+export { default as Across } from "./across";
@@ -0,0 +1,86 @@
+import assert from "assert";
+import http from "http";
+import Events from "events";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import Express from "./express-channels";
+import type { StreamUpdate } from "./express-channels";
+import type { Json } from "../types";
+
+const address = "0x9a8f92a830a5cb89a3816e3d267cb791c16b04d1";
+const checksummedAddress = "0x9A8F92a830a5CB89a3816e3d267cb791c16b04d1";
+
+// collects server sent events of a subscription until closed
+function subscribe(port: number, path: string) {
+  const events: { event: string; data: Json }[] = [];
+  const request = http.get(`http://localhost:${port}${path}`, { agent: false }, (response) => {
+    response.setEncoding("utf8").on("data", (chunk: string) => {
+      for (const message of chunk.split("\n\n").filter((text) => text.startsWith("event: "))) {
+        const [eventLine, dataLine] = message.split("\n");
+        events.push({ event: eventLine.slice("event: ".length), data: JSON.parse(dataLine.slice("data: ".length)) });
+      }
+    });
+  });
+  return { events, close: () => request.destroy() };
+}
+const tick = () => new Promise((res) => setTimeout(res, 50));
+
+describe("express-channels", function () {
+  const events = new Events();
+  let balance = 1;
+  const calls: Json[][] = [];
+  let server: Server;
+  let port: number;
+  before(async function () {
+    const actions = async (action: string, ...args: Json[]) => {
+      calls.push(args);
+      return { action, args, balance };
+    };
+    server = await Express({ port: 19470, debug: false }, [["test", actions]], events)();
+    port = (server.address() as AddressInfo).port;
+  });
+  after(function () {
+    server.close();
+  });
+  it("subscribes with a checksummed address", async function () {
+    const subscription = subscribe(port, `/test/subscribe/balanceOf?address=${address}`);
+    try {
+      await tick();
+      assert.deepEqual(subscription.events, [
+        { event: "balanceOf", data: { action: "balanceOf", args: [checksummedAddress], balance: 1 } },
+      ]);
+
+      // updates for other addresses are ignored, updates for this address in any case are sent if the result changed
+      balance = 2;
+      const update: StreamUpdate = { source: "test", addresses: ["0x0000000000000000000000000000000000000001"] };
+      events.emit("update", update);
+      await tick();
+      assert.equal(subscription.events.length, 1);
+      events.emit("update", { source: "test", addresses: [checksummedAddress] });
+      events.emit("update", { source: "test", addresses: [address] });
+      await tick();
+      assert.deepEqual(
+        subscription.events.map(({ data }) => data),
+        [
+          { action: "balanceOf", args: [checksummedAddress], balance: 1 },
+          { action: "balanceOf", args: [checksummedAddress], balance: 2 },
+        ]
+      );
+    } finally {
+      subscription.close();
+    }
+    await tick();
+    assert.equal(events.listenerCount("update"), 0);
+  });
+  it("rejects invalid addresses", async function () {
+    const callCount = calls.length;
+    const status = await new Promise((res) =>
+      http.get(`http://localhost:${port}/test/subscribe/balanceOf?address=0x1234`, { agent: false }, (response) => {
+        response.resume();
+        res(response.statusCode);
+      })
+    );
+    assert.equal(status, 500);
+    assert.equal(calls.length, callCount);
+  });
+});
@@ -3,6 +3,9 @@ import lodash from "lodash";
 import cors from "cors";
 import bodyParser from "body-parser";
 import assert from "assert";
+import { ethers } from "ethers";
+import type Events from "events";
+import type { Server } from "http";
 import type { Request, Response, NextFunction } from "express";
 import { Json, BaseConfig } from "../types";
 import { Profile } from "../libs/utils";
@@ -15,10 +18,17 @@ interface Config extends BaseConfig {
 type Actions = (action: string, ...args: Json[]) => Promise<Json>;
 type Channel = [string, Actions];
 export type Channels = Channel[];
+// Emitted as an "update" event on the events emitter when app state changes, so subscriptions can push new results.
+// Subscriptions to an address are only refreshed by updates for that address, or updates without addresses.
+export type StreamUpdate = {
+  source: string;
+  addresses?: string[];
+};
 // This is very similar to the original express service, but takes in the idea of channels, basically
 // will create paths to different action instances. In most cases each channel should be completely
 // independent of other channels.
-export default (config: Config, channels: Channels = []) => {
+// If an events emitter is provided, actions can also be subscribed to as server sent events, see subscribe below.
+export default (config: Config, channels: Channels = [], events?: Events) => {
   assert(config.port, "requires express port");
   assert(channels.length, "requires a list of action channels");
 
@@ -45,6 +55,68 @@ export default (config: Config, channels: Channels = []) => {
         .catch(next)
         .finally(end);
     });
+
+    if (!events) return;
+    // GET /${path}/subscribe/:action?address=0x...&args=[...] opens a server sent event stream of the action's result.
+    // The action is called with args, a JSON array, or with [address] if no args are given, where the address is
+    // checksummed. The result is sent on subscribing and again on every update that changes it.
+    const subscribePath = path && path.length ? `/${path}/subscribe/:action` : "/subscribe/:action";
+    app.get(subscribePath, (req: Request, res: Response, next: NextFunction) => {
+      const action = req?.params?.action;
+      let address: string | undefined;
+      try {
+        address = typeof req.query.address === "string" ? ethers.utils.getAddress(req.query.address) : undefined;
+      } catch (err) {
+        return next(new Error("Invalid subscription address"));
+      }
+      let args: Json[];
+      try {
+        args = req.query.args ? lodash.castArray(JSON.parse(String(req.query.args))) : address ? [address] : [];
+      } catch (err) {
+        return next(new Error("Invalid subscription args"));
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      let lastData: string | undefined;
+      function send() {
+        actions(action, ...args)
+          .then((result) => {
+            const data = JSON.stringify(result);
+            if (data === lastData) return;
+            lastData = data;
+            res.write(`event: ${action}\ndata: ${data}\n\n`);
+          })
+          .catch((err: Error) => {
+            res.write(`event: error\ndata: ${JSON.stringify(err.message || err)}\n\n`);
+          });
+      }
+      function onUpdate(update: StreamUpdate) {
+        // updates may contain addresses in any case
+        const lowerCaseAddress = address?.toLowerCase();
+        if (
+          lowerCaseAddress &&
+          update.addresses &&
+          !update.addresses.some((updated) => updated.toLowerCase() === lowerCaseAddress)
+        ) {
+          return;
+        }
+        send();
+      }
+
+      send();
+      events.on("update", onUpdate);
+      // comments keep idle connections from being closed by proxies
+      const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 30 * 1000);
+      req.on("close", () => {
+        events.off("update", onUpdate);
+        clearInterval(keepAlive);
+      });
+    });
   });
 
   app.use(cors());
@@ -60,8 +132,8 @@ export default (config: Config, channels: Channels = []) => {
   });
 
   return () => {
-    return new Promise((res) => {
-      app.listen(config.port, () => res(true));
+    return new Promise<Server>((res) => {
+      const server = app.listen(config.port, () => res(server));
     });
   };
 };
@@ -36,7 +36,7 @@ async function run({ logger, pollingDelay, errorRetries, errorRetriesTimeout, no
     const chainId = notifierConfig.chainId;
     const apiEndpoint = notifierConfig.apiEndpoint;
     const maxTimeTillExpiration = notifierConfig.maxTimeTillExpiration;
-    const networker = new Networker(logger);
+    const networker = new Networker(logger, notifierConfig.networkerConfig);
 
     const contractNotifier = new ContractNotifier({
       logger,
@@ -104,7 +104,8 @@ async function Poll(callback) {
       // NOTIFIER_CONFIG={
       //  "maxTimeTillExpiration": 604800,                   // If time till expiration (in seconds) is below this fire the alert.
       //  "chainId": 1,                                      // Contracts deployment chain.
-      //  "apiEndpoint": "https://prod.api.umaproject.org"   // API endpoint to check for contract information.
+      //  "apiEndpoint": "https://prod.api.umaproject.org",  // API endpoint to check for contract information.
+      //  "networkerConfig": {"retries": 3}                  // Timeout, retry and rate limit settings of the Networker.
       // }
       notifierConfig: process.env.NOTIFIER_CONFIG ? JSON.parse(process.env.NOTIFIER_CONFIG) : {},
     };
@@ -43,6 +43,7 @@ const { getAddress, getAbi } = require("@uma/contracts-node");
  * @param {String} [disputerOverridePrice] Optional String representing a Wei number to override the disputer price feed.
  * @param {Object} [proxyTransactionWrapperConfig] Configuration to construct the proxy transaction wrapper to enable DSProxy
  *     disputes. This facilitates atomic swap, and disputes transactions against a reserve currency.
+ * @param {Object} [networkerConfig] Timeout, retry and rate limit settings of the price feed Networker.
  * @return None or throws an Error.
  */
 async function run({
@@ -58,6 +59,7 @@ async function run({
   disputerConfig,
   disputerOverridePrice,
   proxyTransactionWrapperConfig,
+  networkerConfig = {},
 }) {
   try {
     const getTime = () => Math.round(new Date().getTime() / 1000);
@@ -78,6 +80,7 @@ async function run({
       disputerConfig,
       disputerOverridePrice,
       proxyTransactionWrapperConfig,
+      networkerConfig,
     });
 
     // await web3.eth.net.getId();
@@ -142,7 +145,7 @@ async function run({
     const priceFeed = await createReferencePriceFeedForFinancialContract(
       logger,
       web3,
-      new Networker(logger),
+      new Networker(logger, networkerConfig),
       getTime,
       financialContractAddress,
       priceFeedConfig
@@ -339,6 +342,11 @@ async function Poll(callback) {
       // "availableAccounts": "1"} -> the number of EOAs the bot should use when performing liquidations. This only works
       // if you have configured your DSProxy with a DSGuard with permissions on your other EOAs unlocked from your account.
       proxyTransactionWrapperConfig: process.env.DSPROXY_CONFIG ? JSON.parse(process.env.DSPROXY_CONFIG) : {},
+      // Networker settings used for the price feed API requests. EG:
+      // {"timeout":10000, -> milliseconds before a request is aborted.
+      // "retries":3, -> number of retries on 429s, 5xx statuses and network errors, with exponential backoff.
+      // "hostRateLimits":{"api.cryptowat.ch":{"requestsPerSecond":1,"burst":5}}} -> per host request budgets.
+      networkerConfig: process.env.NETWORKER_CONFIG ? JSON.parse(process.env.NETWORKER_CONFIG) : {},
     };
 
     await run({ logger: Logger, web3: getWeb3(), ...executionParameters });
@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+/**
+ * @notice Replays a price feed's historical prices over a time range and writes the series, gaps and errors to a CSV
+ * or JSON file. If a second config is provided, both feeds are replayed and compared side by side with deviation
+ * statistics. This can be used to validate a new identifier config against historical data before whitelisting it.
+ *
+ * @notice Each config is either an identifier in DefaultPriceFeedConfigs or a JSON price feed config as accepted by
+ * `createPriceFeed`. Price feed API keys can be passed in via the PRICE_FEED_CONFIG environment variable, which is
+ * merged into both configs.
+ * @dev How to run:
+ *     replay-price-feed
+ *         --config '{"type":"medianizer","medianizedFeeds":[...]}' or --config ETH/BTC
+ *         --compareConfig '{"type":"fallback","orderedFeeds":[...]}' (optional)
+ *         --start 1640995200
+ *         --end 1641081600 (optional, defaults to now)
+ *         --step 3600 (optional, defaults to 1 hour)
+ *         --ancillaryData 0x123abc (optional)
+ *         --output replay.csv (optional, use a .json extension for json output, defaults to printing json)
+ *         --network mainnet_infura (optional, only needed for on-chain price feeds)
+ */
+
+import fs from "fs";
+import minimist from "minimist";
+import { config as dotenvConfig } from "dotenv";
+import { getWeb3 } from "@uma/common";
+import { Logger } from "../logger/Logger";
+import { Networker } from "../price-feed/Networker";
+import { createPriceFeed } from "../price-feed/CreatePriceFeed";
+import { defaultConfigs } from "../price-feed/DefaultPriceFeedConfigs";
+import { replayPriceFeed, compareReplays, replayToCsv } from "../price-feed/PriceFeedReplay";
+import type { ReplayResult, ReplayComparison } from "../price-feed/PriceFeedReplay";
+dotenvConfig();
+
+const argv = minimist(process.argv.slice(2), {
+  string: ["config", "compareConfig", "ancillaryData", "output"],
+  default: { step: 3600 },
+});
+
+const getTime = async () => Math.round(new Date().getTime() / 1000);
+
+// Resolves a --config value into a price feed config, looking identifiers up in the default configs.
+function parseConfig(value: string): { [key: string]: any } {
+  const config = defaultConfigs[value] ?? JSON.parse(value);
+  return { ...config, ...(process.env.PRICE_FEED_CONFIG ? JSON.parse(process.env.PRICE_FEED_CONFIG) : {}) };
+}
+
+async function replay(config: { [key: string]: any }, startTime: number, endTime: number): Promise<ReplayResult> {
+  const web3 = getWeb3();
+  const currentTime = await getTime();
+
+  // The feed must be able to look back far enough to price the start of the range.
+  const lookback = Math.max(config.lookback ?? 0, currentTime - startTime);
+  const priceFeed = await createPriceFeed(Logger, web3, new Networker(Logger), getTime, { ...config, lookback });
+  if (!priceFeed) throw new Error(`Failed to construct price feed for config ${JSON.stringify(config)}`);
+
+  await priceFeed.update(argv.ancillaryData);
+  return await replayPriceFeed(priceFeed, startTime, endTime, Number(argv.step), argv.ancillaryData);
+}
+
+async function main() {
+  if (!argv.config || !argv.start) throw new Error("Must provide --config and --start");
+  const startTime = Number(argv.start);
+  const endTime = argv.end ? Number(argv.end) : await getTime();
+
+  const result = await replay(parseConfig(argv.config), startTime, endTime);
+  let output: ReplayResult | ReplayComparison = result;
+  if (argv.compareConfig) {
+    const comparison = compareReplays(result, await replay(parseConfig(argv.compareConfig), startTime, endTime));
+    Logger.info({ at: "replayPriceFeed", message: "Price feed comparison complete", stats: comparison.stats });
+    output = comparison;
+  } else {
+    Logger.info({
+      at: "replayPriceFeed",
+      message: "Price feed replay complete",
+      points: result.points.length,
+      errors: result.errors,
+      gaps: result.gaps,
+    });
+  }
+
+  if (!argv.output) {
+    console.log(JSON.stringify(output, null, 2));
+  } else {
+    const isJson = argv.output.endsWith(".json");
+    fs.writeFileSync(argv.output, isJson ? JSON.stringify(output, null, 2) : replayToCsv(output));
+  }
+}
+
+main().then(
+  () => {
+    process.exit(0);
+  },
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -15,9 +15,15 @@ export * from "./helpers/AbiUtils";
 export * from "./logger/Logger";
 export * from "./logger/SpyTransport";
 export * from "./logger/ConsoleTransport";
+export * from "./logger/MetricsTransport";
 export * from "./price-feed/UniswapPriceFeed";
+export * from "./price-feed/ChainlinkPriceFeed";
 export * from "./price-feed/CreatePriceFeed";
+export * from "./price-feed/AncillaryDataPriceFeedResolver";
+export * from "./price-feed/PriceFeedReplay";
 export * from "./price-feed/Networker";
+export * from "./price-feed/CachingNetworker";
+export * from "./price-feed/CacheStore";
 export * from "./price-feed/PriceFeedMock";
 export * from "./price-feed/PriceFeedMockScaled";
 export * from "./price-feed/InvalidPriceFeedMock";
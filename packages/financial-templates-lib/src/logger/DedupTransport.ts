@@ -0,0 +1,147 @@
+// This transport wraps another transport (e.g. Slack or PagerDuty) to stop bots from flooding it when they emit the same
+// log on every loop, for example while a price feed or RPC is down. Within a window:
+// -> The first log with a given level, `at` and `message` is forwarded. Repeats are held back and, at the end of the
+//    window, one summary is forwarded: the latest repeat with a `duplicateCount` field holding the number of repeats.
+// -> If `maxLogsPerWindow` is set, logs beyond that number are dropped and a single summary counting them is forwarded
+//    at the end of the window.
+// Summaries that are pending when the bot shuts down are forwarded by `waitForLogger`, which calls `flush`.
+import Transport from "winston-transport";
+
+// Winston stores the level of a log under this symbol. Transports filter on it.
+const LEVEL = Symbol.for("level");
+
+export interface DedupOptions {
+  windowSeconds?: number; // Length of the window logs are grouped in. Defaults to 5 minutes.
+  maxLogsPerWindow?: number; // Maximum number of logs forwarded per window. Unlimited if not set.
+}
+
+interface DuplicateGroup {
+  latestInfo: any;
+  count: number; // Number of repeats held back, excluding the first log that was forwarded.
+  timer: NodeJS.Timeout;
+}
+
+interface RateLimitWindow {
+  forwarded: number;
+  dropped: number;
+  droppedLevel: string | null; // Most severe level dropped in this window.
+  botIdentifier?: string;
+  timer: NodeJS.Timeout;
+}
+
+export class DedupTransport extends Transport {
+  private readonly windowSeconds: number;
+  private readonly maxLogsPerWindow: number | undefined;
+  private readonly groups = new Map<string, DuplicateGroup>();
+  private rateLimitWindow: RateLimitWindow | null = null;
+  // Set by winston to the logger's levels when the logger pipes to this transport.
+  declare levels?: { [level: string]: number };
+
+  constructor(private readonly transport: Transport, { windowSeconds = 300, maxLogsPerWindow }: DedupOptions = {}) {
+    // Filter on the wrapped transport's level so that only logs it would accept are grouped.
+    super({ level: transport.level, handleExceptions: transport.handleExceptions });
+    this.windowSeconds = windowSeconds;
+    this.maxLogsPerWindow = maxLogsPerWindow;
+
+    // The wrapped transport is never piped from the logger itself, so pass on the logger's levels and the parent that
+    // transports use to set `isFlushed`.
+    this.once("pipe", (logger) => this.transport.emit("pipe", logger));
+  }
+
+  // Note: info must be any because that's what the base class uses.
+  async log(info: any, callback: () => void): Promise<void> {
+    try {
+      const key = `${info[LEVEL]}:${info.at}:${info.message}`;
+      const group = this.groups.get(key);
+      if (group) {
+        group.latestInfo = info;
+        group.count += 1;
+      } else {
+        const timer = setTimeout(() => this._flushGroup(key), this.windowSeconds * 1000);
+        timer.unref(); // Pending summaries should not keep the bot alive. See `flush`.
+        this.groups.set(key, { latestInfo: info, count: 0, timer });
+        this._forwardRateLimited(info);
+      }
+    } catch (error) {
+      console.error("Dedup transport error", error);
+    }
+
+    callback();
+  }
+
+  // Forwards all pending summaries immediately. Called before shutting down so that they are not dropped.
+  flush(): void {
+    for (const key of Array.from(this.groups.keys())) this._flushGroup(key);
+    this._flushRateLimitWindow();
+  }
+
+  close(): void {
+    this.flush();
+    this.transport.close?.();
+  }
+
+  private _flushGroup(key: string): void {
+    const group = this.groups.get(key);
+    if (!group) return;
+    clearTimeout(group.timer);
+    this.groups.delete(key);
+    if (group.count === 0) return;
+
+    const { latestInfo, count } = group;
+    const note = `_Repeated ${count} more time${count === 1 ? "" : "s"} in the last ${this.windowSeconds} seconds._`;
+    this.transport.write({
+      ...latestInfo,
+      duplicateCount: count,
+      ...(latestInfo.mrkdwn ? { mrkdwn: `${latestInfo.mrkdwn}\n${note}` } : {}),
+    });
+  }
+
+  private _forwardRateLimited(info: any): void {
+    if (this.maxLogsPerWindow === undefined) {
+      this.transport.write(info);
+      return;
+    }
+
+    if (!this.rateLimitWindow) {
+      const timer = setTimeout(() => this._flushRateLimitWindow(), this.windowSeconds * 1000);
+      timer.unref();
+      this.rateLimitWindow = { forwarded: 0, dropped: 0, droppedLevel: null, timer };
+    }
+
+    const window = this.rateLimitWindow;
+    if (window.forwarded < this.maxLogsPerWindow) {
+      window.forwarded += 1;
+      this.transport.write(info);
+    } else {
+      window.dropped += 1;
+      window.botIdentifier = info["bot-identifier"];
+      if (window.droppedLevel === null || this._isMoreSevere(info[LEVEL], window.droppedLevel))
+        window.droppedLevel = info[LEVEL];
+    }
+  }
+
+  private _flushRateLimitWindow(): void {
+    const window = this.rateLimitWindow;
+    if (!window) return;
+    clearTimeout(window.timer);
+    this.rateLimitWindow = null;
+    if (window.dropped === 0 || window.droppedLevel === null) return;
+
+    const message = `Dropped ${window.dropped} log message${window.dropped === 1 ? "" : "s"} due to rate limiting`;
+    this.transport.write({
+      [LEVEL]: window.droppedLevel,
+      level: window.droppedLevel,
+      at: "DedupTransport",
+      message,
+      mrkdwn: `${message}. At most ${this.maxLogsPerWindow} logs are sent every ${this.windowSeconds} seconds.`,
+      droppedCount: window.dropped,
+      "bot-identifier": window.botIdentifier,
+    });
+  }
+
+  // Lower level values are more severe. e.g. error is 0 and debug is 5 for npm levels.
+  private _isMoreSevere(level: string, otherLevel: string): boolean {
+    const levels = this.levels ?? {};
+    return (levels[level] ?? Infinity) < (levels[otherLevel] ?? Infinity);
+  }
+}
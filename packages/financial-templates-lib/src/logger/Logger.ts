@@ -29,6 +29,7 @@
 
 import winston from "winston";
 import { createTransports } from "./Transports";
+import { DedupTransport } from "./DedupTransport";
 import { botIdentifyFormatter, errorStackTracerFormatter, bigNumberFormatter } from "./Formatters";
 import { delay } from "../helpers/delay";
 
@@ -38,8 +39,10 @@ import type * as Transport from "winston-transport";
 // This async function can be called by a bot if the log message is generated right before the process terminates.
 // This method will check if the AugmentedLogger's isFlushed is set to true. If not, it will block until such time
 // that it has been set to true. Note that each blocking transport should implement this isFlushed bool to prevent
-// the logger from closing before all logs have been propagated.
+// the logger from closing before all logs have been propagated. Any summaries held back by deduplicating transports are
+// sent first so that they are not dropped on shutdown.
 export async function waitForLogger(logger: AugmentedLogger) {
+  logger.transports.forEach((transport) => transport instanceof DedupTransport && transport.flush());
   while (!logger.isFlushed) await delay(0.5); // While the logger is not flushed, wait for it to be flushed.
 }
 
@@ -0,0 +1,191 @@
+// This transport derives Prometheus metrics from structured log entries so bots can be alerted on without parsing
+// Slack. Metrics are either served over HTTP (`port`) or periodically written to a file for node_exporter's textfile
+// collector (`textfilePath`). The following metrics are always exported, labelled with the bot identifier:
+// -> <prefix>_log_messages_total{level, at}: count of log entries, e.g. liquidations or price feed errors. Messages are
+//    not used as a label since they often contain amounts or addresses, which would create a series per log entry.
+// -> <prefix>_transactions_total{level, at}: count of log entries that contain a `tx` field.
+// -> <prefix>_last_log_timestamp_seconds{at}: time of the last log entry, which can be used as a heartbeat.
+// Additional gauges can be configured to track numeric log fields, such as a bot's balance.
+import fs from "fs";
+import http from "http";
+import Transport from "winston-transport";
+
+type TransportOptions = ConstructorParameters<typeof Transport>[0];
+
+export interface MetricsGaugeConfig {
+  name: string; // Metric name, appended to the prefix.
+  field: string; // Numeric log field to report.
+  help?: string;
+  at?: string; // Only track log entries with this `at` value.
+  message?: string; // Only track log entries with this `message` value.
+}
+
+export interface MetricsConfig {
+  port?: number; // Serves metrics at http://localhost:<port>/metrics.
+  textfilePath?: string; // Writes metrics to this file.
+  writeInterval?: number; // Seconds between textfile writes. Defaults to 15.
+  prefix?: string; // Prefix of all metric names. Defaults to "uma_bot".
+  gauges?: MetricsGaugeConfig[];
+}
+
+type Labels = { [name: string]: string };
+
+interface Metric {
+  type: "counter" | "gauge";
+  help: string;
+  samples: Map<string, { labels: Labels; value: number }>;
+}
+
+// Every logger created with a metrics config gets its own transport, e.g. the default Logger and a bot's own logger.
+// Transports with the same port share one server and one set of metrics per process, so that they don't all try to
+// listen on the port. The server is only started when the first entry is logged, so importing this library does not
+// open a port.
+interface MetricsServer {
+  metrics: Map<string, Metric>;
+  transports: Set<MetricsTransport>;
+  server?: http.Server;
+}
+const metricsServers = new Map<number, MetricsServer>();
+
+export class MetricsTransport extends Transport {
+  private readonly metrics: Map<string, Metric>;
+  private readonly prefix: string;
+  private readonly gauges: MetricsGaugeConfig[];
+  private readonly metricsServer: MetricsServer | undefined;
+  private readonly writeTimer: NodeJS.Timeout | undefined;
+
+  constructor(winstonOpts: TransportOptions, private readonly config: MetricsConfig) {
+    super(winstonOpts);
+    this.prefix = config.prefix ?? "uma_bot";
+    this.gauges = config.gauges ?? [];
+
+    if (config.port !== undefined) {
+      let metricsServer = metricsServers.get(config.port);
+      if (!metricsServer) {
+        metricsServer = { metrics: new Map(), transports: new Set() };
+        metricsServers.set(config.port, metricsServer);
+      }
+      metricsServer.transports.add(this);
+      this.metricsServer = metricsServer;
+      this.metrics = metricsServer.metrics;
+    } else this.metrics = new Map();
+
+    if (config.textfilePath) {
+      this.writeTimer = setInterval(() => this.writeTextfile(), (config.writeInterval ?? 15) * 1000);
+      this.writeTimer.unref(); // Don't keep the bot alive just to write metrics.
+    }
+  }
+
+  // Note: info must be any because that's what the base class uses.
+  async log(info: any, callback: () => void): Promise<void> {
+    try {
+      this._startServer();
+      const bot = String(info["bot-identifier"] ?? "");
+      const at = String(info.at ?? "");
+      const level = String(info.level ?? "");
+
+      this._increment("log_messages_total", "Count of log entries.", { bot, level, at });
+      if (info.tx)
+        this._increment("transactions_total", "Count of log entries with a transaction.", { bot, level, at });
+      this._set("last_log_timestamp_seconds", "Time of the last log entry.", { bot, at }, Date.now() / 1000);
+
+      for (const gauge of this.gauges) {
+        if ((gauge.at && gauge.at !== info.at) || (gauge.message && gauge.message !== info.message)) continue;
+        const value = Number(info[gauge.field]);
+        if (info[gauge.field] === undefined || isNaN(value)) continue;
+        this._set(gauge.name, gauge.help ?? `Value of the ${gauge.field} log field.`, { bot, at }, value);
+      }
+    } catch (error) {
+      console.error("Metrics transport error", error);
+    }
+
+    callback();
+  }
+
+  // Returns all metrics in the Prometheus text exposition format.
+  getMetricsText(): string {
+    const lines: string[] = [];
+    for (const [name, metric] of this.metrics) {
+      lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+      for (const { labels, value } of metric.samples.values()) lines.push(`${name}${_formatLabels(labels)} ${value}`);
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  // Writes the metrics to the configured textfile. The file is replaced atomically so that collectors never read a
+  // partially written file.
+  writeTextfile(): void {
+    if (!this.config.textfilePath) return;
+    const tmpPath = `${this.config.textfilePath}.tmp`;
+    try {
+      fs.writeFileSync(tmpPath, this.getMetricsText());
+      fs.renameSync(tmpPath, this.config.textfilePath);
+    } catch (error) {
+      console.error("Metrics transport failed to write textfile", error);
+    }
+  }
+
+  close(): void {
+    if (this.writeTimer) clearInterval(this.writeTimer);
+    this.writeTextfile();
+
+    // The server is closed with the last transport using it.
+    const { metricsServer, config } = this;
+    if (!metricsServer || config.port === undefined) return;
+    metricsServer.transports.delete(this);
+    if (metricsServer.transports.size === 0) {
+      metricsServer.server?.close();
+      metricsServers.delete(config.port);
+    }
+  }
+
+  private _startServer(): void {
+    const { metricsServer, config } = this;
+    if (!metricsServer || metricsServer.server) return;
+
+    metricsServer.server = http.createServer((request, response) => {
+      if (request.url !== "/metrics") {
+        response.writeHead(404).end();
+        return;
+      }
+      response.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" }).end(this.getMetricsText());
+    });
+    // A failure to serve metrics, e.g. because the port is in use, must not crash the bot.
+    metricsServer.server.on("error", (error) => console.error("Metrics transport server error", error));
+    metricsServer.server.listen(config.port);
+    metricsServer.server.unref(); // Don't keep the bot alive just to serve metrics.
+  }
+
+  private _increment(name: string, help: string, labels: Labels): void {
+    const sample = this._getSample(name, "counter", help, labels);
+    sample.value += 1;
+  }
+
+  private _set(name: string, help: string, labels: Labels, value: number): void {
+    this._getSample(name, "gauge", help, labels).value = value;
+  }
+
+  private _getSample(name: string, type: Metric["type"], help: string, labels: Labels) {
+    const metricName = `${this.prefix}_${name}`;
+    let metric = this.metrics.get(metricName);
+    if (!metric) {
+      metric = { type, help, samples: new Map() };
+      this.metrics.set(metricName, metric);
+    }
+
+    const key = _formatLabels(labels);
+    let sample = metric.samples.get(key);
+    if (!sample) {
+      sample = { labels, value: 0 };
+      metric.samples.set(key, sample);
+    }
+    return sample;
+  }
+}
+
+function _formatLabels(labels: Labels): string {
+  const formatted = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')}"`
+  );
+  return formatted.length > 0 ? `{${formatted.join(",")}}` : "";
+}
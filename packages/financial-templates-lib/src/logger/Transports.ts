@@ -8,6 +8,8 @@ import { createJsonTransport } from "./JsonTransport";
 import { createSlackTransport } from "./SlackTransport";
 import { PagerDutyTransport } from "./PagerDutyTransport";
 import { DiscordTransport } from "./DiscordTransport";
+import { MetricsTransport } from "./MetricsTransport";
+import { DedupTransport } from "./DedupTransport";
 import type Transport from "winston-transport";
 import dotenv from "dotenv";
 import minimist from "minimist";
@@ -18,6 +20,14 @@ const argv = minimist(process.argv.slice(), {});
 type SlackConfig = Parameters<typeof createSlackTransport>[0];
 type DiscordConfig = ConstructorParameters<typeof DiscordTransport>[1];
 type PagerDutyConfig = ConstructorParameters<typeof PagerDutyTransport>[1];
+type MetricsConfig = ConstructorParameters<typeof MetricsTransport>[1];
+
+// Groups repeated logs sent to the alerting transports. `rateLimits` caps the number of logs each transport is sent per
+// window. See DedupTransport for details.
+interface DedupConfig {
+  windowSeconds?: number;
+  rateLimits?: { slack?: number; discord?: number; pagerDuty?: number };
+}
 
 interface TransportsConfig {
   environment?: string;
@@ -26,6 +36,8 @@ interface TransportsConfig {
   discordConfig?: DiscordConfig;
   pdApiToken?: string;
   pagerDutyConfig?: PagerDutyConfig;
+  metricsConfig?: MetricsConfig;
+  dedupConfig?: DedupConfig;
 }
 
 export function createTransports(transportsConfig: TransportsConfig = {}): Transport[] {
@@ -52,18 +64,31 @@ export function createTransports(transportsConfig: TransportsConfig = {}): Trans
 
   // If there is "test" in the environment then skip the slack, pagerduty and discord.
   if (argv._.indexOf("test") == -1) {
+    // If there is a dedup config then wrap the alerting transports to group repeated logs.
+    const dedupConfig: DedupConfig = transportsConfig.dedupConfig ?? JSON.parse(process.env.LOG_DEDUP_CONFIG || "null");
+    const dedup = (name: keyof NonNullable<DedupConfig["rateLimits"]>, transport: Transport): Transport =>
+      dedupConfig
+        ? new DedupTransport(transport, {
+            windowSeconds: dedupConfig.windowSeconds,
+            maxLogsPerWindow: dedupConfig.rateLimits?.[name],
+          })
+        : transport;
+
     // If there is a slack web hook, add to the transports array to enable slack messages.
     const slackConfig: SlackConfig = transportsConfig.slackConfig ?? JSON.parse(process.env.SLACK_CONFIG || "null");
     if (slackConfig) {
-      transports.push(createSlackTransport(slackConfig));
+      transports.push(dedup("slack", createSlackTransport(slackConfig)));
     }
 
     // If there is a discord config, create a new transport.
     if (transportsConfig.discordConfig || process.env.DISCORD_CONFIG) {
       transports.push(
-        new DiscordTransport(
-          { level: "info" },
-          transportsConfig.discordConfig ?? JSON.parse(process.env.DISCORD_CONFIG || "null")
+        dedup(
+          "discord",
+          new DiscordTransport(
+            { level: "info" },
+            transportsConfig.discordConfig ?? JSON.parse(process.env.DISCORD_CONFIG || "null")
+          )
         )
       );
     }
@@ -71,12 +96,22 @@ export function createTransports(transportsConfig: TransportsConfig = {}): Trans
     // If there is a Pagerduty API key then add the pagerduty winston transport.
     if (transportsConfig.pdApiToken || process.env.PAGER_DUTY_CONFIG) {
       transports.push(
-        new PagerDutyTransport(
-          { level: "error" }, // pager duty will create incidents only on errors
-          transportsConfig.pagerDutyConfig ?? JSON.parse(process.env.PAGER_DUTY_CONFIG || "null")
+        dedup(
+          "pagerDuty",
+          new PagerDutyTransport(
+            { level: "error" }, // pager duty will create incidents only on errors
+            transportsConfig.pagerDutyConfig ?? JSON.parse(process.env.PAGER_DUTY_CONFIG || "null")
+          )
         )
       );
     }
+
+    // If there is a metrics config then export Prometheus metrics derived from the logs.
+    const metricsConfig: MetricsConfig =
+      transportsConfig.metricsConfig ?? JSON.parse(process.env.METRICS_CONFIG || "null");
+    if (metricsConfig) {
+      transports.push(new MetricsTransport({ level: "debug" }, metricsConfig));
+    }
   }
   return transports;
 }
@@ -0,0 +1,167 @@
+// Builds price feed configs from the ancillary data of a price request, so that requests for pairs without an entry in
+// DefaultPriceFeedConfigs can still be priced. The returned configs are meant to be passed to `createPriceFeed`, merged
+// on top of any common config that holds API keys.
+//
+// Supported ancillary data fields:
+// - base, quote (required): the pair to price, e.g. `base:ETH,quote:USD`.
+// - source: one of "cryptowatch" (default), "coinmarketcap", "tradermade", "coingecko", "uniswap" or "chainlink".
+// - exchanges: comma separated cryptowatch exchanges to medianize over, e.g. `exchanges:"kraken,binance"`.
+// - address: token (coingecko), pool (uniswap) or aggregator (chainlink) address required by on-chain sources.
+// - twapLength, lookback, invertPrice: passed through to the price feed config.
+//
+// Ancillary data is controlled by the requester, so every config is checked against an AncillaryPriceFeedPolicy set by
+// the operator: only allowlisted sources, exchanges and addresses are accepted, and twapLength and lookback are capped.
+
+import { parseAncillaryData, getPrecisionForIdentifier } from "@uma/common";
+import { defaultConfigs } from "./DefaultPriceFeedConfigs";
+
+export interface AncillaryPriceFeedParams {
+  base: string;
+  quote: string;
+  source: string;
+  exchanges?: string[];
+  address?: string;
+  twapLength?: number;
+  lookback?: number;
+  invertPrice?: boolean;
+}
+
+export interface AncillaryPriceFeedPolicy {
+  allowedSources: string[]; // Sources that requests may select. Any other source is rejected.
+  allowedExchanges?: string[]; // Cryptowatch exchanges that requests may select. Defaults to the default exchanges.
+  allowedAddresses?: string[]; // Token, pool or aggregator addresses that on-chain sources may use. None by default.
+  allowInvertPrice?: boolean; // Whether requests may invert prices. Defaults to false.
+  maxLookback?: number; // Max lookback in seconds that requests may ask for. Defaults to the default lookback.
+  maxTwapLength?: number; // Max twapLength in seconds that requests may ask for. Defaults to one hour.
+}
+
+export const DEFAULT_ANCILLARY_EXCHANGES = ["coinbase-pro", "binance", "kraken"];
+const DEFAULT_LOOKBACK = 7200;
+const DEFAULT_MAX_TWAP_LENGTH = 3600;
+const DEFAULT_MIN_TIME_BETWEEN_UPDATES = 60;
+
+// Returns the price feed params in the ancillary data, or null if it is not parseable or does not name a base and quote.
+export function getAncillaryPriceFeedParams(ancillaryData: string): AncillaryPriceFeedParams | null {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = parseAncillaryData(ancillaryData);
+  } catch (error) {
+    return null;
+  }
+
+  const { base, quote, source = "cryptowatch", exchanges, address, twapLength, lookback, invertPrice } = parsed;
+  if (typeof base !== "string" || typeof quote !== "string" || typeof source !== "string") return null;
+
+  return {
+    base,
+    quote,
+    source: source.toLowerCase(),
+    exchanges:
+      exchanges !== undefined
+        ? String(exchanges)
+            .split(",")
+            .map((exchange) => exchange.trim())
+        : undefined,
+    address: address !== undefined ? String(address) : undefined,
+    twapLength: twapLength !== undefined ? Number(twapLength) : undefined,
+    lookback: lookback !== undefined ? Number(lookback) : undefined,
+    invertPrice: invertPrice !== undefined ? invertPrice === true || invertPrice === "true" : undefined,
+  };
+}
+
+// Throws if the params select anything that the policy does not allow.
+export function checkAncillaryPriceFeedPolicy(
+  params: AncillaryPriceFeedParams,
+  policy: AncillaryPriceFeedPolicy
+): void {
+  const { source, exchanges, address, twapLength, lookback, invertPrice } = params;
+  const allowedExchanges = policy.allowedExchanges ?? DEFAULT_ANCILLARY_EXCHANGES;
+  const allowedAddresses = (policy.allowedAddresses ?? []).map((allowedAddress) => allowedAddress.toLowerCase());
+  const maxLookback = policy.maxLookback ?? DEFAULT_LOOKBACK;
+  const maxTwapLength = policy.maxTwapLength ?? DEFAULT_MAX_TWAP_LENGTH;
+
+  if (!policy.allowedSources.includes(source)) throw new Error(`Ancillary data source ${source} is not allowed`);
+  const disallowedExchange = exchanges?.find((exchange) => !allowedExchanges.includes(exchange));
+  if (disallowedExchange !== undefined) throw new Error(`Ancillary data exchange ${disallowedExchange} is not allowed`);
+  if (address !== undefined && !allowedAddresses.includes(address.toLowerCase()))
+    throw new Error(`Ancillary data address ${address} is not allowed`);
+  if (invertPrice && !policy.allowInvertPrice) throw new Error("Ancillary data invertPrice is not allowed");
+  if (lookback !== undefined && !(lookback > 0 && lookback <= maxLookback))
+    throw new Error(`Ancillary data lookback must be positive and at most ${maxLookback}`);
+  if (twapLength !== undefined && !(twapLength >= 0 && twapLength <= maxTwapLength))
+    throw new Error(`Ancillary data twapLength must be non-negative and at most ${maxTwapLength}`);
+}
+
+// Builds a createPriceFeed config for the params. Throws if the source is unknown or misses a required field.
+export function buildAncillaryPriceFeedConfig(
+  identifier: string,
+  params: AncillaryPriceFeedParams
+): { [key: string]: any } {
+  const { base, quote, source, address, twapLength, invertPrice } = params;
+  const commonConfig = {
+    lookback: params.lookback ?? DEFAULT_LOOKBACK,
+    minTimeBetweenUpdates: DEFAULT_MIN_TIME_BETWEEN_UPDATES,
+    priceFeedDecimals: getPrecisionForIdentifier(identifier),
+    invertPrice,
+  };
+  const requireAddress = () => {
+    if (!address) throw new Error(`Ancillary data source ${source} requires an address`);
+    return address;
+  };
+
+  switch (source) {
+    case "cryptowatch": {
+      const pair = `${base}${quote}`.toLowerCase();
+      const exchanges = params.exchanges ?? DEFAULT_ANCILLARY_EXCHANGES;
+      if (exchanges.length === 1)
+        return { type: "cryptowatch", exchange: exchanges[0], pair, twapLength, ...commonConfig };
+
+      // Tolerate a minority of exchanges not listing the pair.
+      return {
+        type: "medianizer",
+        minFeedsRequired: Math.ceil(exchanges.length / 2),
+        medianizedFeeds: exchanges.map((exchange) => ({ type: "cryptowatch", exchange, pair, twapLength })),
+        ...commonConfig,
+      };
+    }
+    case "coinmarketcap":
+      return { type: "coinmarketcap", symbol: base.toUpperCase(), quoteCurrency: quote.toUpperCase(), ...commonConfig };
+    case "tradermade":
+      return { type: "tradermade", pair: `${base}${quote}`.toUpperCase(), ...commonConfig };
+    case "coingecko":
+      return {
+        type: "coingecko",
+        contractAddress: requireAddress(),
+        quoteCurrency: quote.toLowerCase(),
+        ...commonConfig,
+      };
+    case "uniswap":
+      return { type: "uniswap", uniswapAddress: requireAddress(), twapLength: twapLength ?? 0, ...commonConfig };
+    case "chainlink":
+      return { type: "chainlink", aggregatorAddress: requireAddress(), ...commonConfig };
+    default:
+      throw new Error(`Unknown ancillary data price feed source ${source}`);
+  }
+}
+
+/**
+ * @notice Resolves the price feed config for a price request from its ancillary data.
+ * @param {String} identifier price identifier of the request. Used to infer the price feed decimals.
+ * @param {String} ancillaryData hex encoded ancillary data of the request.
+ * @param {Object} policy the sources, exchanges and addresses that the ancillary data may select.
+ * @return {Object} config to pass to `createPriceFeed`, or null if the identifier has a default config or the ancillary
+ *      data does not specify a pair. Throws if the ancillary data specifies a pair with an invalid or disallowed source.
+ */
+export function resolvePriceFeedConfigFromAncillaryData(
+  identifier: string,
+  ancillaryData: string,
+  policy: AncillaryPriceFeedPolicy
+): { [key: string]: any } | null {
+  // Identifiers with a default config keep using it, whatever their ancillary data holds.
+  if (defaultConfigs[identifier]) return null;
+
+  const params = getAncillaryPriceFeedParams(ancillaryData);
+  if (!params) return null;
+  checkAncillaryPriceFeedPolicy(params, policy);
+  return buildAncillaryPriceFeedConfig(identifier, params);
+}
@@ -178,9 +178,10 @@ export class BasketSpreadPriceFeed extends PriceFeedInterface {
   // This function does something similar to get historicalprice, but does not have the luxury of only caring about a
   // single point in time. It has to run the basketspread price across all timestamps available. This is complicated
   // as there are multiple price histories which we must search through at each matching timestamp to find the closets
-  // prices to add into the basket calculation.
+  // prices to add into the basket calculation. Devmining rewards are priced from these periods, so they keep the first
+  // baseline feed's timestamps rather than the timestamp alignment of the other composite feeds.
   // Returns data in the form of [[time,price]]
-  public getHistoricalPricePeriods(): (number | BN)[][] {
+  public getHistoricalPricePeriods(): [number, BN][] {
     type AugmentedInterface = WithHistoricalPricePeriods<PriceFeedInterface>;
     const experimentalPriceFeeds = this.experimentalPriceFeeds as AugmentedInterface[];
     const baselinePriceFeeds = this.baselinePriceFeeds as AugmentedInterface[];
@@ -0,0 +1,139 @@
+// Key-value stores used to persist price data between bot runs. Entries can be given a time to live, after which they
+// are treated as missing and removed on the next write.
+
+import fs from "fs";
+import path from "path";
+import type { Logger } from "winston";
+
+interface CacheEntry {
+  value: any;
+  expiresAt: number | null; // Unix timestamp in seconds or null if the entry never expires.
+}
+
+export abstract class CacheStoreInterface {
+  // Returns the value stored for key or undefined if it is missing or expired.
+  public abstract get(key: string): Promise<any>;
+
+  // Stores value for key. If ttl (in seconds) is provided, the entry expires ttl seconds from now.
+  public abstract set(key: string, value: any, ttl?: number): Promise<void>;
+
+  // Removes key from the store.
+  public abstract delete(key: string): Promise<void>;
+
+  // Removes every key starting with prefix, or every key if no prefix is provided.
+  public abstract clear(prefix?: string): Promise<void>;
+}
+
+// Stores entries in memory. Useful in tests or when caching only needs to last as long as the process.
+export class MemoryCacheStore extends CacheStoreInterface {
+  protected entries: { [key: string]: CacheEntry } = {};
+
+  /**
+   * @notice Constructs new MemoryCacheStore.
+   * @param {Function} now Returns the current unix time in seconds. Used to expire entries.
+   */
+  constructor(protected readonly now: () => number = () => Math.floor(Date.now() / 1000)) {
+    super();
+  }
+
+  public async get(key: string): Promise<any> {
+    await this._load();
+    const entry = this.entries[key];
+    if (!entry || this._isExpired(entry)) return undefined;
+    return entry.value;
+  }
+
+  public async set(key: string, value: any, ttl?: number): Promise<void> {
+    await this._load();
+    this.entries[key] = { value, expiresAt: ttl !== undefined ? this.now() + ttl : null };
+    this._removeExpired();
+    await this._save();
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this._load();
+    delete this.entries[key];
+    await this._save();
+  }
+
+  public async clear(prefix = ""): Promise<void> {
+    await this._load();
+    Object.keys(this.entries)
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => delete this.entries[key]);
+    await this._save();
+  }
+
+  // Hooks for persistent subclasses. The in-memory store has nothing to load or save.
+  protected async _load(): Promise<void> {
+    return;
+  }
+
+  protected async _save(): Promise<void> {
+    return;
+  }
+
+  private _isExpired(entry: CacheEntry): boolean {
+    return entry.expiresAt !== null && entry.expiresAt <= this.now();
+  }
+
+  private _removeExpired() {
+    Object.entries(this.entries)
+      .filter(([, entry]) => this._isExpired(entry))
+      .forEach(([key]) => delete this.entries[key]);
+  }
+}
+
+// Stores entries in a JSON file so they survive process restarts. The file is read once on first access and rewritten
+// after every change. A file that cannot be read is replaced on the next write, since the cache is only an optimisation.
+export class FileCacheStore extends MemoryCacheStore {
+  private loadPromise: Promise<void> | null = null;
+  private savePromise: Promise<void> = Promise.resolve();
+
+  /**
+   * @notice Constructs new FileCacheStore.
+   * @param {String} filePath path of the JSON file to persist entries to. Created if it does not exist.
+   * @param {Function} now Returns the current unix time in seconds. Used to expire entries.
+   * @param {Object} logger Winston module used to warn about a cache file that cannot be loaded.
+   */
+  constructor(private readonly filePath: string, now?: () => number, private readonly logger?: Logger) {
+    super(now);
+  }
+
+  protected async _load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = fs.promises
+        .readFile(this.filePath, "utf8")
+        .then((contents) => {
+          this.entries = JSON.parse(contents);
+        })
+        .catch((error) => {
+          // A missing file just means nothing has been cached yet. Anything else (e.g. a corrupt file) is unexpected,
+          // but should not stop the price feeds using the cache, so they start over with an empty one.
+          this.entries = {};
+          if (error.code === "ENOENT") return;
+          this.logger?.warn({
+            at: "FileCacheStore",
+            message: "Could not load cache file, starting with an empty cache",
+            filePath: this.filePath,
+            error: error.message,
+          });
+        });
+    }
+    await this.loadPromise;
+  }
+
+  protected async _save(): Promise<void> {
+    // Chain writes so that concurrent saves cannot interleave, and write to a temporary file first so a crash mid-write
+    // cannot leave a corrupt cache behind. A failed write should not block later ones.
+    this.savePromise = this.savePromise
+      .catch(() => undefined)
+      .then(async () => {
+        const tempFilePath = `${this.filePath}.tmp`;
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tempFilePath, JSON.stringify(this.entries));
+        await fs.promises.rename(tempFilePath, this.filePath);
+      });
+    await this.savePromise;
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  PriceFeedInterface,
+  HistoricalPricePeriod,
+  hasHistoricalPricePeriods,
+  hasCachedPeriods,
+} from "./PriceFeedInterface";
+import Web3 from "web3";
+import type { Logger } from "winston";
+import type { CacheStoreInterface } from "./CacheStore";
+import type { BN } from "../types";
+
+// An implementation of PriceFeedInterface that persists the historical prices returned by another price feed, so that
+// repeated lookups (including those after a bot restart) do not need to be recomputed from freshly downloaded data. If
+// the wrapped feed downloads OHLC periods (see PriceFeedWithCachedPeriods), the periods are persisted as well, so that
+// its updates only download the periods since the last cached one rather than the whole lookback window.
+export class CachedPriceFeed extends PriceFeedInterface {
+  private readonly toBN = Web3.utils.toBN;
+  private cachedPeriodsRestored = false;
+
+  // Only defined if the wrapped feed implements it, so that `hasHistoricalPricePeriods` reports the wrapped feed's
+  // capability. Periods are not cached, since they are recomputed from the wrapped feed's in-memory data.
+  public readonly getHistoricalPricePeriods?: () => HistoricalPricePeriod[];
+
+  /**
+   * @notice Constructs new CachedPriceFeed.
+   * @param {Object} logger Winston module used to send logs.
+   * @param {Object} priceFeed the price feed whose historical prices are cached. Must be of type PriceFeedInterface.
+   * @param {Object} store the CacheStoreInterface that prices are persisted to.
+   * @param {String} cacheKey unique identifier of the wrapped feed (e.g. its type and pair). Stored prices are keyed by
+   *      this value, the ancillary data and the timestamp.
+   * @param {Function} getTime Returns the current time.
+   * @param {Number} ttl optional number of seconds a cached price stays valid for. Defaults to never expiring.
+   * @param {Number} minAge prices are only cached for timestamps at least this many seconds in the past, since the
+   *      source data for recent timestamps may still change. Defaults to 1 hour.
+   */
+  constructor(
+    private readonly logger: Logger,
+    private readonly priceFeed: PriceFeedInterface,
+    private readonly store: CacheStoreInterface,
+    private readonly cacheKey: string,
+    private readonly getTime: () => Promise<number>,
+    private readonly ttl?: number,
+    private readonly minAge = 3600
+  ) {
+    super();
+
+    if (hasHistoricalPricePeriods(priceFeed))
+      this.getHistoricalPricePeriods = () => priceFeed.getHistoricalPricePeriods();
+  }
+
+  public async update(ancillaryData?: string): Promise<void> {
+    if (!hasCachedPeriods(this.priceFeed)) return await this.priceFeed.update(ancillaryData);
+
+    const key = `${this.cacheKey}:periods`;
+    if (!this.cachedPeriodsRestored) {
+      const cachedPeriods = (await this.store.get(key)) ?? [];
+      this.logger.debug({
+        at: "CachedPriceFeed",
+        message: "Restoring cached price periods",
+        key,
+        count: cachedPeriods.length,
+      });
+      this.priceFeed.restoreCachedPeriods(cachedPeriods);
+      this.cachedPeriodsRestored = true;
+    }
+    await this.priceFeed.update(ancillaryData);
+    await this.store.set(key, this.priceFeed.getCachedPeriods(), this.ttl);
+  }
+
+  public getCurrentPrice(): BN | null {
+    return this.priceFeed.getCurrentPrice();
+  }
+
+  // Returns the cached historical price if there is one, otherwise queries the wrapped feed and caches the result if
+  // the timestamp is old enough. Errors and null prices are never cached.
+  public async getHistoricalPrice(time: number, ancillaryData?: string, verbose = false): Promise<BN | null> {
+    const key = this._getKey(time, ancillaryData);
+    const cachedPrice = await this.store.get(key);
+    if (cachedPrice !== undefined) {
+      this.logger.debug({ at: "CachedPriceFeed", message: "Using cached historical price", key, price: cachedPrice });
+      return this.toBN(cachedPrice);
+    }
+
+    const price = await this.priceFeed.getHistoricalPrice(time, ancillaryData, verbose);
+    if (price && time <= (await this.getTime()) - this.minAge) await this.store.set(key, price.toString(), this.ttl);
+    return price;
+  }
+
+  // Removes every cached price for this feed, e.g. after a bug in the wrapped feed was fixed.
+  public async invalidate(): Promise<void> {
+    await this.store.clear(`${this.cacheKey}:`);
+  }
+
+  public getLastUpdateTime(): number | null {
+    return this.priceFeed.getLastUpdateTime();
+  }
+
+  public getPriceFeedDecimals(): number | null {
+    return this.priceFeed.getPriceFeedDecimals();
+  }
+
+  public getLookback(): number | null {
+    return this.priceFeed.getLookback();
+  }
+
+  private _getKey(time: number, ancillaryData = ""): string {
+    return `${this.cacheKey}:${ancillaryData}:${time}`;
+  }
+}
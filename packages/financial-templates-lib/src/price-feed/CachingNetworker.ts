@@ -0,0 +1,63 @@
+// A NetworkerInterface that serves repeated GET requests from a CacheStoreInterface instead of the network. Wrap the
+// Networker passed to price feeds with this class to avoid re-downloading identical responses across bot restarts.
+// Caching is opt-in per url: only urls matching one of the configured patterns are cached, since most endpoints (e.g.
+// latest prices) must never be served stale.
+
+import { createHash } from "crypto";
+import type { Logger } from "winston";
+import { NetworkerInterface } from "./Networker";
+import type { CacheStoreInterface } from "./CacheStore";
+
+type NetworkerOptions = Parameters<NetworkerInterface["getJson"]>[1];
+
+export class CachingNetworker extends NetworkerInterface {
+  private readonly urlPatterns: RegExp[];
+
+  /**
+   * @notice Constructs new CachingNetworker.
+   * @param {Object} logger Winston module used to send logs.
+   * @param {Object} networker the NetworkerInterface used to send requests that are not cached.
+   * @param {Object} store the CacheStoreInterface that responses are persisted to.
+   * @param {Number} ttl number of seconds a cached response stays valid for.
+   * @param {Array} urlPatterns regular expressions (or their string sources) selecting the urls to cache. Urls that
+   *      match none of them are always sent to the network.
+   */
+  constructor(
+    private readonly logger: Logger,
+    private readonly networker: NetworkerInterface,
+    private readonly store: CacheStoreInterface,
+    private readonly ttl: number,
+    urlPatterns: (string | RegExp)[]
+  ) {
+    super();
+    this.urlPatterns = urlPatterns.map((pattern) => new RegExp(pattern));
+  }
+
+  async getJson(url: string, options?: NetworkerOptions): Promise<any> {
+    // Only idempotent requests are safe to serve from the cache.
+    const method = options?.method?.toUpperCase() ?? "GET";
+    if (method !== "GET" || !this.urlPatterns.some((pattern) => pattern.test(url)))
+      return await this.networker.getJson(url, options);
+
+    const key = this._getKey(url);
+    const cachedResponse = await this.store.get(key);
+    if (cachedResponse !== undefined) {
+      this.logger.debug({ at: "CachingNetworker", message: "Serving cached response", key });
+      return cachedResponse;
+    }
+
+    const response = await this.networker.getJson(url, options);
+    await this.store.set(key, response, this.ttl);
+    return response;
+  }
+
+  // Removes all cached responses.
+  async invalidate(): Promise<void> {
+    await this.store.clear("networker:");
+  }
+
+  // Urls often contain api keys, so they are hashed rather than persisted as is.
+  private _getKey(url: string): string {
+    return `networker:${createHash("sha256").update(url).digest("hex")}`;
+  }
+}
@@ -0,0 +1,231 @@
+// An implementation of PriceFeedInterface that reads prices from a Chainlink aggregator (AggregatorV3Interface).
+
+import { PriceFeedInterface } from "./PriceFeedInterface";
+import lodash from "lodash";
+import type { Logger } from "winston";
+import Web3 from "web3";
+import type { BN, Abi } from "../types";
+const { toBN } = Web3.utils;
+
+// Subset of Chainlink's AggregatorV3Interface used by this price feed.
+export const chainlinkAggregatorAbi: Abi = [
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ internalType: "uint8", name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint80", name: "_roundId", type: "uint80" }],
+    name: "getRoundData",
+    outputs: [
+      { internalType: "uint80", name: "roundId", type: "uint80" },
+      { internalType: "int256", name: "answer", type: "int256" },
+      { internalType: "uint256", name: "startedAt", type: "uint256" },
+      { internalType: "uint256", name: "updatedAt", type: "uint256" },
+      { internalType: "uint80", name: "answeredInRound", type: "uint80" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "latestRoundData",
+    outputs: [
+      { internalType: "uint80", name: "roundId", type: "uint80" },
+      { internalType: "int256", name: "answer", type: "int256" },
+      { internalType: "uint256", name: "startedAt", type: "uint256" },
+      { internalType: "uint256", name: "updatedAt", type: "uint256" },
+      { internalType: "uint80", name: "answeredInRound", type: "uint80" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+];
+
+interface RoundData {
+  roundId: string;
+  answer: string;
+  updatedAt: string;
+}
+
+interface ChainlinkAggregatorWeb3 {
+  methods: {
+    decimals(): { call(): Promise<string> };
+    latestRoundData(): { call(): Promise<RoundData> };
+    getRoundData(roundId: string): { call(): Promise<RoundData> };
+  };
+}
+
+interface Round {
+  roundId: string;
+  answer: BN;
+  updatedAt: number;
+}
+
+// Chainlink round ids are (phaseId << 64) | aggregatorRoundId. Aggregator round ids start at 1 within each phase.
+const AGGREGATOR_ROUND_ID_MASK = toBN(2).pow(toBN(64)).subn(1);
+
+export class ChainlinkPriceFeed extends PriceFeedInterface {
+  private readonly aggregator: ChainlinkAggregatorWeb3;
+  private readonly uuid: string;
+  private aggregatorDecimals: number | null = null;
+  private rounds: Round[] = []; // Sorted from oldest to newest.
+  private lastUpdateTime: number | null = null;
+
+  /**
+   * @notice Constructs new Chainlink aggregator price feed object.
+   * @param {Object} logger Winston module used to send logs.
+   * @param {Object} web3 Provider from Truffle instance to connect to Ethereum network.
+   * @param {String} aggregatorAddress Ethereum address of the Chainlink aggregator (or aggregator proxy) to read.
+   * @param {Integer} lookback How far in the past historical prices will be available using getHistoricalPrice.
+   * @param {Function} getTime Returns the current time.
+   * @param {Integer} minTimeBetweenUpdates Min number of seconds between updates. If update() is called again before
+   *      this number of seconds has passed, it will be a no-op.
+   * @param {Bool} invertPrice Indicates if prices should be inverted before returned.
+   * @param {Integer} priceFeedDecimals Precision that the caller wants precision to be reported in.
+   * @return None or throws an Error.
+   */
+  constructor(
+    private readonly logger: Logger,
+    web3: Web3,
+    aggregatorAddress: string,
+    private readonly lookback: number,
+    private readonly getTime: () => Promise<number>,
+    private readonly minTimeBetweenUpdates = 60,
+    private readonly invertPrice = false,
+    private readonly priceFeedDecimals = 18
+  ) {
+    super();
+
+    this.aggregator = (new web3.eth.Contract(
+      chainlinkAggregatorAbi,
+      aggregatorAddress
+    ) as unknown) as ChainlinkAggregatorWeb3;
+    this.uuid = `Chainlink-${aggregatorAddress}`;
+  }
+
+  public getCurrentPrice(): BN | null {
+    const latestRound = this.rounds[this.rounds.length - 1];
+    return latestRound ? this._convertPrice(latestRound.answer) : null;
+  }
+
+  // Returns the answer of the most recent round updated at or before `time`, similar to how a block is looked up by
+  // timestamp in the BlockFinder.
+  public async getHistoricalPrice(time: number): Promise<BN> {
+    if (!this.lastUpdateTime) throw new Error(`${this.uuid} -- Haven't called update() yet`);
+    if (time < this.lastUpdateTime - this.lookback) {
+      throw new Error(`${this.uuid} time ${time} is earlier than the lookback window`);
+    }
+
+    const index = lodash.sortedLastIndexBy(this.rounds, { updatedAt: time } as Round, "updatedAt") - 1;
+    if (index < 0) throw new Error(`${this.uuid} missing historical price @ time ${time}`);
+    return this._convertPrice(this.rounds[index].answer);
+  }
+
+  // Returns the price of every round within the lookback window as [updatedAt, price].
+  public getHistoricalPricePeriods(): [number, BN][] {
+    if (!this.lastUpdateTime) throw new Error(`${this.uuid} -- Haven't called update() yet`);
+    return this.rounds.map((round) => [round.updatedAt, this._convertPrice(round.answer)]);
+  }
+
+  public getLastUpdateTime(): number | null {
+    return this.lastUpdateTime;
+  }
+
+  public getLookback(): number {
+    return this.lookback;
+  }
+
+  public getPriceFeedDecimals(): number {
+    return this.priceFeedDecimals;
+  }
+
+  public async update(): Promise<void> {
+    const currentTime = await this.getTime();
+
+    // Return early if the last call was too recent.
+    if (this.lastUpdateTime !== null && this.lastUpdateTime + this.minTimeBetweenUpdates > currentTime) {
+      this.logger.debug({
+        at: "ChainlinkPriceFeed",
+        message: "Update skipped because the last one was too recent",
+        currentTime,
+        lastUpdateTimestamp: this.lastUpdateTime,
+        timeRemainingUntilUpdate: this.lastUpdateTime + this.minTimeBetweenUpdates - currentTime,
+      });
+      return;
+    }
+
+    this.logger.debug({
+      at: "ChainlinkPriceFeed",
+      message: "Updating ChainlinkPriceFeed",
+      currentTime,
+      lastUpdateTimestamp: this.lastUpdateTime,
+    });
+
+    if (this.aggregatorDecimals === null) {
+      this.aggregatorDecimals = Number(await this.aggregator.methods.decimals().call());
+    }
+
+    // Walk backwards from the latest round until reaching a round that is already cached or one that was updated
+    // before the start of the lookback window. That last round is kept since its answer was still in effect at the
+    // start of the window.
+    const earliestLookbackTime = currentTime - this.lookback;
+    const latestCachedRoundId = this.rounds[this.rounds.length - 1]?.roundId;
+    const newRounds: Round[] = [];
+    let roundData: RoundData | null = await this.aggregator.methods.latestRoundData().call();
+    while (roundData && roundData.roundId.toString() !== latestCachedRoundId) {
+      const round = this._parseRound(roundData);
+      if (round) newRounds.unshift(round);
+      if (!round || round.updatedAt < earliestLookbackTime) break;
+
+      const previousRoundId = toBN(round.roundId).subn(1);
+      if (previousRoundId.toString() === latestCachedRoundId) break;
+      roundData = await this._getRoundData(previousRoundId);
+    }
+
+    // Prune rounds that are no longer needed to price the lookback window.
+    const rounds = [...this.rounds, ...newRounds];
+    const firstIndexInWindow = rounds.findIndex((round) => round.updatedAt >= earliestLookbackTime);
+    this.rounds = rounds.slice(firstIndexInWindow === -1 ? -1 : Math.max(firstIndexInWindow - 1, 0));
+
+    this.lastUpdateTime = currentTime;
+  }
+
+  // Returns the data for roundId or null if there is none, e.g. before the start of an aggregator phase.
+  private async _getRoundData(roundId: BN): Promise<RoundData | null> {
+    if (roundId.and(AGGREGATOR_ROUND_ID_MASK).isZero()) return null;
+    try {
+      return await this.aggregator.methods.getRoundData(roundId.toString()).call();
+    } catch (error) {
+      // Aggregators revert for rounds they do not have data for.
+      this.logger.debug({
+        at: "ChainlinkPriceFeed",
+        message: "Missing round data",
+        roundId: roundId.toString(),
+      });
+      return null;
+    }
+  }
+
+  // Returns null for incomplete rounds or non positive answers, which cannot be used as prices.
+  private _parseRound(roundData: RoundData): Round | null {
+    const answer = toBN(roundData.answer);
+    const updatedAt = Number(roundData.updatedAt);
+    if (updatedAt === 0 || answer.lten(0)) return null;
+    return { roundId: roundData.roundId.toString(), answer, updatedAt };
+  }
+
+  // Scales an aggregator answer to priceFeedDecimals and inverts it if required.
+  private _convertPrice(answer: BN): BN {
+    if (this.aggregatorDecimals === null) throw new Error(`${this.uuid} -- update was not called`);
+    const ten = toBN(10);
+    const decimalsDifference = this.priceFeedDecimals - this.aggregatorDecimals;
+    const price =
+      decimalsDifference >= 0
+        ? answer.mul(ten.pow(toBN(decimalsDifference)))
+        : answer.div(ten.pow(toBN(-decimalsDifference)));
+    return this.invertPrice ? ten.pow(toBN(2 * this.priceFeedDecimals)).div(price) : price;
+  }
+}
@@ -1,4 +1,5 @@
 import assert = require("assert");
+import { createHash } from "crypto";
 import { ChainId, Token, Pair, TokenAmount } from "@uniswap/sdk";
 import { defaultConfigs } from "./DefaultPriceFeedConfigs";
 import { getAbi } from "@uma/contracts-node";
@@ -10,6 +11,8 @@ import Web3 from "web3";
 // Price feed interfaces (sorted alphabetically)
 import { BalancerPriceFeed } from "./BalancerPriceFeed";
 import { BasketSpreadPriceFeed } from "./BasketSpreadPriceFeed";
+import { CachedPriceFeed } from "./CachedPriceFeed";
+import { ChainlinkPriceFeed } from "./ChainlinkPriceFeed";
 import { CoinGeckoPriceFeed } from "./CoinGeckoPriceFeed";
 import { CoinMarketCapPriceFeed } from "./CoinMarketCapPriceFeed";
 import { CryptoWatchPriceFeed } from "./CryptoWatchPriceFeed";
@@ -18,6 +21,7 @@ import { DominationFinancePriceFeed } from "./DominationFinancePriceFeed";
 import { ETHVIXPriceFeed } from "./EthVixPriceFeed";
 import { ExpressionPriceFeed, math, escapeSpecialCharacters } from "./ExpressionPriceFeed";
 import { FallBackPriceFeed } from "./FallBackPriceFeed";
+import { GuardedPriceFeed } from "./GuardedPriceFeed";
 import { ForexDailyPriceFeed } from "./ForexDailyPriceFeed";
 import { FundingRateMultiplierPriceFeed } from "./FundingRateMultiplierPriceFeed";
 import { HmLandRegistryPriceFeed } from "./HmLandRegistryPriceFeed";
@@ -36,7 +40,9 @@ import { MarketStackPriceFeed } from "./MarketStackPriceFeed";
 
 import type { Logger } from "winston";
 import { NetworkerInterface } from "./Networker";
+import { CachingNetworker } from "./CachingNetworker";
 import { PriceFeedInterface } from "./PriceFeedInterface";
+import { FileCacheStore } from "./CacheStore";
 import { isDefined } from "../types";
 import { InsuredBridgeL1Client, InsuredBridgeL2Client } from "..";
 import type { BlockTransactionBase } from "web3-eth";
@@ -52,6 +58,9 @@ interface Block {
 // Global cache for block (promises) used by uniswap price feeds.
 const uniswapBlockCache: { [blockNumber: number]: Promise<Block> } = {};
 
+// Global cache for the file stores used by cached price feeds so feeds sharing a file also share its in-memory state.
+const priceFeedCacheStores: { [filePath: string]: FileCacheStore } = {};
+
 export async function createPriceFeed(
   logger: Logger,
   web3: Web3,
@@ -68,6 +77,85 @@ export async function createPriceFeed(
     providedWeb3 = web3;
   }
 
+  if (config.guard) {
+    const { maxStaleness, maxJump } = config.guard;
+    if (maxStaleness !== undefined && !(typeof maxStaleness === "number" && maxStaleness > 0)) {
+      logger.error({
+        at: "createPriceFeed",
+        message: "GuardedPriceFeed maxStaleness must be a positive number of seconds🚨",
+        config,
+      });
+      return null;
+    }
+
+    if (maxJump !== undefined && !(typeof maxJump === "number" && maxJump >= 0)) {
+      logger.error({
+        at: "createPriceFeed",
+        message: "GuardedPriceFeed maxJump must be a non-negative number🚨",
+        config,
+      });
+      return null;
+    }
+
+    // Create the configured feed without the guard block and wrap it. Note: the guard applies to this feed only and is
+    // not inherited by any constituent feeds.
+    const priceFeed = await createPriceFeed(logger, web3, networker, getTime, { ...config, guard: undefined });
+    if (priceFeed === null) return null;
+
+    logger.debug({ at: "createPriceFeed", message: "Creating GuardedPriceFeed", config });
+
+    return new GuardedPriceFeed(logger, priceFeed, getTime, config.guard);
+  }
+
+  if (config.cache) {
+    // Create the configured feed without the cache block and wrap it so its historical prices are persisted to disk.
+    const { cache, ...uncachedConfig } = config;
+    const filePath = cache.path || process.env.PRICE_FEED_CACHE_PATH || "./price-feed-cache.json";
+    if (!priceFeedCacheStores[filePath])
+      priceFeedCacheStores[filePath] = new FileCacheStore(filePath, undefined, logger);
+
+    // Responses are only cached for the urls that the config opts in to, since most endpoints must never be stale.
+    let cachedNetworker = networker;
+    if (isDefined(cache.urlPatterns)) {
+      if (!Array.isArray(cache.urlPatterns) || !(cache.networkerTtl > 0)) {
+        logger.error({
+          at: "createPriceFeed",
+          message: "Cache urlPatterns must be an array and require a positive networkerTtl🚨",
+          config,
+        });
+        return null;
+      }
+      cachedNetworker = new CachingNetworker(
+        logger,
+        networker,
+        priceFeedCacheStores[filePath],
+        cache.networkerTtl,
+        cache.urlPatterns
+      );
+    }
+
+    const priceFeed = await createPriceFeed(logger, web3, cachedNetworker, getTime, uncachedConfig);
+    if (priceFeed === null) return null;
+
+    // If no key is provided, derive one from the rest of the config so that differently configured feeds never share
+    // cached prices.
+    const cacheKey =
+      cache.cacheKey ||
+      `${config.type}-${createHash("sha256").update(JSON.stringify(uncachedConfig)).digest("hex").substring(0, 16)}`;
+
+    logger.debug({ at: "createPriceFeed", message: "Creating CachedPriceFeed", config, cacheKey, filePath });
+
+    return new CachedPriceFeed(
+      logger,
+      priceFeed,
+      priceFeedCacheStores[filePath],
+      cacheKey,
+      getTime,
+      cache.ttl, // Defaults to never expiring.
+      cache.minAge // Defaults to 1 hour unless supplied.
+    );
+  }
+
   if (config.type === "cryptowatch") {
     const requiredFields = ["exchange", "pair", "lookback", "minTimeBetweenUpdates"];
 
@@ -162,6 +250,25 @@ export async function createPriceFeed(
       config.priceFeedDecimals, // This defaults to 18 unless supplied by user
       uniswapBlockCache
     );
+  } else if (config.type === "chainlink") {
+    const requiredFields = ["aggregatorAddress", "lookback"];
+
+    if (isMissingField(config, requiredFields, logger)) {
+      return null;
+    }
+
+    logger.debug({ at: "createPriceFeed", message: "Creating ChainlinkPriceFeed", config });
+
+    return new ChainlinkPriceFeed(
+      logger,
+      providedWeb3,
+      config.aggregatorAddress,
+      config.lookback,
+      getTime,
+      config.minTimeBetweenUpdates, // Defaults to 60 unless supplied.
+      config.invertPrice, // Not checked in config because this parameter just defaults to false.
+      config.priceFeedDecimals // This defaults to 18 unless supplied by user
+    );
   } else if (config.type === "forexdaily") {
     const requiredFields = ["base", "symbol", "lookback"];
 
@@ -214,6 +321,29 @@ export async function createPriceFeed(
       return null;
     }
 
+    if (
+      config.minFeedsRequired !== undefined &&
+      (!Number.isInteger(config.minFeedsRequired) ||
+        config.minFeedsRequired < 1 ||
+        config.minFeedsRequired > config.medianizedFeeds.length)
+    ) {
+      logger.error({
+        at: "createPriceFeed",
+        message: "MedianizerPriceFeed minFeedsRequired must be between 1 and the number of medianized feeds🚨",
+        config,
+      });
+      return null;
+    }
+
+    if (config.maxDeviation !== undefined && !(typeof config.maxDeviation === "number" && config.maxDeviation >= 0)) {
+      logger.error({
+        at: "createPriceFeed",
+        message: "MedianizerPriceFeed maxDeviation must be a non-negative number🚨",
+        config,
+      });
+      return null;
+    }
+
     logger.debug({ at: "createPriceFeed", message: "Creating MedianizerPriceFeed", config });
 
     // Loop over all the price feeds to medianize.
@@ -700,7 +830,13 @@ export async function createPriceFeed(
 
               // These configs will inherit the expression config values (except type), but prefer the individual config's
               // value when present.
-              const combinedConfig = { ...expressionConfig, type: undefined, ...config };
+              const combinedConfig = {
+                ...expressionConfig,
+                type: undefined,
+                guard: undefined,
+                cache: undefined,
+                ...config,
+              };
 
               // If this returns null, just return upstream since the error has already been logged and the null will be
               // detected upstream.
@@ -726,10 +862,16 @@ export async function createPriceFeed(
   async function _createMedianizerPriceFeed(medianizerConfig: {
     medianizedFeeds: any[];
     computeMean: boolean;
+    minFeedsRequired?: number; // Defaults to requiring every medianized feed.
+    maxDeviation?: number; // Relative deviation from the median, e.g. 0.05. Disabled unless supplied.
   }): Promise<MedianizerPriceFeed | null> {
     const priceFeedsToMedianize = await _createConstituentPriceFeeds(medianizerConfig.medianizedFeeds);
     if (!priceFeedsToMedianize) return null;
-    return new MedianizerPriceFeed(priceFeedsToMedianize, medianizerConfig.computeMean);
+    return new MedianizerPriceFeed(priceFeedsToMedianize, medianizerConfig.computeMean, {
+      minFeedsRequired: medianizerConfig.minFeedsRequired,
+      maxDeviation: medianizerConfig.maxDeviation,
+      logger,
+    });
   }
 
   async function _createFallBackPriceFeed(fallbackConfig: { orderedFeeds: any[] }): Promise<FallBackPriceFeed | null> {
@@ -744,8 +886,10 @@ export async function createPriceFeed(
       // The constituent feeds should inherit config options from the parent config if it doesn't define those values
       // itself.
       // Note: ensure that type isn't inherited because this could create infinite recursion if the type isn't defined
-      // on the nested config.
-      const combinedConfig = { ...config, type: undefined, ..._priceFeedConfig };
+      // on the nested config. Quorum, guard and cache settings only apply to the parent feed, so they are not inherited
+      // either.
+      const { minFeedsRequired, maxDeviation, guard, cache, ...inheritableConfig } = config;
+      const combinedConfig = { ...inheritableConfig, type: undefined, ..._priceFeedConfig };
 
       const priceFeed = await createPriceFeed(logger, web3, networker, getTime, combinedConfig);
 
@@ -1,4 +1,4 @@
-import { PriceFeedInterface } from "./PriceFeedInterface";
+import { PriceFeedInterface, CachedPricePeriod } from "./PriceFeedInterface";
 import { parseFixed, formatFixed, parseAncillaryData } from "@uma/common";
 import { computeTWAP } from "./utils";
 import type { Logger } from "winston";
@@ -26,6 +26,7 @@ export class CryptoWatchPriceFeed extends PriceFeedInterface {
   private lastUpdateTime: null | number = null;
   private lastAncillaryData: undefined | string = undefined;
   private historicalPricePeriods: PricePeriod[] = [];
+  private incrementalUpdates = false; // Set once cached periods are restored, see `restoreCachedPeriods`.
 
   /**
    * @notice Constructs the CryptoWatchPriceFeed.
@@ -263,7 +264,25 @@ export class CryptoWatchPriceFeed extends PriceFeedInterface {
     const earliestHistoricalTimestamp =
       Math.floor((currentTime - (this.lookback + twapLength)) / this.ohlcPeriod) * this.ohlcPeriod;
 
-    const newHistoricalPricePeriods = await this._getOhlcPricePeriods(earliestHistoricalTimestamp, currentTime);
+    // With incremental updates, only the periods from the open of the last known period onwards are downloaded. The
+    // last period is downloaded again since it may not have closed when it was first fetched.
+    const lastPricePeriod = this.historicalPricePeriods[this.historicalPricePeriods.length - 1];
+    const fromTimestamp =
+      this.incrementalUpdates && lastPricePeriod
+        ? Math.max(earliestHistoricalTimestamp, lastPricePeriod.openTime)
+        : earliestHistoricalTimestamp;
+    const downloadedPricePeriods = await this._getOhlcPricePeriods(fromTimestamp, currentTime);
+    const newHistoricalPricePeriods =
+      fromTimestamp === earliestHistoricalTimestamp
+        ? downloadedPricePeriods
+        : [
+            ...this.historicalPricePeriods.filter(
+              (pricePeriod) =>
+                pricePeriod.openTime >= earliestHistoricalTimestamp &&
+                pricePeriod.closeTime < (downloadedPricePeriods[0]?.closeTime ?? Infinity)
+            ),
+            ...downloadedPricePeriods,
+          ];
     const newPrice = twapLength
       ? this._computeTwap(currentTime, newHistoricalPricePeriods, twapLength)
       : await this._getImmediatePrice();
@@ -275,6 +294,28 @@ export class CryptoWatchPriceFeed extends PriceFeedInterface {
     this.lastAncillaryData = ancillaryData;
   }
 
+  // Returns the downloaded OHLC periods so that they can be persisted, see PriceFeedWithCachedPeriods.
+  public getCachedPeriods(): CachedPricePeriod[] {
+    return this.historicalPricePeriods.map((pricePeriod) => ({
+      ...pricePeriod,
+      openPrice: pricePeriod.openPrice.toString(),
+      closePrice: pricePeriod.closePrice.toString(),
+    }));
+  }
+
+  // Restores previously persisted OHLC periods and switches to incremental updates, so the next `update()` downloads
+  // only the periods since the last restored one. Periods outside the lookback window are dropped on that update.
+  public restoreCachedPeriods(periods: CachedPricePeriod[]): void {
+    this.historicalPricePeriods = periods
+      .map((pricePeriod) => ({
+        ...pricePeriod,
+        openPrice: this.toBN(pricePeriod.openPrice),
+        closePrice: this.toBN(pricePeriod.closePrice),
+      }))
+      .sort((a, b) => a.openTime - b.openTime);
+    this.incrementalUpdates = true;
+  }
+
   private async _printVerbose(pricePeriod: PricePeriod, returnPrice: BN) {
     console.group(`\n(${this.exchange}:${this.pair}) Historical OHLC:`);
     console.log(
@@ -1,5 +1,6 @@
 import assert from "assert";
 import { PriceFeedInterface } from "./PriceFeedInterface";
+import { alignHistoricalPricePeriods } from "./HistoricalPricePeriods";
 import Web3 from "web3";
 import { create, all, MathJsStatic } from "mathjs";
 import { BN, isDefined } from "../types";
@@ -139,6 +140,21 @@ export class ExpressionPriceFeed extends PriceFeedInterface {
     return this._convertToFixed(this.expressionCode.evaluate(prices), this.getPriceFeedDecimals());
   }
 
+  // Aligns the constituents' historical price periods on timestamp and evaluates the expression at each timestamp. The
+  // price is null wherever a constituent has no price. Throws if a constituent does not implement
+  // `getHistoricalPricePeriods`.
+  public getHistoricalPricePeriods(): [number, BN | null][] {
+    const entries = Object.entries(this.priceFeedMap);
+    return alignHistoricalPricePeriods(entries.map(([, pf]) => pf)).map(({ time, prices }) => {
+      if (!prices.every(isDefined)) return [time, null];
+      const scope: { [name: string]: math.BigNumber } = {};
+      entries.forEach(([name, pf], index) => {
+        scope[name] = this._convertToDecimal(prices[index], pf.getPriceFeedDecimals() || 18);
+      });
+      return [time, this._convertToFixed(this.expressionCode.evaluate(scope), this.getPriceFeedDecimals())];
+    });
+  }
+
   public getPriceFeedDecimals(): number {
     return this.decimals;
   }
@@ -1,4 +1,5 @@
 import { PriceFeedInterface } from "./PriceFeedInterface";
+import { alignHistoricalPricePeriods } from "./HistoricalPricePeriods";
 import { BN, isDefined } from "../types";
 
 // An implementation of PriceFeedInterface that provides an order pricefeeds to fall back to
@@ -53,10 +54,13 @@ export class FallBackPriceFeed extends PriceFeedInterface {
     throw errors;
   }
 
-  // Note: This method will fail if one of the pricefeeds has not implemented `getHistoricalPricePeriods`, which
-  // is basically every price feed except for the CryptoWatchPriceFeed.
+  // Aligns the constituents' historical price periods on timestamp and returns the first available price at each
+  // timestamp. Throws if a constituent does not implement `getHistoricalPricePeriods`.
   public getHistoricalPricePeriods(): [number, BN | null][] {
-    throw new Error("getHistoricalPricePeriods Unimplemented for FallBackPriceFeed");
+    return alignHistoricalPricePeriods(this.priceFeeds).map(({ time, prices }) => [
+      time,
+      prices.find(isDefined) ?? null,
+    ]);
   }
 
   // Gets the *most recent* update time for all constituent price feeds.
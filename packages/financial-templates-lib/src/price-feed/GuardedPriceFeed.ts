@@ -0,0 +1,171 @@
+import { PriceFeedInterface, HistoricalPricePeriod, hasHistoricalPricePeriods } from "./PriceFeedInterface";
+import { getPricePeriods } from "./HistoricalPricePeriods";
+import { parseFixed } from "@ethersproject/bignumber";
+import Web3 from "web3";
+import type { Logger } from "winston";
+import { BN, isDefined } from "../types";
+
+export interface PriceGuardConfig {
+  maxStaleness?: number; // Max seconds since the wrapped feed's last update before its price is considered stale.
+  minPrice?: string | number; // Lowest acceptable price, in human readable units (scaled by the feed's decimals).
+  maxPrice?: string | number; // Highest acceptable price, in human readable units (scaled by the feed's decimals).
+  maxJump?: number; // Max relative change between consecutive updates, e.g. 0.2 for 20%.
+}
+
+// An implementation of PriceFeedInterface that wraps another price feed and withholds prices that look stale or
+// implausible. Rejected prices are replaced with null (or a thrown error for historical prices) and a warning is logged.
+export class GuardedPriceFeed extends PriceFeedInterface {
+  private readonly toBN = Web3.utils.toBN;
+  private currentPrice: BN | null = null;
+  private previousPrice: BN | null = null;
+
+  // Only defined if the wrapped feed implements it, so that `hasHistoricalPricePeriods` reports the wrapped feed's
+  // capability and composite feeds over this one can still align periods.
+  public readonly getHistoricalPricePeriods?: () => HistoricalPricePeriod[];
+
+  /**
+   * @notice Constructs new GuardedPriceFeed.
+   * @param {Object} logger Winston module used to send logs.
+   * @param {Object} priceFeed the price feed to guard. Must be of type PriceFeedInterface.
+   * @param {Function} getTime Returns the current time.
+   * @param {Object} guardConfig the checks to enforce. Any check that is left unset is skipped.
+   */
+  constructor(
+    private readonly logger: Logger,
+    private readonly priceFeed: PriceFeedInterface,
+    private readonly getTime: () => Promise<number>,
+    private readonly guardConfig: PriceGuardConfig
+  ) {
+    super();
+
+    const { maxStaleness, maxJump } = guardConfig;
+    if (isDefined(maxStaleness) && !(maxStaleness > 0)) {
+      throw new Error("GuardedPriceFeed maxStaleness must be a positive number of seconds.");
+    }
+    if (isDefined(maxJump) && !(maxJump >= 0)) {
+      throw new Error("GuardedPriceFeed maxJump must be a non-negative number.");
+    }
+
+    if (hasHistoricalPricePeriods(priceFeed)) {
+      // Like historical prices, only the price bounds apply. Out of bounds prices are replaced with null, which is how
+      // periods mark a missing price.
+      this.getHistoricalPricePeriods = () =>
+        getPricePeriods(priceFeed).map(
+          ({ time, price }): HistoricalPricePeriod => [
+            time,
+            isDefined(price) && !this._checkBounds(price) ? price : null,
+          ]
+        );
+    }
+  }
+
+  // Updates the wrapped price feed and runs the guard checks against its new current price. Note: a price that is
+  // rejected for jumping too far is accepted on the next update if it persists, since the jump is measured between
+  // consecutive updates rather than against the last accepted price.
+  public async update(ancillaryData?: string): Promise<void> {
+    // Clear the guarded price first so a failing update cannot leave a previously accepted price in place.
+    this.currentPrice = null;
+    await this.priceFeed.update(ancillaryData);
+    const currentTime = await this.getTime();
+    const price = this.priceFeed.getCurrentPrice();
+
+    if (!isDefined(price)) {
+      this.previousPrice = null;
+      return;
+    }
+
+    const rejection = this._checkStaleness(currentTime) || this._checkBounds(price) || this._checkJump(price);
+    this.previousPrice = price;
+    if (rejection) {
+      this.logger.warn({
+        at: "GuardedPriceFeed",
+        message: "Price feed guard rejected current price🚨",
+        reason: rejection,
+        price: price.toString(),
+        currentTime,
+        lastUpdateTime: this.priceFeed.getLastUpdateTime(),
+        guardConfig: this.guardConfig,
+      });
+      return;
+    }
+
+    this.currentPrice = price;
+  }
+
+  // Returns the wrapped feed's current price as of the last update, or null if it failed any guard check.
+  public getCurrentPrice(): BN | null {
+    return this.currentPrice;
+  }
+
+  // Returns the wrapped feed's historical price. Only the price bounds apply to historical prices, since staleness and
+  // jumps are properties of the live feed. Throws if the price is out of bounds.
+  public async getHistoricalPrice(time: number, ancillaryData?: string, verbose = false): Promise<BN | null> {
+    const price = await this.priceFeed.getHistoricalPrice(time, ancillaryData, verbose);
+    if (!isDefined(price)) return price;
+
+    const rejection = this._checkBounds(price);
+    if (rejection) {
+      this.logger.warn({
+        at: "GuardedPriceFeed",
+        message: "Price feed guard rejected historical price🚨",
+        reason: rejection,
+        price: price.toString(),
+        time,
+        guardConfig: this.guardConfig,
+      });
+      throw new Error(`GuardedPriceFeed: historical price at ${time} rejected: ${rejection}`);
+    }
+    return price;
+  }
+
+  public getLastUpdateTime(): number | null {
+    return this.priceFeed.getLastUpdateTime();
+  }
+
+  public getPriceFeedDecimals(): number | null {
+    return this.priceFeed.getPriceFeedDecimals();
+  }
+
+  public getLookback(): number | null {
+    return this.priceFeed.getLookback();
+  }
+
+  private _checkStaleness(currentTime: number): string | null {
+    const { maxStaleness } = this.guardConfig;
+    if (!isDefined(maxStaleness)) return null;
+
+    const lastUpdateTime = this.priceFeed.getLastUpdateTime();
+    if (!isDefined(lastUpdateTime)) return "wrapped price feed has no last update time";
+    if (currentTime - lastUpdateTime > maxStaleness) {
+      return `price is ${currentTime - lastUpdateTime} seconds old, max staleness is ${maxStaleness}`;
+    }
+    return null;
+  }
+
+  private _checkBounds(price: BN): string | null {
+    const { minPrice, maxPrice } = this.guardConfig;
+    if (isDefined(minPrice) && price.lt(this._scalePrice(minPrice))) return `price is below min price ${minPrice}`;
+    if (isDefined(maxPrice) && price.gt(this._scalePrice(maxPrice))) return `price is above max price ${maxPrice}`;
+    return null;
+  }
+
+  private _checkJump(price: BN): string | null {
+    const { maxJump } = this.guardConfig;
+    if (!isDefined(maxJump) || !this.previousPrice || this.previousPrice.isZero()) return null;
+
+    // Compare |price - previousPrice| / previousPrice > maxJump in fixed point to avoid losing precision.
+    const fixedPointOne = this.toBN(Web3.utils.toWei("1"));
+    const maxJumpScaled = this.toBN(Web3.utils.toWei(maxJump.toString()));
+    const jump = price.sub(this.previousPrice).abs().mul(fixedPointOne);
+    if (jump.gt(maxJumpScaled.mul(this.previousPrice.abs()))) {
+      return `price moved from ${this.previousPrice.toString()} by more than max jump ${maxJump}`;
+    }
+    return null;
+  }
+
+  // Scales a human readable price to the wrapped feed's decimals.
+  private _scalePrice(price: string | number): BN {
+    const decimals = this.priceFeed.getPriceFeedDecimals() ?? 18;
+    return this.toBN(parseFixed(price.toString(), decimals).toString());
+  }
+}
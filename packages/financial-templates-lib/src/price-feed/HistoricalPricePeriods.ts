@@ -0,0 +1,51 @@
+// Helpers for composite price feeds that implement `getHistoricalPricePeriods` on top of their constituents.
+
+import Web3 from "web3";
+import lodash from "lodash";
+import {
+  PriceFeedInterface,
+  PriceFeedWithHistoricalPricePeriods,
+  HistoricalPricePeriod,
+  hasHistoricalPricePeriods,
+} from "./PriceFeedInterface";
+import { BN, isDefined } from "../types";
+const { toBN } = Web3.utils;
+
+export interface AlignedPricePeriod {
+  time: number;
+  prices: (BN | null)[]; // One price per constituent, in the order the constituents were passed in.
+}
+
+// Some feeds (e.g. the TraderMadePriceFeed) return their raw candles rather than [time, price] pairs.
+type RawPricePeriod = HistoricalPricePeriod | { closeTime: number; closePrice: BN | string | null };
+
+// Collects the periods of every constituent and aligns them on the union of their timestamps. At each timestamp, a
+// constituent's price is the price of its most recent period at or before that timestamp, or null if it has none.
+// Throws if any constituent does not implement getHistoricalPricePeriods.
+export function alignHistoricalPricePeriods(priceFeeds: PriceFeedInterface[]): AlignedPricePeriod[] {
+  const periodsByFeed = priceFeeds.map((priceFeed, index) => {
+    if (!hasHistoricalPricePeriods(priceFeed)) {
+      throw new Error(`Constituent price feed at index ${index} does not implement getHistoricalPricePeriods`);
+    }
+    return lodash.sortBy(getPricePeriods(priceFeed), (period) => period.time);
+  });
+
+  const times = lodash.sortedUniq(lodash.sortBy(periodsByFeed.flat().map((period) => period.time)));
+  return times.map((time) => ({
+    time,
+    prices: periodsByFeed.map((periods) => {
+      const index = lodash.sortedLastIndexBy(periods, { time, price: null }, "time") - 1;
+      return index >= 0 ? periods[index].price : null;
+    }),
+  }));
+}
+
+// Returns the periods of a single feed as { time, price } objects with BN prices, whatever format the feed returns.
+export function getPricePeriods(priceFeed: PriceFeedWithHistoricalPricePeriods): { time: number; price: BN | null }[] {
+  return (priceFeed.getHistoricalPricePeriods() as RawPricePeriod[]).map(_toPricePeriod);
+}
+
+function _toPricePeriod(period: RawPricePeriod): { time: number; price: BN | null } {
+  const [time, price] = Array.isArray(period) ? period : [period.closeTime, period.closePrice];
+  return { time: Number(time), price: isDefined(price) ? toBN(price.toString()) : null };
+}
@@ -1,48 +1,90 @@
 import { PriceFeedInterface } from "./PriceFeedInterface";
 import Web3 from "web3";
+import type { Logger } from "winston";
 import { BN, isDefined } from "../types";
 
 type WithHistoricalPricePeriods<T> = T & { getHistoricalPricePeriods: () => [number, BN | null][] };
 
+export interface MedianizerQuorumConfig {
+  // Minimum number of constituent prices that must survive filtering for a price to be returned. Defaults to all feeds.
+  minFeedsRequired?: number;
+  // Maximum allowed relative deviation from the median of all available prices (e.g. 0.05 for 5%). Prices further
+  // away are excluded before aggregating. Unset disables the filter.
+  maxDeviation?: number;
+  // Optional logger used to report excluded constituents.
+  logger?: Logger;
+}
+
+export interface ExcludedFeed {
+  index: number;
+  reason: "missing price" | "error" | "max deviation exceeded";
+  price?: string;
+  error?: string;
+}
+
 // An implementation of PriceFeedInterface that medianizes other price feeds.
 export class MedianizerPriceFeed extends PriceFeedInterface {
   private readonly toBN = Web3.utils.toBN;
+  private readonly minFeedsRequired: number;
+  private readonly maxDeviation: BN | null;
+  private readonly logger: Logger | undefined;
+  private excludedFeeds: ExcludedFeed[] = [];
+
   /**
    * @notice Constructs new MedianizerPriceFeed.
    * @param {List} priceFeeds a list of priceFeeds to medianize. All elements must be of type PriceFeedInterface.
    *      Must be an array of at least one element.
    * @param {Boolean=false} computeMean Set this to true to return the mean over price feeds instead of the median.
    *      Default behavior is to return median.
+   * @param {Object} quorumConfig optional quorum settings. `minFeedsRequired` allows the medianizer to return a price
+   *      when only a subset of its constituents respond and `maxDeviation` drops constituents too far from the median.
+   *      Default behavior requires every constituent to return a price and applies no deviation filter.
    */
-  constructor(private readonly priceFeeds: PriceFeedInterface[], private readonly computeMean = false) {
+  constructor(
+    private readonly priceFeeds: PriceFeedInterface[],
+    private readonly computeMean = false,
+    quorumConfig: MedianizerQuorumConfig = {}
+  ) {
     super();
 
     if (priceFeeds.length === 0) {
       throw new Error("MedianizerPriceFeed cannot be constructed with no constituent price feeds.");
     }
+
+    const { minFeedsRequired = priceFeeds.length, maxDeviation, logger } = quorumConfig;
+    if (!Number.isInteger(minFeedsRequired) || minFeedsRequired < 1 || minFeedsRequired > priceFeeds.length) {
+      throw new Error(`MedianizerPriceFeed minFeedsRequired must be an integer between 1 and ${priceFeeds.length}.`);
+    }
+    if (maxDeviation !== undefined && !(maxDeviation >= 0)) {
+      throw new Error("MedianizerPriceFeed maxDeviation must be a non-negative number.");
+    }
+
+    this.minFeedsRequired = minFeedsRequired;
+    this.maxDeviation = maxDeviation !== undefined ? this.toBN(Web3.utils.toWei(maxDeviation.toString())) : null;
+    this.logger = logger;
   }
 
-  // Takes the median of all of the constituent price feeds' currentPrices.
+  // Takes the median of the constituent price feeds' currentPrices that pass the quorum and deviation checks.
   public getCurrentPrice(): BN | null {
     const currentPrices = this.priceFeeds.map((priceFeed) => priceFeed.getCurrentPrice());
-    if (!currentPrices.every(isDefined)) {
-      return null;
-    }
 
-    if (this.computeMean) {
-      return this._computeMean(currentPrices);
-    } else {
-      return this._computeMedian(currentPrices);
-    }
+    const excludedFeeds: ExcludedFeed[] = [];
+    currentPrices.forEach((price, index) => {
+      if (!isDefined(price)) excludedFeeds.push({ index, reason: "missing price" });
+    });
+
+    const aggregatedPrice = this._aggregate(currentPrices, excludedFeeds);
+    this._reportExcludedFeeds(excludedFeeds, "getCurrentPrice");
+    return aggregatedPrice;
   }
 
-  // Takes the median of all of the constituent price feeds' historical prices.
+  // Takes the median of the constituent price feeds' historical prices that pass the quorum and deviation checks.
   public async getHistoricalPrice(time: number, ancillaryData: string, verbose = false): Promise<BN> {
-    // If failure to fetch any constituent historical prices, then throw
-    // array of errors.
+    // If too many constituent historical prices fail to be fetched to meet the quorum, then throw array of errors.
     const errors: any[] = [];
+    const excludedFeeds: ExcludedFeed[] = [];
     const historicalPrices = await Promise.all(
-      this.priceFeeds.map((priceFeed) => {
+      this.priceFeeds.map((priceFeed, index) => {
         return priceFeed
           .getHistoricalPrice(time, ancillaryData, verbose)
           .then((result) => {
@@ -51,24 +93,32 @@ export class MedianizerPriceFeed extends PriceFeedInterface {
           })
           .catch((err) => {
             errors.push(err);
-            return this.toBN(0); // Placeholder since the error will get thrown anyway.
+            excludedFeeds.push({ index, reason: "error", error: err?.message || String(err) });
+            return null;
           });
       })
     );
 
-    if (errors.length > 0) {
-      throw errors;
-    } else {
-      if (this.computeMean) {
-        return this._computeMean(historicalPrices);
-      } else {
-        return this._computeMedian(historicalPrices);
-      }
+    const aggregatedPrice = this._aggregate(historicalPrices, excludedFeeds);
+    this._reportExcludedFeeds(excludedFeeds, "getHistoricalPrice", time);
+    if (!aggregatedPrice) {
+      if (errors.length > 0) throw errors;
+      throw new Error(
+        `MedianizerPriceFeed: fewer than ${this.minFeedsRequired} constituent prices within max deviation at ${time}`
+      );
     }
+    return aggregatedPrice;
   }
 
-  // Note: This method will fail if one of the pricefeeds has not implemented `getHistoricalPricePeriods`, which
-  // is basically every price feed except for the CryptoWatchPriceFeed.
+  // Returns the constituents that were left out of the most recent price computation and the reason for each.
+  public getExcludedFeeds(): ExcludedFeed[] {
+    return this.excludedFeeds;
+  }
+
+  // Note: This method will fail if one of the pricefeeds has not implemented `getHistoricalPricePeriods`. Periods are
+  // matched by index against the first price feed's periods and missing prices count as 0, without the quorum and
+  // deviation rules of getHistoricalPrice. Devmining rewards are priced from these periods, so they keep this alignment
+  // rather than the timestamp alignment of the other composite feeds.
   public getHistoricalPricePeriods(): [number, string][] {
     // Fetch all historical price data for all price feeds within the medianizer set.
     const priceFeeds = this.priceFeeds as WithHistoricalPricePeriods<PriceFeedInterface>[];
@@ -94,11 +144,12 @@ export class MedianizerPriceFeed extends PriceFeedInterface {
     return processedMedianHistoricalPricePeriods;
   }
 
-  // Gets the *most recent* update time for all constituent price feeds.
+  // Gets the *most recent* update time for all constituent price feeds. Returns null if fewer than minFeedsRequired
+  // constituents have been updated.
   public getLastUpdateTime(): number | null {
-    const lastUpdateTimes = this.priceFeeds.map((priceFeed) => priceFeed.getLastUpdateTime());
+    const lastUpdateTimes = this.priceFeeds.map((priceFeed) => priceFeed.getLastUpdateTime()).filter(isDefined);
 
-    if (!lastUpdateTimes.every(isDefined)) {
+    if (lastUpdateTimes.length < this.minFeedsRequired) {
       return null;
     }
 
@@ -126,13 +177,64 @@ export class MedianizerPriceFeed extends PriceFeedInterface {
     return Math.min(...lookbacks);
   }
 
-  // Updates all constituent price feeds.
+  // Updates all constituent price feeds. If a quorum smaller than the full set is configured, failed updates are
+  // tolerated as long as enough constituents update successfully to meet it.
   public async update(): Promise<void> {
-    await Promise.all(this.priceFeeds.map((priceFeed) => priceFeed.update()));
+    if (this.minFeedsRequired === this.priceFeeds.length) {
+      await Promise.all(this.priceFeeds.map((priceFeed) => priceFeed.update()));
+      return;
+    }
+
+    const results = await Promise.allSettled(this.priceFeeds.map((priceFeed) => priceFeed.update()));
+    const errors = results
+      .filter((result): result is PromiseRejectedResult => result.status === "rejected")
+      .map((result) => result.reason);
+    if (this.priceFeeds.length - errors.length < this.minFeedsRequired) throw errors;
+  }
+
+  // Filters out missing prices and prices deviating too far from the median, appending the reasons to excludedFeeds.
+  // Returns null if fewer than minFeedsRequired prices remain.
+  private _aggregate(prices: (BN | null | undefined)[], excludedFeeds: ExcludedFeed[]): BN | null {
+    const availablePrices = prices
+      .map((price, index) => ({ price, index }))
+      .filter((entry): entry is { price: BN; index: number } => isDefined(entry.price));
+    if (availablePrices.length < this.minFeedsRequired) return null;
+
+    let acceptedPrices = availablePrices;
+    if (this.maxDeviation) {
+      const maxDeviation = this.maxDeviation;
+      const median = this._computeMedian(availablePrices.map((entry) => entry.price));
+      const fixedPointOne = this.toBN(Web3.utils.toWei("1"));
+      acceptedPrices = availablePrices.filter(({ price, index }) => {
+        // Compare |price - median| / median > maxDeviation without losing precision to integer division.
+        const isWithinDeviation = price.sub(median).abs().mul(fixedPointOne).lte(maxDeviation.mul(median.abs()));
+        if (!isWithinDeviation)
+          excludedFeeds.push({ index, reason: "max deviation exceeded", price: price.toString() });
+        return isWithinDeviation;
+      });
+      if (acceptedPrices.length < this.minFeedsRequired) return null;
+    }
+
+    const acceptedValues = acceptedPrices.map((entry) => entry.price);
+    return this.computeMean ? this._computeMean(acceptedValues) : this._computeMedian(acceptedValues);
+  }
+
+  private _reportExcludedFeeds(excludedFeeds: ExcludedFeed[], method: string, time?: number) {
+    this.excludedFeeds = excludedFeeds.sort((a, b) => a.index - b.index);
+    if (this.logger && excludedFeeds.length > 0) {
+      this.logger.debug({
+        at: "MedianizerPriceFeed",
+        message: `Excluded constituent price feeds in ${method}`,
+        time,
+        minFeedsRequired: this.minFeedsRequired,
+        excludedFeeds,
+      });
+    }
   }
 
   // Inputs are expected to be BNs.
-  private _computeMedian(inputs: BN[]) {
+  private _computeMedian(_inputs: BN[]) {
+    const inputs = [..._inputs];
     inputs.sort((a, b) => a.cmp(b));
 
     // Compute midpoint (top index / 2).
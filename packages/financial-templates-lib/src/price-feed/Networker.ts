@@ -2,7 +2,9 @@
 // to be mocked out in tests so no real network calls have to be made.
 
 import fetch from "node-fetch";
+import lodash from "lodash";
 import type { Logger } from "winston";
+import { delay } from "../helpers/delay";
 
 type NetworkerOptions = Parameters<typeof fetch>[1];
 
@@ -10,22 +12,200 @@ export abstract class NetworkerInterface {
   public abstract getJson(url: string, options?: NetworkerOptions): Promise<any>;
 }
 
+// Thrown when a request fails. `status` is undefined if no HTTP response was received (e.g. on a timeout) and
+// `retryAfter` holds the seconds requested by the host's Retry-After header, if any.
+export class NetworkerError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly status?: number,
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "NetworkerError";
+  }
+}
+
+export interface HostRateLimit {
+  requestsPerSecond: number; // Rate at which the host's request budget refills.
+  burst?: number; // Max requests that can be sent back to back. Defaults to 1.
+}
+
+export interface NetworkerConfig {
+  timeout?: number; // Milliseconds before a request is aborted. 0 disables the timeout. Defaults to 0.
+  retries?: number; // Number of times a request is retried on 429s, 5xx statuses and network errors. Defaults to 0.
+  retryDelay?: number; // Seconds to wait before the first retry, doubling on every subsequent retry. Defaults to 1.
+  checkStatus?: boolean; // Whether non 2xx responses are treated as failures. Defaults to true.
+  hostRateLimits?: { [host: string]: HostRateLimit }; // Request budgets for specific hosts.
+  defaultRateLimit?: HostRateLimit; // Request budget for any host without a specific limit. Unlimited if unset.
+  metricsLogInterval?: number; // Min seconds between debug logs of `getMetrics()`. 0 disables them. Defaults to 3600.
+  fetch?: typeof fetch; // Overrides the fetch implementation, e.g. in tests.
+}
+
+export interface HostMetrics {
+  requests: number; // Requests sent, including retries.
+  retries: number;
+  failures: number; // Calls to getJson that threw.
+  rateLimitWaits: number; // Requests that had to wait for the host's budget to refill.
+  statusCodes: { [status: number]: number };
+}
+
+// Token bucket used to keep requests to a single host within its budget.
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly limit: HostRateLimit) {
+    this.tokens = this.capacity;
+  }
+
+  private get capacity() {
+    return this.limit.burst ?? 1;
+  }
+
+  // Resolves once a token was consumed. Returns whether the caller had to wait.
+  async consume(): Promise<boolean> {
+    let waited = false;
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + ((now - this.lastRefill) / 1000) * this.limit.requestsPerSecond
+      );
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return waited;
+      }
+      waited = true;
+      await delay((1 - this.tokens) / this.limit.requestsPerSecond);
+    }
+  }
+}
+
 export class Networker extends NetworkerInterface {
+  private readonly buckets: { [host: string]: TokenBucket } = {};
+  private readonly metrics: { [host: string]: HostMetrics } = {};
+  private lastMetricsLogTime = Date.now();
+
   /**
    * @notice Constructs new Networker.
    * @param {Object} logger Winston module used to send logs.
+   * @param {Object} config optional timeout, retry and rate limit settings. By default requests are sent once, without
+   *      a timeout or rate limit, and fail on non 2xx statuses or if no json is returned.
    */
-  constructor(private readonly logger: Logger) {
+  constructor(private readonly logger: Logger, private readonly config: NetworkerConfig = {}) {
     super();
   }
 
   async getJson(url: string, options: NetworkerOptions): Promise<any> {
-    const response = await fetch(url, options);
-    const json = await response.json();
+    const { retries = 0, retryDelay = 1 } = this.config;
+    const host = this._getHost(url);
+
+    this._logMetrics();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this._getJsonOnce(url, host, options);
+      } catch (error) {
+        const retryAfter = this._getRetryDelay(error, attempt, retryDelay);
+        if (attempt >= retries || retryAfter === null) {
+          this._getMetrics(host).failures++;
+          throw error;
+        }
+
+        this._getMetrics(host).retries++;
+        this.logger.debug({
+          at: "Networker",
+          message: "Retrying request",
+          host,
+          attempt: attempt + 1,
+          retryAfter,
+          error: error instanceof Error ? error.message : error,
+        });
+        await delay(retryAfter);
+      }
+    }
+  }
+
+  // Returns request counts per host since this Networker was created.
+  getMetrics(): { [host: string]: HostMetrics } {
+    return this.metrics;
+  }
+
+  private async _getJsonOnce(url: string, host: string, options: NetworkerOptions): Promise<any> {
+    const bucket = this._getBucket(host);
+    if (bucket && (await bucket.consume())) this._getMetrics(host).rateLimitWaits++;
+
+    const metrics = this._getMetrics(host);
+    metrics.requests++;
+
+    const { timeout = 0, checkStatus = true, fetch: fetchImpl = fetch } = this.config;
+    let response;
+    try {
+      response = await fetchImpl(url, { timeout, ...options });
+    } catch (error) {
+      throw new NetworkerError(`Networker request failed: ${error instanceof Error ? error.message : error}`, url);
+    }
+
+    metrics.statusCodes[response.status] = (metrics.statusCodes[response.status] || 0) + 1;
+    if (checkStatus && !response.ok) {
+      const retryAfter = Number(response.headers.get("retry-after")) || undefined;
+      throw new NetworkerError(`Networker received status ${response.status}`, url, response.status, retryAfter);
+    }
+
+    let json;
+    try {
+      json = await response.json();
+    } catch (error) {
+      // E.g. an HTML error page from a proxy. Keeping the status lets 5xx responses be retried.
+      const message = error instanceof Error ? error.message : error;
+      throw new NetworkerError(`Networker failed to parse json response: ${message}`, url, response.status);
+    }
     if (!json) {
       // Throw if no error. Will result in a retry upstream.
       throw new Error(`Networker failed to get json response. Response: ${response}`);
     }
     return json;
   }
+
+  // Periodically logs the request metrics so that rate limits and failing hosts show up in the bot logs.
+  private _logMetrics() {
+    const { metricsLogInterval = 3600 } = this.config;
+    if (!metricsLogInterval || Date.now() - this.lastMetricsLogTime < metricsLogInterval * 1000) return;
+    this.lastMetricsLogTime = Date.now();
+    const metrics = lodash.cloneDeep(this.getMetrics());
+    this.logger.debug({ at: "Networker", message: "Networker request metrics", metrics });
+  }
+
+  // Returns the number of seconds to wait before retrying or null if the error should not be retried.
+  private _getRetryDelay(error: unknown, attempt: number, retryDelay: number): number | null {
+    if (!(error instanceof NetworkerError)) return null;
+    if (error.status !== undefined && error.status !== 429 && error.status < 500) return null;
+
+    // Never retry earlier than the host asked to.
+    const backoff = retryDelay * 2 ** attempt;
+    return error.retryAfter !== undefined ? Math.max(backoff, error.retryAfter) : backoff;
+  }
+
+  private _getBucket(host: string): TokenBucket | undefined {
+    const limit = this.config.hostRateLimits?.[host] ?? this.config.defaultRateLimit;
+    if (!limit) return undefined;
+    if (!this.buckets[host]) this.buckets[host] = new TokenBucket(limit);
+    return this.buckets[host];
+  }
+
+  private _getMetrics(host: string): HostMetrics {
+    if (!this.metrics[host]) {
+      this.metrics[host] = { requests: 0, retries: 0, failures: 0, rateLimitWaits: 0, statusCodes: {} };
+    }
+    return this.metrics[host];
+  }
+
+  private _getHost(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch (error) {
+      return url;
+    }
+  }
 }
@@ -1,4 +1,4 @@
-import { NetworkerInterface } from "./Networker";
+import { NetworkerInterface, NetworkerError } from "./Networker";
 
 // A mock of the Networker to allow the user to check the inputs and set the outputs of network requests.
 export class NetworkerMock extends NetworkerInterface {
@@ -9,11 +9,20 @@ export class NetworkerMock extends NetworkerInterface {
   // Users of this mock should set this value to force getJson to return the value.
   public getJsonReturns: any[] = [];
 
+  // Failures that will be thrown by the next calls to getJson, before any value in getJsonReturns is consumed. Each
+  // element is either an HTTP status code (e.g. 429 or 503) or "timeout" to simulate a request that got no response.
+  public getJsonFailures: (number | "timeout")[] = [];
+
   // Mocked getJson function.
   public async getJson(url: string): Promise<any> {
     // Note: shift and unshift add and remove from the front of the array, so the elements are ordered such that the
     // first elements in the arrays are the first in/out.
     this.getJsonInputs.unshift(url);
+
+    const failure = this.getJsonFailures.shift();
+    if (failure === "timeout") throw new NetworkerError("NetworkerMock simulated timeout", url);
+    if (failure !== undefined) throw new NetworkerError(`NetworkerMock simulated status ${failure}`, url, failure);
+
     return this.getJsonReturns.shift();
   }
 }
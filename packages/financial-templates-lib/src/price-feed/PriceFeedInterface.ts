@@ -1,5 +1,9 @@
 import { BN } from "../types";
 
+// A [time, price] pair returned by `getHistoricalPricePeriods`. The price is in the feed's decimals (some feeds return
+// it as a string) or null if the feed could not compute a price at that time.
+export type HistoricalPricePeriod = [time: number, price: BN | string | null];
+
 // Price feed interface -- all price feed implementations should override all functions (except for _abstractFunctionCalled).
 export abstract class PriceFeedInterface {
   // Updates the internal state of the price feed. Should pull in any async data so the get*Price methods can be called.
@@ -37,3 +41,38 @@ export abstract class PriceFeedInterface {
   // `getHistoricalPrice`. This method can make clients more efficient by catching invalid historical timestamps early.
   public abstract getLookback(): number | null;
 }
+
+// Optional capability for price feeds that can return their whole price history, e.g. to build candle-style reports.
+// `getHistoricalPricePeriods` returns the periods within the feed's lookback, sorted by time, as of the last `update()`.
+// Composite feeds implement it on top of the periods of their constituents, so it is only available if every constituent
+// implements it as well.
+export interface PriceFeedWithHistoricalPricePeriods extends PriceFeedInterface {
+  getHistoricalPricePeriods(): HistoricalPricePeriod[];
+}
+
+export function hasHistoricalPricePeriods(
+  priceFeed: PriceFeedInterface
+): priceFeed is PriceFeedWithHistoricalPricePeriods {
+  return typeof (priceFeed as Partial<PriceFeedWithHistoricalPricePeriods>).getHistoricalPricePeriods === "function";
+}
+
+// Serializable OHLC period, as persisted by the CachedPriceFeed. Prices are in the feed's decimals.
+export interface CachedPricePeriod {
+  openTime: number;
+  closeTime: number;
+  openPrice: string;
+  closePrice: string;
+}
+
+// Optional capability for feeds that download OHLC periods, so that a CachedPriceFeed can persist them between runs.
+// Once `restoreCachedPeriods` has been called, `update()` only downloads the periods after the last one it already has
+// instead of the whole lookback window.
+export interface PriceFeedWithCachedPeriods extends PriceFeedInterface {
+  getCachedPeriods(): CachedPricePeriod[];
+  restoreCachedPeriods(periods: CachedPricePeriod[]): void;
+}
+
+export function hasCachedPeriods(priceFeed: PriceFeedInterface): priceFeed is PriceFeedWithCachedPeriods {
+  const candidate = priceFeed as Partial<PriceFeedWithCachedPeriods>;
+  return typeof candidate.getCachedPeriods === "function" && typeof candidate.restoreCachedPeriods === "function";
+}
@@ -1,4 +1,4 @@
-import { PriceFeedInterface } from "./PriceFeedInterface";
+import { PriceFeedInterface, HistoricalPricePeriod } from "./PriceFeedInterface";
 import Web3 from "web3";
 import { BN } from "../types";
 const { toBN } = Web3.utils;
@@ -6,6 +6,7 @@ const { toBN } = Web3.utils;
 export class PriceFeedMock extends PriceFeedInterface {
   public updateCalled: number;
   public historicalPrices: (BN | null)[];
+  public historicalPricePeriods: HistoricalPricePeriod[] = [];
   private readonly uuid: string;
 
   constructor(
@@ -44,6 +45,18 @@ export class PriceFeedMock extends PriceFeedInterface {
     });
   }
 
+  // Store an array of [time, price] periods that getHistoricalPricePeriods will return.
+  public setHistoricalPricePeriods(historicalPricePeriods: [number, BN | string | number | null][]): void {
+    this.historicalPricePeriods = historicalPricePeriods.map(([time, price]) => [
+      time,
+      price !== null ? toBN(price.toString()) : price,
+    ]);
+  }
+
+  public getHistoricalPricePeriods(): HistoricalPricePeriod[] {
+    return this.historicalPricePeriods;
+  }
+
   public setHistoricalPrice(historicalPrice: BN | string | number | null): void {
     this.historicalPrice = historicalPrice !== null ? toBN(historicalPrice.toString()) : historicalPrice;
   }
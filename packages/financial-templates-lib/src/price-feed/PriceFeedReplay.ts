@@ -0,0 +1,164 @@
+// Helpers to replay a price feed's historical prices over a time range. These are used to validate new price feed
+// configs against historical data and to compare two configs side by side.
+
+import Web3 from "web3";
+import type { PriceFeedInterface } from "./PriceFeedInterface";
+
+const { toBN, toWei, fromWei } = Web3.utils;
+
+export interface ReplayPoint {
+  time: number;
+  price: string | null; // Price in the feed's decimals, or null if no price could be computed.
+  error?: string;
+}
+
+export interface ReplayGap {
+  start: number; // First timestamp without a price.
+  end: number; // Last timestamp without a price.
+  points: number;
+}
+
+export interface ReplayResult {
+  points: ReplayPoint[];
+  gaps: ReplayGap[];
+  errors: number;
+}
+
+export interface ReplayComparisonPoint {
+  time: number;
+  priceA: string | null;
+  priceB: string | null;
+  deviation: number | null; // (priceB - priceA) / priceA, or null if either price is missing.
+}
+
+export interface ReplayComparison {
+  points: ReplayComparisonPoint[];
+  stats: {
+    comparedPoints: number; // Timestamps where both feeds returned a price.
+    missingA: number; // Timestamps where only the second feed returned a price.
+    missingB: number; // Timestamps where only the first feed returned a price.
+    meanAbsDeviation: number | null;
+    maxAbsDeviation: number | null;
+    maxAbsDeviationTime: number | null;
+  };
+}
+
+// Queries priceFeed.getHistoricalPrice for every step between startTime and endTime (inclusive). The price feed should
+// have been updated with a lookback covering startTime. Errors are recorded rather than thrown.
+export async function replayPriceFeed(
+  priceFeed: PriceFeedInterface,
+  startTime: number,
+  endTime: number,
+  step: number,
+  ancillaryData?: string
+): Promise<ReplayResult> {
+  if (step <= 0) throw new Error("replayPriceFeed step must be positive");
+  if (startTime > endTime) throw new Error("replayPriceFeed startTime must not be after endTime");
+
+  const points: ReplayPoint[] = [];
+  for (let time = startTime; time <= endTime; time += step) {
+    try {
+      const price = await priceFeed.getHistoricalPrice(time, ancillaryData);
+      points.push(price ? { time, price: price.toString() } : { time, price: null, error: "null price returned" });
+    } catch (error) {
+      points.push({ time, price: null, error: _formatError(error) });
+    }
+  }
+
+  return { points, gaps: _findGaps(points), errors: points.filter((point) => point.error !== undefined).length };
+}
+
+// Joins two replays of the same time range on timestamp and computes deviation statistics of b relative to a.
+export function compareReplays(a: ReplayResult, b: ReplayResult): ReplayComparison {
+  const pricesA = Object.fromEntries(a.points.map((point) => [point.time, point.price]));
+  const pricesB = Object.fromEntries(b.points.map((point) => [point.time, point.price]));
+  const times = Array.from(new Set([...a.points.map((point) => point.time), ...b.points.map((point) => point.time)]));
+
+  const points = times
+    .sort((x, y) => x - y)
+    .map((time) => {
+      const priceA = pricesA[time] ?? null;
+      const priceB = pricesB[time] ?? null;
+      const deviation = priceA && priceB && !toBN(priceA).isZero() ? _relativeDeviation(priceA, priceB) : null;
+      return { time, priceA, priceB, deviation };
+    });
+
+  const compared = points.filter((point) => point.deviation !== null);
+  const maxPoint = compared.reduce<ReplayComparisonPoint | null>(
+    (max, point) => (!max || Math.abs(point.deviation as number) > Math.abs(max.deviation as number) ? point : max),
+    null
+  );
+
+  return {
+    points,
+    stats: {
+      comparedPoints: compared.length,
+      missingA: points.filter((point) => !point.priceA && point.priceB).length,
+      missingB: points.filter((point) => point.priceA && !point.priceB).length,
+      meanAbsDeviation:
+        compared.length > 0
+          ? compared.reduce((sum, point) => sum + Math.abs(point.deviation as number), 0) / compared.length
+          : null,
+      maxAbsDeviation: maxPoint ? Math.abs(maxPoint.deviation as number) : null,
+      maxAbsDeviationTime: maxPoint ? maxPoint.time : null,
+    },
+  };
+}
+
+// Formats a replay or comparison as CSV with one row per timestamp.
+export function replayToCsv(result: ReplayResult | ReplayComparison): string {
+  const isComparison = "stats" in result;
+  const header = isComparison ? "time,isoTime,priceA,priceB,deviation" : "time,isoTime,price,error";
+  const rows = isComparison
+    ? (result as ReplayComparison).points.map((point) => [point.time, point.priceA, point.priceB, point.deviation])
+    : (result as ReplayResult).points.map((point) => [point.time, point.price, point.error]);
+
+  return [
+    header,
+    ...rows.map(([time, ...values]) =>
+      [time, new Date(Number(time) * 1000).toISOString(), ...values.map(_escapeCsv)].join(",")
+    ),
+  ].join("\n");
+}
+
+function _relativeDeviation(priceA: string, priceB: string): number {
+  const a = toBN(priceA);
+  return Number(
+    fromWei(
+      toBN(priceB)
+        .sub(a)
+        .mul(toBN(toWei("1")))
+        .div(a)
+    )
+  );
+}
+
+// Merges consecutive points without a price into gaps.
+function _findGaps(points: ReplayPoint[]): ReplayGap[] {
+  const gaps: ReplayGap[] = [];
+  let currentGap: ReplayGap | null = null;
+  for (const point of points) {
+    if (point.price !== null) {
+      currentGap = null;
+    } else if (currentGap) {
+      currentGap.end = point.time;
+      currentGap.points++;
+    } else {
+      currentGap = { start: point.time, end: point.time, points: 1 };
+      gaps.push(currentGap);
+    }
+  }
+  return gaps;
+}
+
+// Composite price feeds throw arrays of errors, so flatten those into a single message.
+function _formatError(error: unknown): string {
+  if (Array.isArray(error)) return error.map(_formatError).join("; ");
+  return error instanceof Error ? error.message : String(error);
+}
+
+function _escapeCsv(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const stringValue = value.toString();
+  return /[",\n]/.test(stringValue) ? `"${stringValue.replace(/"/g, '""')}"` : stringValue;
+}
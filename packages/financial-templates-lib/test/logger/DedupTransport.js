@@ -0,0 +1,88 @@
+const { assert } = require("chai");
+const sinon = require("sinon");
+const winston = require("winston");
+
+const { DedupTransport } = require("../../dist/logger/DedupTransport");
+const { SpyTransport } = require("../../dist/logger/SpyTransport");
+const { waitForLogger } = require("../../dist/logger/Logger");
+const { delay } = require("../../dist/helpers/delay");
+
+describe("DedupTransport.js", function () {
+  let spy;
+  let logger;
+
+  const createLogger = (dedupOptions, level = "debug") => {
+    spy = sinon.spy();
+    logger = winston.createLogger({
+      level: "debug",
+      transports: [new DedupTransport(new SpyTransport({ level }, { spy }), dedupOptions)],
+    });
+    logger.isFlushed = true;
+  };
+
+  afterEach(function () {
+    logger.close();
+  });
+
+  it("Groups repeated logs into a summary", async function () {
+    createLogger({ windowSeconds: 0.1 });
+    for (let i = 0; i < 3; i++) logger.warn({ at: "PriceFeed", message: "Price feed down", mrkdwn: `attempt ${i}` });
+    logger.warn({ at: "PriceFeed", message: "Other message" });
+    logger.error({ at: "PriceFeed", message: "Price feed down" });
+
+    // Only the first of each level, `at` and `message` is forwarded straight away.
+    assert.equal(spy.callCount, 3);
+    assert.equal(spy.getCall(0).lastArg.mrkdwn, "attempt 0");
+
+    // The summary holds the latest repeat and the number of repeats.
+    await delay(0.2);
+    assert.equal(spy.callCount, 4);
+    const summary = spy.getCall(3).lastArg;
+    assert.equal(summary.message, "Price feed down");
+    assert.equal(summary.level, "warn");
+    assert.equal(summary.duplicateCount, 2);
+    assert.equal(summary.mrkdwn, "attempt 2\n_Repeated 2 more times in the last 0.1 seconds._");
+
+    // A new window forwards the log again.
+    logger.warn({ at: "PriceFeed", message: "Price feed down" });
+    assert.equal(spy.callCount, 5);
+  });
+
+  it("Only groups logs the wrapped transport accepts", async function () {
+    createLogger({ windowSeconds: 60 }, "warn");
+    logger.info({ at: "Bot", message: "Polling" });
+    logger.info({ at: "Bot", message: "Polling" });
+    assert.equal(spy.callCount, 0);
+
+    await waitForLogger(logger);
+    assert.equal(spy.callCount, 0);
+  });
+
+  it("Rate limits forwarded logs", async function () {
+    createLogger({ windowSeconds: 60, maxLogsPerWindow: 2 });
+    logger.info({ at: "Bot", message: "First", "bot-identifier": "test-bot" });
+    logger.info({ at: "Bot", message: "Second", "bot-identifier": "test-bot" });
+    logger.info({ at: "Bot", message: "Third", "bot-identifier": "test-bot" });
+    logger.error({ at: "Bot", message: "Fourth", "bot-identifier": "test-bot" });
+    assert.equal(spy.callCount, 2);
+
+    // Waiting for the logger sends the rate limit summary at the most severe level dropped.
+    await waitForLogger(logger);
+    assert.equal(spy.callCount, 3);
+    const summary = spy.getCall(2).lastArg;
+    assert.equal(summary.level, "error");
+    assert.equal(summary.droppedCount, 2);
+    assert.equal(summary["bot-identifier"], "test-bot");
+  });
+
+  it("Sends pending summaries when waiting for the logger", async function () {
+    createLogger({ windowSeconds: 60 });
+    logger.error({ at: "Bot", message: "RPC down" });
+    logger.error({ at: "Bot", message: "RPC down" });
+    assert.equal(spy.callCount, 1);
+
+    await waitForLogger(logger);
+    assert.equal(spy.callCount, 2);
+    assert.equal(spy.getCall(1).lastArg.duplicateCount, 1);
+  });
+});
@@ -0,0 +1,138 @@
+const { assert } = require("chai");
+const fs = require("fs");
+const http = require("http");
+const os = require("os");
+const path = require("path");
+const winston = require("winston");
+
+const { MetricsTransport } = require("../../dist/logger/MetricsTransport");
+
+describe("MetricsTransport.js", function () {
+  let transport;
+  let logger;
+  let textfilePath;
+
+  beforeEach(function () {
+    textfilePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "metrics-")), "bot.prom");
+    transport = new MetricsTransport(
+      { level: "debug" },
+      { textfilePath, gauges: [{ name: "collateral_balance", field: "collateralBalance", at: "Monitor" }] }
+    );
+    logger = winston.createLogger({
+      level: "debug",
+      format: winston.format.combine(
+        winston.format((info) => ({ ...info, "bot-identifier": "test-bot" }))(),
+        winston.format.json()
+      ),
+      transports: [transport],
+    });
+  });
+
+  afterEach(function () {
+    transport.close();
+  });
+
+  // Winston transports log asynchronously.
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it("Counts log entries and transactions", async function () {
+    logger.info({ at: "Liquidator", message: "Position has been liquidated", tx: "0x1234" });
+    logger.info({ at: "Liquidator", message: "Position has been liquidated", tx: "0x5678" });
+    logger.error({ at: "Liquidator", message: "Failed to liquidate position" });
+    await flush();
+
+    const text = transport.getMetricsText();
+    assert.include(text, "# TYPE uma_bot_log_messages_total counter");
+    assert.include(text, 'uma_bot_log_messages_total{bot="test-bot",level="info",at="Liquidator"} 2');
+    assert.include(text, 'uma_bot_log_messages_total{bot="test-bot",level="error",at="Liquidator"} 1');
+    assert.notInclude(text, "message=");
+    assert.include(text, 'uma_bot_transactions_total{bot="test-bot",level="info",at="Liquidator"} 2');
+    assert.notInclude(text, 'uma_bot_transactions_total{bot="test-bot",level="error"');
+    assert.match(text, /uma_bot_last_log_timestamp_seconds\{bot="test-bot",at="Liquidator"\} \d+/);
+  });
+
+  it("Tracks configured gauges", async function () {
+    logger.debug({ at: "Monitor", message: "Checking balance", collateralBalance: "100.5" });
+    logger.debug({ at: "Monitor", message: "Checking balance", collateralBalance: "90" });
+    logger.debug({ at: "Liquidator", message: "Checking balance", collateralBalance: "1" });
+    logger.debug({ at: "Monitor", message: "Checking balance", collateralBalance: "not a number" });
+    await flush();
+
+    const text = transport.getMetricsText();
+    assert.include(text, "# TYPE uma_bot_collateral_balance gauge");
+    assert.include(text, 'uma_bot_collateral_balance{bot="test-bot",at="Monitor"} 90');
+    assert.notInclude(text, 'uma_bot_collateral_balance{bot="test-bot",at="Liquidator"}');
+  });
+
+  it("Escapes label values", async function () {
+    logger.info({ at: 'Said "hi"\nand left\\', message: "Escaping" });
+    await flush();
+
+    assert.include(transport.getMetricsText(), 'at="Said \\"hi\\"\\nand left\\\\"} 1');
+  });
+
+  it("Writes the metrics to a textfile", async function () {
+    logger.info({ at: "Liquidator", message: "Position has been liquidated", tx: "0x1234" });
+    await flush();
+
+    transport.writeTextfile();
+    assert.equal(fs.readFileSync(textfilePath, "utf8"), transport.getMetricsText());
+  });
+
+  describe("Metrics server", function () {
+    const port = 19464;
+    const listen = (server) =>
+      new Promise((resolve, reject) => server.once("error", reject).listen(port, () => resolve(server)));
+    const close = (server) => new Promise((resolve) => server.close(resolve));
+    const fetchMetrics = () =>
+      new Promise((resolve, reject) =>
+        http
+          .get(`http://localhost:${port}/metrics`, (response) => {
+            let body = "";
+            response.on("data", (chunk) => (body += chunk)).on("end", () => resolve(body));
+          })
+          .on("error", reject)
+      );
+    const createLogger = (loggerTransport) => winston.createLogger({ level: "debug", transports: [loggerTransport] });
+
+    it("Starts one server per port on the first log entry", async function () {
+      const transports = [new MetricsTransport({}, { port }), new MetricsTransport({}, { port })];
+
+      // Nothing listens on the port until an entry is logged.
+      await close(await listen(http.createServer()));
+
+      try {
+        createLogger(transports[0]).info({ at: "Liquidator", message: "Liquidated" });
+        createLogger(transports[1]).info({ at: "Liquidator", message: "Liquidated" });
+        await flush();
+
+        // Both transports count into the metrics of the same server.
+        assert.include(await fetchMetrics(), 'uma_bot_log_messages_total{bot="",level="info",at="Liquidator"} 2');
+      } finally {
+        transports.forEach((metricsTransport) => metricsTransport.close());
+      }
+
+      // The server is closed with the last transport.
+      await flush();
+      await close(await listen(http.createServer()));
+    });
+
+    it("Does not throw if the port is in use", async function () {
+      const blockingServer = await listen(http.createServer());
+      const metricsTransport = new MetricsTransport({}, { port });
+      const consoleError = console.error;
+      const errors = [];
+      console.error = (...args) => errors.push(args);
+      try {
+        createLogger(metricsTransport).info({ at: "Liquidator", message: "Liquidated" });
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      } finally {
+        console.error = consoleError;
+        metricsTransport.close();
+        await close(blockingServer);
+      }
+      assert.equal(errors.length, 1);
+      assert.equal(errors[0][1].code, "EADDRINUSE");
+    });
+  });
+});
@@ -0,0 +1,122 @@
+const Web3 = require("web3");
+const { assert } = require("chai");
+const { utf8ToHex } = Web3.utils;
+
+const {
+  resolvePriceFeedConfigFromAncillaryData,
+  getAncillaryPriceFeedParams,
+  DEFAULT_ANCILLARY_EXCHANGES,
+} = require("../../dist/price-feed/AncillaryDataPriceFeedResolver");
+
+describe("AncillaryDataPriceFeedResolver.js", function () {
+  const address = "0x0000000000000000000000000000000000000001";
+  const policy = {
+    allowedSources: ["cryptowatch", "coinmarketcap", "tradermade", "coingecko", "uniswap", "chainlink"],
+    allowedAddresses: [address],
+    maxLookback: 7200,
+  };
+
+  it("Parses pair params from ancillary data", async function () {
+    const ancillaryData = utf8ToHex('base:ETH,quote:USD,exchanges:"kraken, binance",twapLength:600,invertPrice:true');
+    assert.deepEqual(getAncillaryPriceFeedParams(ancillaryData), {
+      base: "ETH",
+      quote: "USD",
+      source: "cryptowatch",
+      exchanges: ["kraken", "binance"],
+      address: undefined,
+      twapLength: 600,
+      lookback: undefined,
+      invertPrice: true,
+    });
+
+    // Ancillary data that does not name a pair or cannot be parsed is ignored.
+    assert.isNull(getAncillaryPriceFeedParams(utf8ToHex("q:some question")));
+    assert.isNull(getAncillaryPriceFeedParams(utf8ToHex("base:ETH")));
+    assert.isNull(getAncillaryPriceFeedParams("0xff"));
+  });
+
+  it("Builds a cryptowatch medianizer by default", async function () {
+    const config = resolvePriceFeedConfigFromAncillaryData("GENERIC_PAIR", utf8ToHex("base:UNI,quote:USD"), policy);
+    assert.equal(config.type, "medianizer");
+    assert.equal(config.minFeedsRequired, 2);
+    assert.equal(config.lookback, 7200);
+    assert.equal(config.priceFeedDecimals, 18);
+    assert.deepEqual(
+      config.medianizedFeeds.map((feed) => [feed.type, feed.exchange, feed.pair]),
+      DEFAULT_ANCILLARY_EXCHANGES.map((exchange) => ["cryptowatch", exchange, "uniusd"])
+    );
+
+    // A single exchange does not need a medianizer.
+    const singleExchangeConfig = resolvePriceFeedConfigFromAncillaryData(
+      "GENERIC_PAIR",
+      utf8ToHex("base:SUSHI,quote:USD,exchanges:kraken,lookback:3600"),
+      policy
+    );
+    assert.equal(singleExchangeConfig.type, "cryptowatch");
+    assert.equal(singleExchangeConfig.exchange, "kraken");
+    assert.equal(singleExchangeConfig.lookback, 3600);
+  });
+
+  it("Builds configs for other sources", async function () {
+    const resolve = (ancillaryString) =>
+      resolvePriceFeedConfigFromAncillaryData("GENERIC_PAIR", utf8ToHex(ancillaryString), policy);
+
+    const cmcConfig = resolve("base:eth,quote:usd,source:coinmarketcap");
+    assert.equal(cmcConfig.type, "coinmarketcap");
+    assert.equal(cmcConfig.symbol, "ETH");
+    assert.equal(cmcConfig.quoteCurrency, "USD");
+
+    assert.equal(resolve("base:eur,quote:usd,source:tradermade").pair, "EURUSD");
+    assert.equal(resolve(`base:UMA,quote:USD,source:coingecko,address:${address}`).contractAddress, address);
+    assert.equal(resolve(`base:UMA,quote:ETH,source:uniswap,address:${address}`).uniswapAddress, address);
+    assert.equal(resolve(`base:ETH,quote:USD,source:chainlink,address:${address}`).aggregatorAddress, address);
+
+    // On-chain sources need an address and unknown sources are rejected.
+    assert.throws(() => resolve("base:ETH,quote:USD,source:chainlink"));
+    assert.throws(() => resolve("base:ETH,quote:USD,source:unknown"));
+  });
+
+  it("Defers to default configs", async function () {
+    assert.isNull(resolvePriceFeedConfigFromAncillaryData("ETH/BTC", utf8ToHex("base:SUSHI,quote:USD"), policy));
+  });
+
+  it("Uses the identifier's precision", async function () {
+    const config = resolvePriceFeedConfigFromAncillaryData(
+      "TEST8DECIMALSANCIL",
+      utf8ToHex("base:BTC,quote:USD"),
+      policy
+    );
+    assert.equal(config.priceFeedDecimals, 8);
+  });
+
+  it("Rejects configs that the policy does not allow", async function () {
+    const resolve = (ancillaryString, resolvePolicy) =>
+      resolvePriceFeedConfigFromAncillaryData("GENERIC_PAIR", utf8ToHex(ancillaryString), resolvePolicy);
+    const cryptowatchOnly = { allowedSources: ["cryptowatch"] };
+
+    assert.throws(() => resolve("base:ETH,quote:USD,source:coinmarketcap", cryptowatchOnly), /source/);
+    assert.throws(() => resolve("base:ETH,quote:USD,exchanges:attacker-exchange", cryptowatchOnly), /exchange/);
+    assert.throws(() => resolve("base:ETH,quote:USD,invertPrice:true", cryptowatchOnly), /invertPrice/);
+    assert.throws(() => resolve("base:ETH,quote:USD,lookback:99999999", cryptowatchOnly), /lookback/);
+    assert.throws(() => resolve("base:ETH,quote:USD,twapLength:99999999", cryptowatchOnly), /twapLength/);
+    assert.throws(() => resolve("base:ETH,quote:USD,twapLength:-600", cryptowatchOnly), /twapLength/);
+    assert.throws(() => resolve("base:ETH,quote:USD,twapLength:abc", cryptowatchOnly), /twapLength/);
+    assert.throws(
+      () => resolve("base:ETH,quote:USD,source:uniswap,address:0x0000000000000000000000000000000000000002", policy),
+      /address/
+    );
+
+    // Addresses are matched case insensitively and allowed options pass.
+    assert.equal(resolve(`base:UMA,quote:ETH,source:uniswap,address:${address.toUpperCase()}`, policy).type, "uniswap");
+    assert.equal(
+      resolve("base:ETH,quote:USD,invertPrice:true", { ...cryptowatchOnly, allowInvertPrice: true }).invertPrice,
+      true
+    );
+    assert.equal(resolve("base:ETH,quote:USD,exchanges:kraken,twapLength:0", cryptowatchOnly).twapLength, 0);
+    assert.equal(
+      resolve("base:ETH,quote:USD,exchanges:kraken,twapLength:7200", { ...cryptowatchOnly, maxTwapLength: 7200 })
+        .twapLength,
+      7200
+    );
+  });
+});
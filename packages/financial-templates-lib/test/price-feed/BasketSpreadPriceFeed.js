@@ -517,4 +517,39 @@ describe("BasketSpreadPriceFeed.js", function () {
     }
     assert.isTrue(didThrow);
   });
+
+  it("Historical price periods", async function () {
+    const [baselineFeed, experimentalFeed, denominatorFeed] = [
+      new PriceFeedMock(),
+      new PriceFeedMock(),
+      new PriceFeedMock(),
+    ];
+    baselineFeed.setHistoricalPricePeriods([
+      [100, toWei("1")],
+      [200, toWei("1.2")],
+    ]);
+    experimentalFeed.setHistoricalPricePeriods([[100, toWei("1.5")]]);
+    denominatorFeed.setHistoricalPricePeriods([
+      [150, toWei("2")],
+      [200, toWei("4")],
+    ]);
+
+    basketSpreadPriceFeed = new BasketSpreadPriceFeed(
+      web3,
+      dummyLogger,
+      [baselineFeed],
+      [experimentalFeed],
+      denominatorFeed
+    );
+
+    // (experimental - baseline + 1) / denominator at each of the first baseline feed's timestamps, using the closest
+    // price of every other constituent in either direction.
+    assert.deepEqual(
+      basketSpreadPriceFeed.getHistoricalPricePeriods().map(([time, price]) => [time, price.toString()]),
+      [
+        [100, toWei("0.75")],
+        [200, toWei("0.325")],
+      ]
+    );
+  });
 });
@@ -0,0 +1,84 @@
+const { assert } = require("chai");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const winston = require("winston");
+const sinon = require("sinon");
+
+const { MemoryCacheStore, FileCacheStore } = require("../../dist/price-feed/CacheStore");
+const { SpyTransport, lastSpyLogLevel, lastSpyLogIncludes } = require("../../dist/logger/SpyTransport");
+
+describe("CacheStore.js", function () {
+  let mockTime;
+  const now = () => mockTime;
+
+  beforeEach(async function () {
+    mockTime = 1000;
+  });
+
+  it("MemoryCacheStore: get, set, delete and clear", async function () {
+    const store = new MemoryCacheStore(now);
+
+    assert.isUndefined(await store.get("a"));
+    await store.set("a", { price: "1" });
+    await store.set("b:1", "2");
+    await store.set("b:2", "3");
+    assert.deepEqual(await store.get("a"), { price: "1" });
+
+    await store.delete("a");
+    assert.isUndefined(await store.get("a"));
+
+    // Clearing a prefix only removes matching keys.
+    await store.clear("b:");
+    assert.isUndefined(await store.get("b:1"));
+    assert.isUndefined(await store.get("b:2"));
+  });
+
+  it("MemoryCacheStore: entries expire after their ttl", async function () {
+    const store = new MemoryCacheStore(now);
+
+    await store.set("expiring", "1", 60);
+    await store.set("permanent", "2");
+
+    mockTime += 59;
+    assert.equal(await store.get("expiring"), "1");
+
+    mockTime += 1;
+    assert.isUndefined(await store.get("expiring"));
+    assert.equal(await store.get("permanent"), "2");
+  });
+
+  it("FileCacheStore: entries persist across instances", async function () {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "cache-store-")), "nested", "cache.json");
+
+    const store = new FileCacheStore(filePath, now);
+    assert.isUndefined(await store.get("a"));
+    await store.set("a", "1");
+    await store.set("b", "2", 60);
+
+    // A new instance, e.g. after a bot restart, reads the same entries back.
+    mockTime += 60;
+    const restartedStore = new FileCacheStore(filePath, now);
+    assert.equal(await restartedStore.get("a"), "1");
+    assert.isUndefined(await restartedStore.get("b"));
+
+    await restartedStore.clear();
+    assert.isUndefined(await new FileCacheStore(filePath, now).get("a"));
+  });
+
+  it("FileCacheStore: corrupt files are replaced", async function () {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "cache-store-")), "cache.json");
+    fs.writeFileSync(filePath, "not json");
+    const spy = sinon.spy();
+    const logger = winston.createLogger({ level: "debug", transports: [new SpyTransport({ level: "debug" }, { spy })] });
+
+    // The store starts empty with a warning rather than failing every call.
+    const store = new FileCacheStore(filePath, now, logger);
+    assert.isUndefined(await store.get("a"));
+    assert.equal(lastSpyLogLevel(spy), "warn");
+    assert.isTrue(lastSpyLogIncludes(spy, "Could not load cache file"));
+
+    await store.set("a", "1");
+    assert.equal(await new FileCacheStore(filePath, now).get("a"), "1");
+  });
+});
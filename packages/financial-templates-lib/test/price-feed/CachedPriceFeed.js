@@ -0,0 +1,132 @@
+const Web3 = require("web3");
+const { assert } = require("chai");
+const winston = require("winston");
+const { toWei, toBN } = Web3.utils;
+
+const { CachedPriceFeed } = require("../../dist/price-feed/CachedPriceFeed");
+const { MemoryCacheStore } = require("../../dist/price-feed/CacheStore");
+const { PriceFeedMock } = require("../../dist/price-feed/PriceFeedMock");
+const { CryptoWatchPriceFeed } = require("../../dist/price-feed/CryptoWatchPriceFeed");
+const { NetworkerMock } = require("../../dist/price-feed/NetworkerMock");
+
+describe("CachedPriceFeed.js", function () {
+  let priceFeedMock;
+  let store;
+  let dummyLogger;
+  let cachedPriceFeed;
+
+  const currentTime = 100000;
+  const getTime = async () => currentTime;
+  const minAge = 3600;
+
+  beforeEach(async function () {
+    //                            currentPrice     historicalPrice   lastUpdatedTime
+    priceFeedMock = new PriceFeedMock(toBN(toWei("1")), toBN(toWei("2")), 500);
+    store = new MemoryCacheStore();
+    dummyLogger = winston.createLogger({ level: "info", transports: [new winston.transports.Console()] });
+    cachedPriceFeed = new CachedPriceFeed(dummyLogger, priceFeedMock, store, "mock-feed", getTime, undefined, minAge);
+  });
+
+  it("Passes through the wrapped feed", async function () {
+    await cachedPriceFeed.update();
+    assert.equal(priceFeedMock.updateCalled, 1);
+    assert.equal(cachedPriceFeed.getCurrentPrice().toString(), toWei("1"));
+    assert.equal(cachedPriceFeed.getLastUpdateTime(), 500);
+    assert.equal(cachedPriceFeed.getPriceFeedDecimals(), 18);
+    assert.equal(cachedPriceFeed.getLookback(), 3600);
+
+    priceFeedMock.setHistoricalPricePeriods([[100, toWei("2")]]);
+    assert.deepEqual(cachedPriceFeed.getHistoricalPricePeriods(), [[100, toBN(toWei("2"))]]);
+    const unsupportedFeed = { ...new PriceFeedMock(), getHistoricalPricePeriods: undefined };
+    const unsupportedCachedFeed = new CachedPriceFeed(dummyLogger, unsupportedFeed, store, "mock-feed", getTime);
+    assert.isUndefined(unsupportedCachedFeed.getHistoricalPricePeriods);
+  });
+
+  it("Caches old historical prices", async function () {
+    const oldTime = currentTime - minAge;
+    assert.equal((await cachedPriceFeed.getHistoricalPrice(oldTime)).toString(), toWei("2"));
+
+    // Later changes to the wrapped feed do not affect the cached price.
+    priceFeedMock.setHistoricalPrice(toWei("3"));
+    assert.equal((await cachedPriceFeed.getHistoricalPrice(oldTime)).toString(), toWei("2"));
+
+    // Prices are keyed by ancillary data too.
+    assert.equal((await cachedPriceFeed.getHistoricalPrice(oldTime, "0x1234")).toString(), toWei("3"));
+
+    // A fresh feed using the same store, e.g. after a restart, uses the cached price.
+    const restartedPriceFeed = new CachedPriceFeed(dummyLogger, new PriceFeedMock(), store, "mock-feed", getTime);
+    assert.equal((await restartedPriceFeed.getHistoricalPrice(oldTime)).toString(), toWei("2"));
+
+    // Invalidating the cache forces the price to be recomputed.
+    await cachedPriceFeed.invalidate();
+    assert.equal((await cachedPriceFeed.getHistoricalPrice(oldTime)).toString(), toWei("3"));
+  });
+
+  it("Does not cache recent prices or errors", async function () {
+    const recentTime = currentTime - minAge + 1;
+    assert.equal((await cachedPriceFeed.getHistoricalPrice(recentTime)).toString(), toWei("2"));
+    priceFeedMock.setHistoricalPrice(toWei("3"));
+    assert.equal((await cachedPriceFeed.getHistoricalPrice(recentTime)).toString(), toWei("3"));
+
+    priceFeedMock.setHistoricalPrice(null);
+    assert.isTrue(await cachedPriceFeed.getHistoricalPrice(currentTime - minAge).catch(() => true));
+    assert.deepEqual(store.entries, {});
+  });
+
+  it("Persists OHLC periods and only downloads the gap after a restart", async function () {
+    let mockTime = 1588376548;
+    const networker = new NetworkerMock();
+    const createFeed = () =>
+      new CachedPriceFeed(
+        dummyLogger,
+        new CryptoWatchPriceFeed(dummyLogger, new Web3(), "", "exchange", "pair", 600, networker, () => mockTime, 60),
+        store,
+        "cryptowatch-feed",
+        getTime
+      );
+
+    networker.getJsonReturns = [
+      {
+        result: {
+          60: [
+            [1588376400, 1.1, 1.7, 0.5, 1.2, 0, 0],
+            [1588376460, 1.2, 1.8, 0.6, 1.3, 0, 0],
+            [1588376520, 1.3, 1.9, 0.7, 1.4, 0, 0],
+          ],
+        },
+      },
+      { result: { price: 1.5 } },
+    ];
+    await createFeed().update();
+    // The first update downloads the whole lookback window.
+    assert.include(networker.getJsonInputs[1], "after=1588375920");
+    assert.equal(store.entries["cryptowatch-feed:periods"].value.length, 3);
+
+    // After a restart, only the periods from the open of the last cached period are downloaded and merged.
+    mockTime += 60;
+    networker.getJsonReturns = [
+      {
+        result: {
+          60: [
+            [1588376520, 1.3, 1.9, 0.7, 1.45, 0, 0],
+            [1588376580, 1.45, 1.9, 0.7, 1.5, 0, 0],
+          ],
+        },
+      },
+      { result: { price: 1.5 } },
+    ];
+    const restartedFeed = createFeed();
+    await restartedFeed.update();
+    assert.include(networker.getJsonInputs[1], "after=1588376460");
+    assert.deepEqual(
+      restartedFeed.getHistoricalPricePeriods().map(([time, price]) => [time, price.toString()]),
+      [
+        [1588376400, toWei("1.2")],
+        [1588376460, toWei("1.3")],
+        [1588376520, toWei("1.45")],
+        [1588376580, toWei("1.5")],
+      ]
+    );
+    assert.equal(store.entries["cryptowatch-feed:periods"].value.length, 4);
+  });
+});
@@ -0,0 +1,55 @@
+const { assert } = require("chai");
+const winston = require("winston");
+
+const { CachingNetworker } = require("../../dist/price-feed/CachingNetworker");
+const { MemoryCacheStore } = require("../../dist/price-feed/CacheStore");
+const { NetworkerMock } = require("../../dist/price-feed/NetworkerMock");
+
+describe("CachingNetworker.js", function () {
+  let networkerMock;
+  let store;
+  let dummyLogger;
+  let mockTime;
+
+  beforeEach(async function () {
+    mockTime = 1000;
+    networkerMock = new NetworkerMock();
+    store = new MemoryCacheStore(() => mockTime);
+    dummyLogger = winston.createLogger({ level: "info", transports: [new winston.transports.Console()] });
+  });
+
+  it("Serves repeated requests from the cache until the ttl expires", async function () {
+    const networker = new CachingNetworker(dummyLogger, networkerMock, store, 60, ["example\\.com/prices"]);
+    networkerMock.getJsonReturns = [{ price: 1 }, { price: 2 }];
+
+    assert.deepEqual(await networker.getJson("https://example.com/prices?apiKey=secret"), { price: 1 });
+    assert.deepEqual(await networker.getJson("https://example.com/prices?apiKey=secret"), { price: 1 });
+    assert.equal(networkerMock.getJsonInputs.length, 1);
+
+    // Urls are not persisted in plain text since they can include api keys.
+    assert.isFalse(JSON.stringify(store.entries).includes("secret"));
+
+    mockTime += 60;
+    assert.deepEqual(await networker.getJson("https://example.com/prices?apiKey=secret"), { price: 2 });
+    assert.equal(networkerMock.getJsonInputs.length, 2);
+  });
+
+  it("Does not cache unmatched urls or non GET requests", async function () {
+    const networker = new CachingNetworker(dummyLogger, networkerMock, store, 60, [/history/]);
+    networkerMock.getJsonReturns = [{ price: 1 }, { price: 2 }, { price: 3 }, { price: 4 }];
+
+    assert.deepEqual(await networker.getJson("https://example.com/latest"), { price: 1 });
+    assert.deepEqual(await networker.getJson("https://example.com/latest"), { price: 2 });
+    assert.deepEqual(await networker.getJson("https://example.com/history", { method: "POST" }), { price: 3 });
+    assert.deepEqual(await networker.getJson("https://example.com/history", { method: "POST" }), { price: 4 });
+  });
+
+  it("Invalidates cached responses", async function () {
+    const networker = new CachingNetworker(dummyLogger, networkerMock, store, 60, [/history/]);
+    networkerMock.getJsonReturns = [{ price: 1 }, { price: 2 }];
+
+    await networker.getJson("https://example.com/history");
+    await networker.invalidate();
+    assert.deepEqual(await networker.getJson("https://example.com/history"), { price: 2 });
+  });
+});
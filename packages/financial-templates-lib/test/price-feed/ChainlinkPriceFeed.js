@@ -0,0 +1,145 @@
+const Web3 = require("web3");
+const { assert } = require("chai");
+const winston = require("winston");
+const sinon = require("sinon");
+const { toWei, toBN } = Web3.utils;
+
+const { ChainlinkPriceFeed } = require("../../dist/price-feed/ChainlinkPriceFeed");
+const { SpyTransport } = require("../../dist/logger/SpyTransport");
+
+// Round ids of the first aggregator phase are (1 << 64) | aggregatorRoundId.
+const PHASE_OFFSET = toBN(2).pow(toBN(64));
+const roundId = (aggregatorRoundId) => PHASE_OFFSET.addn(aggregatorRoundId).toString();
+
+// Minimal stand-in for a web3 contract wrapping a Chainlink aggregator with 8 decimals.
+class AggregatorMock {
+  constructor() {
+    this.rounds = []; // { answer, updatedAt } indexed by aggregatorRoundId - 1.
+    this.getRoundDataCalls = 0;
+    this.methods = {
+      decimals: () => ({ call: async () => "8" }),
+      latestRoundData: () => ({ call: async () => this._roundData(this.rounds.length) }),
+      getRoundData: (id) => ({
+        call: async () => {
+          this.getRoundDataCalls++;
+          return this._roundData(toBN(id).sub(PHASE_OFFSET).toNumber());
+        },
+      }),
+    };
+  }
+
+  addRound(answer, updatedAt) {
+    this.rounds.push({ answer: toBN(answer).mul(toBN("100000000")).toString(), updatedAt: updatedAt.toString() });
+  }
+
+  _roundData(aggregatorRoundId) {
+    const round = this.rounds[aggregatorRoundId - 1];
+    if (!round) throw new Error("No data present");
+    return { roundId: roundId(aggregatorRoundId), ...round };
+  }
+}
+
+describe("ChainlinkPriceFeed.js", function () {
+  let aggregatorMock;
+  let web3;
+  let logger;
+  let mockTime;
+
+  const getTime = async () => mockTime;
+
+  beforeEach(async function () {
+    aggregatorMock = new AggregatorMock();
+    web3 = { eth: { Contract: function () { return aggregatorMock; } } }; // prettier-ignore
+    logger = winston.createLogger({
+      level: "debug",
+      transports: [new SpyTransport({ level: "debug" }, { spy: sinon.spy() })],
+    });
+
+    mockTime = 10000;
+    aggregatorMock.addRound(10, 1000);
+    aggregatorMock.addRound(11, 6000);
+    aggregatorMock.addRound(12, 8000);
+    aggregatorMock.addRound(13, 9500);
+  });
+
+  it("Returns current and historical prices scaled to the price feed decimals", async function () {
+    const priceFeed = new ChainlinkPriceFeed(logger, web3, "0x1", 3600, getTime);
+
+    assert.equal(priceFeed.getCurrentPrice(), null);
+    assert.equal(priceFeed.getLastUpdateTime(), null);
+
+    await priceFeed.update();
+    assert.equal(priceFeed.getCurrentPrice().toString(), toWei("13"));
+    assert.equal(priceFeed.getLastUpdateTime(), 10000);
+    assert.equal(priceFeed.getPriceFeedDecimals(), 18);
+    assert.equal(priceFeed.getLookback(), 3600);
+
+    // The round updated before the start of the lookback window still prices the start of the window.
+    assert.equal((await priceFeed.getHistoricalPrice(6400)).toString(), toWei("11"));
+    assert.equal((await priceFeed.getHistoricalPrice(8000)).toString(), toWei("12"));
+    assert.equal((await priceFeed.getHistoricalPrice(9999)).toString(), toWei("13"));
+
+    // Times before the lookback window are rejected.
+    try {
+      await priceFeed.getHistoricalPrice(6000);
+      assert.fail("Expected an error");
+    } catch (error) {
+      assert.include(error.message, "lookback window");
+    }
+
+    // Rounds before the lookback window are not fetched.
+    assert.equal(aggregatorMock.getRoundDataCalls, 2);
+    assert.deepEqual(
+      priceFeed.getHistoricalPricePeriods().map(([time, price]) => [time, price.toString()]),
+      [
+        [6000, toWei("11")],
+        [8000, toWei("12")],
+        [9500, toWei("13")],
+      ]
+    );
+  });
+
+  it("Only fetches new rounds on subsequent updates", async function () {
+    const priceFeed = new ChainlinkPriceFeed(logger, web3, "0x1", 3600, getTime);
+    await priceFeed.update();
+    assert.equal(aggregatorMock.getRoundDataCalls, 2);
+
+    // Updates within minTimeBetweenUpdates are skipped.
+    mockTime = 10030;
+    aggregatorMock.addRound(14, 10020);
+    await priceFeed.update();
+    assert.equal(priceFeed.getCurrentPrice().toString(), toWei("13"));
+
+    mockTime = 10100;
+    aggregatorMock.addRound(15, 10090);
+    await priceFeed.update();
+    assert.equal(priceFeed.getCurrentPrice().toString(), toWei("15"));
+    assert.equal((await priceFeed.getHistoricalPrice(10050)).toString(), toWei("14"));
+
+    // Only the new round before the latest one was requested.
+    assert.equal(aggregatorMock.getRoundDataCalls, 3);
+  });
+
+  it("Stops at the start of the aggregator's history", async function () {
+    const priceFeed = new ChainlinkPriceFeed(logger, web3, "0x1", 20000, getTime);
+    await priceFeed.update();
+
+    assert.equal((await priceFeed.getHistoricalPrice(1000)).toString(), toWei("10"));
+    try {
+      await priceFeed.getHistoricalPrice(999);
+      assert.fail("Expected an error");
+    } catch (error) {
+      assert.include(error.message, "missing historical price");
+    }
+  });
+
+  it("Supports inverted prices and custom decimals", async function () {
+    const priceFeed = new ChainlinkPriceFeed(logger, web3, "0x1", 3600, getTime, 60, true, 6);
+    await priceFeed.update();
+
+    // 1 / 13 with 6 decimals.
+    assert.equal(priceFeed.getCurrentPrice().toString(), "76923");
+    assert.equal((await priceFeed.getHistoricalPrice(8000)).toString(), "83333");
+    assert.equal(priceFeed.getPriceFeedDecimals(), 6);
+  });
+});
@@ -31,10 +31,14 @@ const {
 } = require("../../dist/price-feed/CreatePriceFeed");
 const { CryptoWatchPriceFeed } = require("../../dist/price-feed/CryptoWatchPriceFeed");
 const { UniswapV2PriceFeed, UniswapV3PriceFeed } = require("../../dist/price-feed/UniswapPriceFeed");
+const { ChainlinkPriceFeed } = require("../../dist/price-feed/ChainlinkPriceFeed");
 const { BalancerPriceFeed } = require("../../dist/price-feed/BalancerPriceFeed");
 const { BasketSpreadPriceFeed } = require("../../dist/price-feed/BasketSpreadPriceFeed");
 const { MedianizerPriceFeed } = require("../../dist/price-feed/MedianizerPriceFeed");
 const { FallBackPriceFeed } = require("../../dist/price-feed/FallBackPriceFeed");
+const { GuardedPriceFeed } = require("../../dist/price-feed/GuardedPriceFeed");
+const { CachedPriceFeed } = require("../../dist/price-feed/CachedPriceFeed");
+const { CachingNetworker } = require("../../dist/price-feed/CachingNetworker");
 const { CoinMarketCapPriceFeed } = require("../../dist/price-feed/CoinMarketCapPriceFeed");
 const { CoinGeckoPriceFeed } = require("../../dist/price-feed/CoinGeckoPriceFeed");
 const { NetworkerMock } = require("../../dist/price-feed/NetworkerMock");
@@ -353,6 +357,32 @@ describe("CreatePriceFeed.js", function () {
     );
   });
 
+  it("Valid Chainlink config", async function () {
+    const aggregatorAddress = web3.utils.randomHex(20);
+    const config = { type: "chainlink", aggregatorAddress, lookback, invertPrice: true, priceFeedDecimals: 8 };
+
+    const validChainlinkFeed = await createPriceFeed(logger, web3, networker, getTime, config);
+
+    assert.isTrue(validChainlinkFeed instanceof ChainlinkPriceFeed);
+    assert.equal(validChainlinkFeed.aggregator.options.address.toLowerCase(), aggregatorAddress);
+    assert.equal(validChainlinkFeed.getLookback(), lookback);
+    assert.equal(validChainlinkFeed.getPriceFeedDecimals(), 8);
+    assert.isTrue(validChainlinkFeed.invertPrice);
+  });
+
+  it("Invalid Chainlink config", async function () {
+    const validConfig = { type: "chainlink", aggregatorAddress: web3.utils.randomHex(20), lookback };
+
+    assert.equal(
+      await createPriceFeed(logger, web3, networker, getTime, { ...validConfig, aggregatorAddress: undefined }),
+      null
+    );
+    assert.equal(
+      await createPriceFeed(logger, web3, networker, getTime, { ...validConfig, lookback: undefined }),
+      null
+    );
+  });
+
   it("Default Uniswap Config", async function () {
     // Given the collateral token is 0x1, the , it should always come first, meaning the config should always be inverted.
     const collateralTokenAddress = "0x0000000000000000000000000000000000000001";
@@ -670,6 +700,33 @@ describe("CreatePriceFeed.js", function () {
     assert.equal(validMedianizerFeed.priceFeeds[0].lookback, lookbackOverride);
   });
 
+  it("Valid Medianizer quorum config", async function () {
+    const config = {
+      type: "medianizer",
+      apiKey,
+      exchange,
+      pair,
+      lookback,
+      minTimeBetweenUpdates,
+      minFeedsRequired: 2,
+      maxDeviation: 0.05,
+      medianizedFeeds: [{ type: "cryptowatch" }, { type: "cryptowatch" }, { type: "cryptowatch" }],
+    };
+
+    const validMedianizerFeed = await createPriceFeed(logger, web3, networker, getTime, config);
+
+    assert.isTrue(validMedianizerFeed instanceof MedianizerPriceFeed);
+    assert.equal(validMedianizerFeed.minFeedsRequired, 2);
+    assert.equal(validMedianizerFeed.maxDeviation.toString(), toWei("0.05"));
+
+    // The quorum cannot require more feeds than are medianized.
+    assert.equal(await createPriceFeed(logger, web3, networker, getTime, { ...config, minFeedsRequired: 4 }), null);
+
+    // A negative or non-numeric maxDeviation is a config error rather than a constructor error.
+    assert.equal(await createPriceFeed(logger, web3, networker, getTime, { ...config, maxDeviation: -0.05 }), null);
+    assert.equal(await createPriceFeed(logger, web3, networker, getTime, { ...config, maxDeviation: "0.05" }), null);
+  });
+
   it("Medianizer feed cannot have 0 nested feeds to medianize", async function () {
     const config = { type: "medianizer", apiKey, exchange, pair, lookback, minTimeBetweenUpdates };
 
@@ -772,6 +829,84 @@ describe("CreatePriceFeed.js", function () {
     assert.equal(validFallbackFeed, null);
   });
 
+  it("Valid guarded config", async function () {
+    const guard = { maxStaleness: 300, minPrice: "0.5", maxPrice: "2", maxJump: 0.1 };
+    const config = { type: "cryptowatch", apiKey, exchange, pair, lookback, minTimeBetweenUpdates, guard };
+
+    const guardedFeed = await createPriceFeed(logger, web3, networker, getTime, config);
+
+    assert.isTrue(guardedFeed instanceof GuardedPriceFeed);
+    assert.isTrue(guardedFeed.priceFeed instanceof CryptoWatchPriceFeed);
+    assert.deepEqual(guardedFeed.guardConfig, guard);
+  });
+
+  it("Guard is not inherited by constituent feeds", async function () {
+    const config = {
+      type: "medianizer",
+      apiKey,
+      exchange,
+      pair,
+      lookback,
+      minTimeBetweenUpdates,
+      guard: { maxStaleness: 300 },
+      medianizedFeeds: [{ type: "cryptowatch" }],
+    };
+
+    const guardedFeed = await createPriceFeed(logger, web3, networker, getTime, config);
+
+    assert.isTrue(guardedFeed instanceof GuardedPriceFeed);
+    assert.isTrue(guardedFeed.priceFeed instanceof MedianizerPriceFeed);
+    assert.isTrue(guardedFeed.priceFeed.priceFeeds[0] instanceof CryptoWatchPriceFeed);
+  });
+
+  it("Invalid guarded config", async function () {
+    const config = { type: "cryptowatch", apiKey, exchange, pair, lookback, minTimeBetweenUpdates };
+
+    // Invalid guard settings are config errors rather than constructor errors.
+    for (const guard of [{ maxStaleness: 0 }, { maxStaleness: "300" }, { maxJump: -0.1 }, { maxJump: "0.1" }]) {
+      assert.equal(await createPriceFeed(logger, web3, networker, getTime, { ...config, guard }), null);
+    }
+  });
+
+  it("Guarded config with an invalid wrapped config", async function () {
+    const config = { type: "cryptowatch", guard: { maxStaleness: 300 } };
+
+    assert.equal(await createPriceFeed(logger, web3, networker, getTime, config), null);
+  });
+
+  it("Valid cached config", async function () {
+    const cache = { path: `${require("os").tmpdir()}/create-price-feed-cache.json`, ttl: 86400, minAge: 600 };
+    const config = { type: "cryptowatch", apiKey, exchange, pair, lookback, minTimeBetweenUpdates, cache };
+
+    const cachedFeed = await createPriceFeed(logger, web3, networker, getTime, config);
+
+    assert.isTrue(cachedFeed instanceof CachedPriceFeed);
+    assert.isTrue(cachedFeed.priceFeed instanceof CryptoWatchPriceFeed);
+    assert.equal(cachedFeed.ttl, 86400);
+    assert.equal(cachedFeed.minAge, 600);
+
+    // The same config should produce the same cache key, while a different config should not.
+    const sameFeed = await createPriceFeed(logger, web3, networker, getTime, { ...config });
+    const otherFeed = await createPriceFeed(logger, web3, networker, getTime, { ...config, pair: "other-pair" });
+    assert.equal(sameFeed.cacheKey, cachedFeed.cacheKey);
+    assert.notEqual(otherFeed.cacheKey, cachedFeed.cacheKey);
+    assert.equal(sameFeed.store, cachedFeed.store);
+
+    // Networker caching is opt-in per url pattern and requires a ttl.
+    const networkerCache = { ...cache, urlPatterns: ["api\\.cryptowat\\.ch/.*/ohlc"], networkerTtl: 3600 };
+    const networkerCachedFeed = await createPriceFeed(logger, web3, networker, getTime, {
+      ...config,
+      cache: networkerCache,
+    });
+    assert.isTrue(networkerCachedFeed.priceFeed.networker instanceof CachingNetworker);
+    assert.isNull(
+      await createPriceFeed(logger, web3, networker, getTime, {
+        ...config,
+        cache: { ...networkerCache, networkerTtl: undefined },
+      })
+    );
+  });
+
   it("ExpressionPriceFeed: invalid config, no expression", async function () {
     const config = { type: "expression" };
 
@@ -236,4 +236,24 @@ describe("ExpressionPriceFeed.js", function () {
       );
     });
   });
+
+  it("Historical price periods", async function () {
+    const priceFeedMap = { ETHUSD: new PriceFeedMock(), USDCUSD: new PriceFeedMock(undefined, undefined, 0, 6) };
+    priceFeedMap.ETHUSD.setHistoricalPricePeriods([
+      [100, toWei("2000")],
+      [200, toWei("2100")],
+    ]);
+    priceFeedMap.USDCUSD.setHistoricalPricePeriods([[150, "1000000"]]);
+
+    // The expression is evaluated wherever every constituent has a price.
+    const expressionPriceFeed = new ExpressionPriceFeed(priceFeedMap, "ETHUSD / USDCUSD");
+    assert.deepEqual(
+      expressionPriceFeed.getHistoricalPricePeriods().map(([time, price]) => [time, price && price.toString()]),
+      [
+        [100, null],
+        [150, toWei("2000")],
+        [200, toWei("2100")],
+      ]
+    );
+  });
 });
@@ -149,4 +149,27 @@ describe("FallBackPriceFeed.js", function () {
     }
     assert.isTrue(didThrow);
   });
+
+  it("Historical price periods", async function () {
+    const priceFeeds = [new PriceFeedMock(), new PriceFeedMock()];
+    priceFeeds[0].setHistoricalPricePeriods([
+      [200, toWei("1")],
+      [300, null],
+    ]);
+    priceFeeds[1].setHistoricalPricePeriods([
+      [100, toWei("2")],
+      [300, toWei("3")],
+    ]);
+
+    // The first feed with a price at each aligned timestamp is used.
+    const periods = new FallBackPriceFeed(priceFeeds).getHistoricalPricePeriods();
+    assert.deepEqual(
+      periods.map(([time, price]) => [time, price.toString()]),
+      [
+        [100, toWei("2")],
+        [200, toWei("1")],
+        [300, toWei("3")],
+      ]
+    );
+  });
 });
@@ -0,0 +1,143 @@
+const Web3 = require("web3");
+const { assert } = require("chai");
+const winston = require("winston");
+const sinon = require("sinon");
+const { toWei, toBN } = Web3.utils;
+
+const { GuardedPriceFeed } = require("../../dist/price-feed/GuardedPriceFeed");
+const { PriceFeedMock } = require("../../dist/price-feed/PriceFeedMock");
+const { MedianizerPriceFeed } = require("../../dist/price-feed/MedianizerPriceFeed");
+const { SpyTransport, lastSpyLogIncludes, lastSpyLogLevel } = require("../../dist/logger/SpyTransport");
+
+describe("GuardedPriceFeed.js", function () {
+  let priceFeedMock;
+  let spy;
+  let logger;
+  let mockTime;
+
+  const getTime = async () => mockTime;
+
+  beforeEach(async function () {
+    mockTime = 1000;
+    //                            currentPrice      historicalPrice    lastUpdatedTime
+    priceFeedMock = new PriceFeedMock(toBN(toWei("10")), toBN(toWei("12")), 900);
+    spy = sinon.spy();
+    logger = winston.createLogger({ level: "debug", transports: [new SpyTransport({ level: "debug" }, { spy })] });
+  });
+
+  it("Passes through prices that satisfy every guard", async function () {
+    const guardConfig = { maxStaleness: 300, minPrice: 1, maxPrice: "100", maxJump: 0.5 };
+    const guardedPriceFeed = new GuardedPriceFeed(logger, priceFeedMock, getTime, guardConfig);
+
+    // No price is returned before the first update.
+    assert.equal(guardedPriceFeed.getCurrentPrice(), null);
+
+    await guardedPriceFeed.update();
+    assert.equal(priceFeedMock.updateCalled, 1);
+    assert.equal(guardedPriceFeed.getCurrentPrice().toString(), toWei("10"));
+    assert.equal((await guardedPriceFeed.getHistoricalPrice(950)).toString(), toWei("12"));
+    assert.equal(guardedPriceFeed.getLastUpdateTime(), 900);
+    assert.equal(guardedPriceFeed.getPriceFeedDecimals(), 18);
+    assert.equal(guardedPriceFeed.getLookback(), 3600);
+    assert.equal(spy.callCount, 0);
+  });
+
+  it("Rejects stale prices", async function () {
+    const guardedPriceFeed = new GuardedPriceFeed(logger, priceFeedMock, getTime, { maxStaleness: 60 });
+
+    await guardedPriceFeed.update();
+    assert.equal(guardedPriceFeed.getCurrentPrice(), null);
+    assert.equal(lastSpyLogLevel(spy), "warn");
+    assert.isTrue(lastSpyLogIncludes(spy, "100 seconds old"));
+
+    // Once the wrapped feed updates again the price is accepted.
+    priceFeedMock.setLastUpdateTime(990);
+    await guardedPriceFeed.update();
+    assert.equal(guardedPriceFeed.getCurrentPrice().toString(), toWei("10"));
+  });
+
+  it("Rejects prices outside of the bounds", async function () {
+    const guardedPriceFeed = new GuardedPriceFeed(logger, priceFeedMock, getTime, { minPrice: 11, maxPrice: 20 });
+
+    await guardedPriceFeed.update();
+    assert.equal(guardedPriceFeed.getCurrentPrice(), null);
+    assert.isTrue(lastSpyLogIncludes(spy, "below min price"));
+
+    // Historical prices are bounds checked and throw when out of bounds.
+    assert.equal((await guardedPriceFeed.getHistoricalPrice(950)).toString(), toWei("12"));
+    priceFeedMock.setHistoricalPrice(toWei("25"));
+    assert.isTrue(await guardedPriceFeed.getHistoricalPrice(950).catch(() => true));
+    assert.isTrue(lastSpyLogIncludes(spy, "above max price"));
+  });
+
+  it("Scales bounds by the wrapped feed's decimals", async function () {
+    //                           currentPrice      historicalPrice lastUpdatedTime decimals
+    priceFeedMock = new PriceFeedMock(toBN("10000000"), null, 900, 6);
+    const guardedPriceFeed = new GuardedPriceFeed(logger, priceFeedMock, getTime, { minPrice: 9, maxPrice: 11 });
+
+    await guardedPriceFeed.update();
+    assert.equal(guardedPriceFeed.getCurrentPrice().toString(), "10000000");
+  });
+
+  it("Rejects large jumps between consecutive updates", async function () {
+    const guardedPriceFeed = new GuardedPriceFeed(logger, priceFeedMock, getTime, { maxJump: 0.2 });
+
+    await guardedPriceFeed.update();
+    assert.equal(guardedPriceFeed.getCurrentPrice().toString(), toWei("10"));
+
+    // A 15% move is allowed.
+    priceFeedMock.setCurrentPrice(toWei("11.5"));
+    await guardedPriceFeed.update();
+    assert.equal(guardedPriceFeed.getCurrentPrice().toString(), toWei("11.5"));
+
+    // A 100% spike is rejected.
+    priceFeedMock.setCurrentPrice(toWei("23"));
+    await guardedPriceFeed.update();
+    assert.equal(guardedPriceFeed.getCurrentPrice(), null);
+    assert.isTrue(lastSpyLogIncludes(spy, "max jump"));
+
+    // If the new price persists it is accepted on the next update.
+    await guardedPriceFeed.update();
+    assert.equal(guardedPriceFeed.getCurrentPrice().toString(), toWei("23"));
+  });
+
+  it("Clears the price when the wrapped feed fails to update", async function () {
+    const guardedPriceFeed = new GuardedPriceFeed(logger, priceFeedMock, getTime, {});
+    await guardedPriceFeed.update();
+    assert.equal(guardedPriceFeed.getCurrentPrice().toString(), toWei("10"));
+
+    priceFeedMock.update = async () => {
+      throw new Error("update failed");
+    };
+    assert.isTrue(await guardedPriceFeed.update().catch(() => true));
+    assert.equal(guardedPriceFeed.getCurrentPrice(), null);
+  });
+
+  it("Forwards historical price periods within the bounds", async function () {
+    priceFeedMock.setHistoricalPricePeriods([
+      [100, toWei("5")],
+      [200, toWei("500")],
+    ]);
+    const guardedPriceFeed = new GuardedPriceFeed(logger, priceFeedMock, getTime, { maxPrice: 100 });
+    assert.deepEqual(guardedPriceFeed.getHistoricalPricePeriods(), [
+      [100, toBN(toWei("5"))],
+      [200, null],
+    ]);
+
+    // Composite feeds over guarded feeds can align their periods.
+    const medianizer = new MedianizerPriceFeed([
+      guardedPriceFeed,
+      new GuardedPriceFeed(logger, priceFeedMock, getTime, {}),
+    ]);
+    assert.equal(medianizer.getHistoricalPricePeriods().length, 2);
+
+    // Not defined if the wrapped feed does not implement it.
+    const unsupportedFeed = { ...new PriceFeedMock(), getHistoricalPricePeriods: undefined };
+    assert.isUndefined(new GuardedPriceFeed(logger, unsupportedFeed, getTime, {}).getHistoricalPricePeriods);
+  });
+
+  it("Rejects invalid guard configs", async function () {
+    assert.throws(() => new GuardedPriceFeed(logger, priceFeedMock, getTime, { maxStaleness: 0 }));
+    assert.throws(() => new GuardedPriceFeed(logger, priceFeedMock, getTime, { maxJump: -0.1 }));
+  });
+});
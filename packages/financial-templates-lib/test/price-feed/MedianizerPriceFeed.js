@@ -179,4 +179,121 @@ describe("MedianizerPriceFeed.js", function () {
     }
     assert.isTrue(didThrow);
   });
+  describe("Quorum mode", function () {
+    it("Tolerates missing constituents while the quorum is met", async function () {
+      const priceFeeds = [
+        //                currentPrice      historicalPrice    lastUpdatedTime
+        new PriceFeedMock(toBN(toWei("1")), toBN(toWei("25")), 100),
+        new PriceFeedMock(toBN(toWei("2")), toBN(toWei("57")), 50000),
+        new PriceFeedMock(null, null, null),
+      ];
+
+      const medianizerPriceFeed = new MedianizerPriceFeed(priceFeeds, false, { minFeedsRequired: 2 });
+
+      // Should return the median of the two available prices.
+      assert.equal(medianizerPriceFeed.getCurrentPrice(), toWei("1.5"));
+      assert.deepEqual(medianizerPriceFeed.getExcludedFeeds(), [{ index: 2, reason: "missing price" }]);
+
+      const arbitraryHistoricalTimestamp = 1000;
+      assert.equal(await medianizerPriceFeed.getHistoricalPrice(arbitraryHistoricalTimestamp), toWei("41"));
+      const excludedFeeds = medianizerPriceFeed.getExcludedFeeds();
+      assert.equal(excludedFeeds.length, 1);
+      assert.equal(excludedFeeds[0].index, 2);
+      assert.equal(excludedFeeds[0].reason, "error");
+      assert.equal(excludedFeeds[0].error, "PriceFeedMock expected error thrown");
+
+      // Should return the most recent update time of the updated feeds.
+      assert.equal(medianizerPriceFeed.getLastUpdateTime(), 50000);
+    });
+
+    it("Fails when the quorum is not met", async function () {
+      const priceFeeds = [
+        //                currentPrice      historicalPrice    lastUpdatedTime
+        new PriceFeedMock(toBN(toWei("1")), toBN(toWei("25")), 100),
+        new PriceFeedMock(null, null, null),
+        new PriceFeedMock(null, null, null),
+      ];
+
+      const medianizerPriceFeed = new MedianizerPriceFeed(priceFeeds, false, { minFeedsRequired: 2 });
+
+      assert.equal(medianizerPriceFeed.getCurrentPrice(), null);
+      await medianizerPriceFeed.getHistoricalPrice(1000).then(
+        () => assert.fail(),
+        (err) => assert.equal(err.length, 2)
+      );
+      assert.equal(medianizerPriceFeed.getLastUpdateTime(), null);
+    });
+
+    it("Drops constituents deviating too far from the median", async function () {
+      const priceFeeds = [
+        //                currentPrice        historicalPrice     lastUpdatedTime
+        new PriceFeedMock(toBN(toWei("100")), toBN(toWei("10")), 100),
+        new PriceFeedMock(toBN(toWei("102")), toBN(toWei("11")), 100),
+        new PriceFeedMock(toBN(toWei("104")), toBN(toWei("10.5")), 100),
+        new PriceFeedMock(toBN(toWei("150")), toBN(toWei("1")), 100),
+      ];
+
+      const medianizerPriceFeed = new MedianizerPriceFeed(priceFeeds, true, { minFeedsRequired: 3, maxDeviation: 0.1 });
+
+      // The 150 price is more than 10% away from the median of 103 and should be excluded from the mean.
+      assert.equal(medianizerPriceFeed.getCurrentPrice(), toWei("102"));
+      assert.deepEqual(medianizerPriceFeed.getExcludedFeeds(), [
+        { index: 3, reason: "max deviation exceeded", price: toWei("150") },
+      ]);
+
+      // The 1 price is more than 10% away from the median of 10.25 and should be excluded from the mean.
+      assert.equal(await medianizerPriceFeed.getHistoricalPrice(1000), toWei("10.5"));
+
+      // If too many constituents deviate, the quorum can no longer be met.
+      const strictQuorumConfig = { minFeedsRequired: 3, maxDeviation: 0.01 };
+      const strictMedianizerPriceFeed = new MedianizerPriceFeed(priceFeeds, false, strictQuorumConfig);
+      assert.equal(strictMedianizerPriceFeed.getCurrentPrice(), null);
+      assert.isTrue(await strictMedianizerPriceFeed.getHistoricalPrice(1000).catch(() => true));
+    });
+
+    it("Update tolerates failures while the quorum is met", async function () {
+      const failingPriceFeed = new PriceFeedMock();
+      failingPriceFeed.update = async () => {
+        throw new Error("update failed");
+      };
+      const priceFeeds = [new PriceFeedMock(), new PriceFeedMock(), failingPriceFeed];
+
+      await new MedianizerPriceFeed(priceFeeds, false, { minFeedsRequired: 2 }).update();
+      assert.equal(priceFeeds[0].updateCalled, 1);
+
+      assert.isTrue(
+        await new MedianizerPriceFeed(priceFeeds, false, { minFeedsRequired: 3 }).update().catch(() => true)
+      );
+    });
+
+    it("Rejects invalid quorum configs", async function () {
+      const priceFeeds = [new PriceFeedMock(), new PriceFeedMock()];
+      assert.throws(() => new MedianizerPriceFeed(priceFeeds, false, { minFeedsRequired: 3 }));
+      assert.throws(() => new MedianizerPriceFeed(priceFeeds, false, { minFeedsRequired: 0 }));
+      assert.throws(() => new MedianizerPriceFeed(priceFeeds, false, { maxDeviation: -1 }));
+    });
+  });
+
+  it("Historical price periods", async function () {
+    const priceFeeds = [new PriceFeedMock(), new PriceFeedMock(), new PriceFeedMock()];
+    priceFeeds[0].setHistoricalPricePeriods([
+      [100, toWei("1")],
+      [200, toWei("2")],
+    ]);
+    priceFeeds[1].setHistoricalPricePeriods([
+      [100, toWei("3")],
+      [150, toWei("4")],
+    ]);
+    priceFeeds[2].setHistoricalPricePeriods([[150, toWei("5")]]);
+
+    // Constituent periods are matched by index against the first feed's periods, and missing prices count as 0.
+    assert.deepEqual(new MedianizerPriceFeed(priceFeeds).getHistoricalPricePeriods(), [
+      [100, toWei("3")],
+      [200, toWei("2")],
+    ]);
+
+    // Fails if a constituent does not support periods.
+    const unsupportedFeed = { ...new PriceFeedMock(), getHistoricalPricePeriods: undefined };
+    assert.throws(() => new MedianizerPriceFeed([...priceFeeds, unsupportedFeed]).getHistoricalPricePeriods());
+  });
 });
@@ -0,0 +1,153 @@
+const { assert } = require("chai");
+const winston = require("winston");
+
+const { Networker, NetworkerError } = require("../../dist/price-feed/Networker");
+const { NetworkerMock } = require("../../dist/price-feed/NetworkerMock");
+
+describe("Networker.js", function () {
+  let dummyLogger;
+  let fetchCalls;
+  let responses;
+
+  // Minimal stand in for node-fetch that returns the queued responses in order.
+  const mockFetch = async (url, options) => {
+    fetchCalls.push({ url, options });
+    const response = responses.shift();
+    if (response instanceof Error) throw response;
+    const { status = 200, body = {}, retryAfter } = response;
+    return {
+      status,
+      ok: status >= 200 && status < 300,
+      headers: { get: (name) => (name === "retry-after" && retryAfter !== undefined ? String(retryAfter) : null) },
+      json: async () => {
+        if (body instanceof Error) throw body;
+        return body;
+      },
+    };
+  };
+
+  beforeEach(async function () {
+    dummyLogger = winston.createLogger({ level: "info", transports: [new winston.transports.Console()] });
+    fetchCalls = [];
+    responses = [];
+  });
+
+  it("Default config sends a single request and checks the status", async function () {
+    const networker = new Networker(dummyLogger, { fetch: mockFetch });
+    responses = [{ status: 500, body: { error: "server error" } }];
+
+    const error = await networker.getJson("https://api.example.com/price").catch((error) => error);
+    assert.instanceOf(error, NetworkerError);
+    assert.equal(error.status, 500);
+    assert.equal(fetchCalls.length, 1);
+    assert.equal(fetchCalls[0].options.timeout, 0);
+
+    // Without status checks the json body is returned as before.
+    const uncheckedNetworker = new Networker(dummyLogger, { fetch: mockFetch, checkStatus: false });
+    responses = [{ status: 500, body: { error: "server error" } }];
+    assert.deepEqual(await uncheckedNetworker.getJson("https://api.example.com/price"), { error: "server error" });
+  });
+
+  it("Retries responses that are not json on 5xx statuses", async function () {
+    const config = { fetch: mockFetch, checkStatus: false, retries: 1, retryDelay: 0.01 };
+    const networker = new Networker(dummyLogger, config);
+    responses = [{ status: 502, body: new SyntaxError("Unexpected token < in JSON") }, { body: { price: 1 } }];
+    assert.deepEqual(await networker.getJson("https://api.example.com/price"), { price: 1 });
+    assert.equal(fetchCalls.length, 2);
+
+    // Parse failures on other statuses are not retried.
+    responses = [{ status: 200, body: new SyntaxError("Unexpected end of JSON input") }, { body: { price: 1 } }];
+    const error = await networker.getJson("https://api.example.com/price").catch((error) => error);
+    assert.instanceOf(error, NetworkerError);
+    assert.equal(fetchCalls.length, 3);
+  });
+
+  it("Logs request metrics periodically", async function () {
+    const logs = [];
+    const logger = { debug: (log) => logs.push(log) };
+    responses = [{ body: { price: 1 } }, { body: { price: 1 } }];
+
+    const networker = new Networker(logger, { fetch: mockFetch, metricsLogInterval: 0.05 });
+    await networker.getJson("https://api.example.com/price");
+    assert.equal(logs.length, 0);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await networker.getJson("https://api.example.com/price");
+    assert.equal(logs.length, 1);
+    assert.equal(logs[0].metrics["api.example.com"].requests, 1);
+  });
+
+  it("Retries 429s, 5xx statuses and network errors with backoff", async function () {
+    const config = { fetch: mockFetch, checkStatus: true, retries: 3, retryDelay: 0.01, timeout: 5000 };
+    const networker = new Networker(dummyLogger, config);
+    responses = [{ status: 429 }, { status: 503 }, new Error("socket hang up"), { body: { price: 1 } }];
+
+    assert.deepEqual(await networker.getJson("https://api.example.com/price"), { price: 1 });
+    assert.equal(fetchCalls.length, 4);
+    assert.equal(fetchCalls[0].options.timeout, 5000);
+
+    const metrics = networker.getMetrics()["api.example.com"];
+    assert.equal(metrics.requests, 4);
+    assert.equal(metrics.retries, 3);
+    assert.equal(metrics.failures, 0);
+    assert.deepEqual(metrics.statusCodes, { 200: 1, 429: 1, 503: 1 });
+  });
+
+  it("Does not retry client errors and throws once retries are exhausted", async function () {
+    const networker = new Networker(dummyLogger, { fetch: mockFetch, checkStatus: true, retries: 1, retryDelay: 0.01 });
+
+    responses = [{ status: 404 }];
+    const notFoundError = await networker.getJson("https://api.example.com/missing").catch((error) => error);
+    assert.instanceOf(notFoundError, NetworkerError);
+    assert.equal(notFoundError.status, 404);
+    assert.equal(fetchCalls.length, 1);
+
+    responses = [{ status: 500 }, { status: 502 }];
+    const serverError = await networker.getJson("https://api.example.com/price").catch((error) => error);
+    assert.equal(serverError.status, 502);
+    assert.equal(fetchCalls.length, 3);
+    assert.equal(networker.getMetrics()["api.example.com"].failures, 2);
+  });
+
+  it("Respects Retry-After headers", async function () {
+    const networker = new Networker(dummyLogger, { fetch: mockFetch, checkStatus: true, retries: 1, retryDelay: 0.01 });
+    responses = [{ status: 429, retryAfter: 0.2 }, { body: { price: 1 } }];
+
+    const start = Date.now();
+    await networker.getJson("https://api.example.com/price");
+    assert.isAtLeast(Date.now() - start, 190);
+  });
+
+  it("Rate limits requests per host", async function () {
+    const config = {
+      fetch: mockFetch,
+      hostRateLimits: { "slow.example.com": { requestsPerSecond: 10, burst: 2 } },
+    };
+    const networker = new Networker(dummyLogger, config);
+    responses = Array(5).fill({ body: { price: 1 } });
+
+    // Two requests fit in the burst and the third waits ~100ms for the bucket to refill.
+    const start = Date.now();
+    for (let i = 0; i < 3; i++) await networker.getJson("https://slow.example.com/price");
+    assert.isAtLeast(Date.now() - start, 90);
+    assert.equal(networker.getMetrics()["slow.example.com"].rateLimitWaits, 1);
+
+    // Other hosts are not limited.
+    await networker.getJson("https://fast.example.com/price");
+    await networker.getJson("https://fast.example.com/price");
+    assert.equal(networker.getMetrics()["fast.example.com"].rateLimitWaits, 0);
+  });
+
+  it("NetworkerMock simulates failures", async function () {
+    const networkerMock = new NetworkerMock();
+    networkerMock.getJsonFailures = [429, "timeout"];
+    networkerMock.getJsonReturns = [{ price: 1 }];
+
+    const rateLimitError = await networkerMock.getJson("https://api.example.com/price").catch((error) => error);
+    assert.equal(rateLimitError.status, 429);
+    const timeoutError = await networkerMock.getJson("https://api.example.com/price").catch((error) => error);
+    assert.instanceOf(timeoutError, NetworkerError);
+    assert.isUndefined(timeoutError.status);
+    assert.deepEqual(await networkerMock.getJson("https://api.example.com/price"), { price: 1 });
+    assert.equal(networkerMock.getJsonInputs.length, 3);
+  });
+});
@@ -0,0 +1,84 @@
+const Web3 = require("web3");
+const { assert } = require("chai");
+const { toWei } = Web3.utils;
+
+const { replayPriceFeed, compareReplays, replayToCsv } = require("../../dist/price-feed/PriceFeedReplay");
+const { PriceFeedMock } = require("../../dist/price-feed/PriceFeedMock");
+
+describe("PriceFeedReplay.js", function () {
+  let priceFeedA;
+  let priceFeedB;
+
+  beforeEach(async function () {
+    priceFeedA = new PriceFeedMock();
+    priceFeedA.setHistoricalPrices([
+      { timestamp: 100, price: toWei("1") },
+      { timestamp: 200, price: toWei("2") },
+      { timestamp: 300, price: null },
+      { timestamp: 400, price: toWei("4") },
+    ]);
+    priceFeedB = new PriceFeedMock();
+    priceFeedB.setHistoricalPrices([
+      { timestamp: 100, price: toWei("1.1") },
+      { timestamp: 200, price: toWei("1.9") },
+      { timestamp: 300, price: toWei("3") },
+    ]);
+  });
+
+  it("Replays prices and records gaps and errors", async function () {
+    const result = await replayPriceFeed(priceFeedA, 100, 500, 100);
+
+    assert.deepEqual(
+      result.points.map((point) => point.price),
+      [toWei("1"), toWei("2"), null, toWei("4"), null]
+    );
+    assert.equal(result.points[2].error, "null price returned");
+    assert.equal(result.points[4].error, "PriceFeedMock expected error thrown");
+    assert.equal(result.errors, 2);
+    assert.deepEqual(result.gaps, [
+      { start: 300, end: 300, points: 1 },
+      { start: 500, end: 500, points: 1 },
+    ]);
+  });
+
+  it("Rejects invalid ranges", async function () {
+    assert.isTrue(await replayPriceFeed(priceFeedA, 100, 500, 0).catch(() => true));
+    assert.isTrue(await replayPriceFeed(priceFeedA, 500, 100, 100).catch(() => true));
+  });
+
+  it("Compares two replays", async function () {
+    const comparison = compareReplays(
+      await replayPriceFeed(priceFeedA, 100, 400, 100),
+      await replayPriceFeed(priceFeedB, 100, 400, 100)
+    );
+
+    assert.deepEqual(
+      comparison.points.map((point) => point.deviation),
+      [0.1, -0.05, null, null]
+    );
+    assert.equal(comparison.stats.comparedPoints, 2);
+    assert.equal(comparison.stats.missingA, 1);
+    assert.equal(comparison.stats.missingB, 1);
+    assert.closeTo(comparison.stats.meanAbsDeviation, 0.075, 1e-12);
+    assert.equal(comparison.stats.maxAbsDeviation, 0.1);
+    assert.equal(comparison.stats.maxAbsDeviationTime, 100);
+  });
+
+  it("Formats replays as CSV", async function () {
+    const csv = replayToCsv(await replayPriceFeed(priceFeedA, 200, 300, 100));
+    assert.equal(
+      csv,
+      [
+        "time,isoTime,price,error",
+        `200,1970-01-01T00:03:20.000Z,${toWei("2")},`,
+        "300,1970-01-01T00:05:00.000Z,,null price returned",
+      ].join("\n")
+    );
+
+    const comparisonCsv = replayToCsv(
+      compareReplays(await replayPriceFeed(priceFeedA, 100, 100, 100), await replayPriceFeed(priceFeedB, 100, 100, 100))
+    );
+    assert.equal(comparisonCsv.split("\n")[0], "time,isoTime,priceA,priceB,deviation");
+    assert.equal(comparisonCsv.split("\n")[1], `100,1970-01-01T00:01:40.000Z,${toWei("1")},${toWei("1.1")},0.1`);
+  });
+});
@@ -79,11 +79,22 @@ class FundingRateProposer {
           // of `isDeviationOutsideErrorMargin()`
         },
       },
+      networkerConfig: {
+        //   "networkerConfig":{"retries":3} -> Timeout, retry and rate limit settings of the Networker used by all
+        //                                      pricefeeds.
+        value: {},
+        isValid: (x) => {
+          return typeof x === "object" && x !== null;
+        },
+      },
     };
 
     // Validate and set config settings to class state.
     const configWithDefaults = createObjectFromDefaultProps(perpetualProposerConfig, defaultConfig);
     Object.assign(this, configWithDefaults);
+
+    // Shared by all pricefeeds so that rate limits apply across identifiers.
+    this.networker = new Networker(this.logger, this.networkerConfig);
   }
 
   async update() {
@@ -326,7 +337,7 @@ class FundingRateProposer {
         priceFeed = await createReferencePriceFeedForFinancialContract(
           this.logger,
           this.web3,
-          new Networker(this.logger),
+          this.networker,
           () => Math.round(new Date().getTime() / 1000),
           null, // No EMP Address needed since we're passing identifier explicitly
           this.commonPriceFeedConfig,
@@ -0,0 +1,291 @@
+import winston from "winston";
+import Web3 from "web3";
+const { toWei, toBN } = Web3.utils;
+const toBNWei = (number: string | number) => toBN(toWei(number.toString()).toString());
+const fixedPointAdjustment = toBNWei(1);
+
+import { createFormatFunction } from "@uma/common";
+import { getAbi } from "@uma/contracts-node";
+import { InsuredBridgeL1Client, Relay, SettleableRelay } from "@uma/financial-templates-lib";
+import { getTokenBalance } from "./RelayerHelpers";
+import { MulticallBundler } from "./MulticallBundler";
+
+import type { BN, TransactionType } from "@uma/common";
+
+// Amounts are strings in the token's smallest unit (i.e. wei for WETH and ETH).
+export interface InventoryConfig {
+  executeActions: boolean; // Executes recommended actions that the bot can take itself instead of only logging them.
+  minEthBalance: string; // ETH balance below which WETH is unwrapped to pay for gas.
+  targetEthBalance: string; // ETH balance that unwrapping WETH tops up to.
+  tokens: { [l1Token: string]: { minBalance: string } }; // Balance below which instant relays of the token are paused.
+}
+
+export enum RebalanceActionType {
+  UnwrapWeth = "unwrapWeth",
+  PauseInstantRelays = "pauseInstantRelays",
+  ResumeInstantRelays = "resumeInstantRelays",
+  TopUp = "topUp",
+}
+
+export interface RebalanceAction {
+  type: RebalanceActionType;
+  l1Token: string;
+  amount?: string; // Set for UnwrapWeth and TopUp.
+  reason: string;
+}
+
+export interface TokenInventory {
+  l1Token: string;
+  symbol: string;
+  decimals: number;
+  balance: BN; // Tokens held by the relayer.
+  bondedInSlowRelays: BN; // Bonds posted by the relayer for pending slow relays.
+  lentInInstantRelays: BN; // Tokens sent by the relayer to recipients of pending relays it sped up.
+  expectedSettlements: BN; // Tokens returned to the relayer once all of its pending relays settle.
+  settleableSettlements: BN; // Part of `expectedSettlements` that can be settled now.
+  projectedBalance: BN; // Balance once all of the relayer's pending relays settle.
+  minBalance: BN;
+}
+
+export class InventoryPlanner {
+  public inventory: { [l1Token: string]: TokenInventory } = {};
+  public ethBalance = toBN(0);
+  public actions: RebalanceAction[] = [];
+
+  private readonly pausedInstantRelayTokens = new Set<string>();
+  // Actions planned in the last check, keyed by token and action type. Actions that are planned again unchanged are
+  // only logged at debug level, so that recommendations and top ups that persist across loops do not spam alerts.
+  private reportedActions = new Map<string, RebalanceAction>();
+
+  /**
+   * @notice Constructs new InventoryPlanner instance.
+   * @param {Object} logger Module used to send logs.
+   * @param {Object} l1Client Client for fetching L1 data from the insured bridge pool and admin contracts.
+   * @param {Array} whitelistedRelayL1Tokens List of whitelisted L1 tokens that the relayer supports.
+   * @param {string} account Unlocked web3 account that the relayer sends L1 transactions from.
+   * @param {string} wethAddress Address of WETH on L1, which is unwrapped when the account runs low on ETH.
+   * @param {Object} config Thresholds for the account's balances and whether to execute recommended actions.
+   * @param {Object} multicallBundler Bundler that executed actions are sent through.
+   */
+  constructor(
+    readonly logger: winston.Logger,
+    readonly l1Client: InsuredBridgeL1Client,
+    readonly whitelistedRelayL1Tokens: string[],
+    readonly account: string,
+    readonly wethAddress: string,
+    readonly config: InventoryConfig,
+    readonly multicallBundler: MulticallBundler
+  ) {}
+
+  // Returns true if instant relays and speed ups of the L1 token have been paused because the relayer is low on it.
+  isInstantRelayPaused(l1Token: string): boolean {
+    return this.pausedInstantRelayTokens.has(l1Token);
+  }
+
+  // Fetches the relayer's balances and pending relays, then plans and, if enabled, executes rebalancing actions.
+  // Should be run after the L1 client has been updated.
+  async checkInventoryAndRebalance(): Promise<void> {
+    this.logger.debug({ at: "AcrossRelayer#InventoryPlanner", message: "Checking relayer inventory" });
+    await this.update();
+    this.actions = this.planActions();
+
+    const formatEth = createFormatFunction(2, 4, false, 18);
+    this.logger.debug({
+      at: "AcrossRelayer#InventoryPlanner",
+      message: "Relayer inventory",
+      ethBalance: formatEth(this.ethBalance.toString()),
+      inventory: Object.values(this.inventory).map((tokenInventory) => this._formatTokenInventory(tokenInventory)),
+    });
+
+    const newActions = this.actions.filter((action) => !this._isReported(action));
+    const repeatedActions = this.actions.filter((action) => this._isReported(action));
+    this.reportedActions = new Map(this.actions.map((action) => [this._getActionKey(action), action]));
+    if (repeatedActions.length > 0)
+      this.logger.debug({
+        at: "AcrossRelayer#InventoryPlanner",
+        message: "Rebalancing actions already reported",
+        actions: repeatedActions,
+      });
+    if (newActions.length > 0)
+      this.logger.warn({
+        at: "AcrossRelayer#InventoryPlanner",
+        message: this.config.executeActions ? "Executing rebalancing actions ⚖️" : "Rebalancing actions recommended ⚖️",
+        mrkdwn: this._generateMrkdwnForActions(newActions),
+        actions: newActions,
+        notificationPath: "across-infrastructure",
+      });
+    if (this.config.executeActions) this.executeActions(this.actions);
+  }
+
+  async update(): Promise<void> {
+    const [ethBalance, balances] = await Promise.all([
+      this.l1Client.l1Web3.eth.getBalance(this.account),
+      Promise.all(
+        this.whitelistedRelayL1Tokens.map((l1Token) => getTokenBalance(this.l1Client.l1Web3, l1Token, this.account))
+      ),
+    ]);
+    this.ethBalance = toBN(ethBalance);
+
+    this.inventory = {};
+    this.whitelistedRelayL1Tokens.forEach((l1Token, index) => {
+      const bridgePool = this.l1Client.getBridgePoolForL1Token(l1Token);
+      this.inventory[l1Token] = {
+        l1Token,
+        symbol: bridgePool.poolCollateralSymbol,
+        decimals: bridgePool.poolCollateralDecimals,
+        balance: balances[index],
+        bondedInSlowRelays: toBN(0),
+        lentInInstantRelays: toBN(0),
+        expectedSettlements: toBN(0),
+        settleableSettlements: toBN(0),
+        projectedBalance: balances[index],
+        minBalance: toBN(this.config.tokens[l1Token]?.minBalance ?? "0"),
+      };
+    });
+
+    for (const relay of this.l1Client.getPendingRelayedDeposits()) {
+      const tokenInventory = this.inventory[relay.l1Token];
+      if (!tokenInventory) continue;
+      const settlement = this._getSettlementForAccount(relay, tokenInventory);
+      tokenInventory.expectedSettlements = tokenInventory.expectedSettlements.add(settlement);
+      tokenInventory.projectedBalance = tokenInventory.projectedBalance.add(settlement);
+      if (relay.settleable !== SettleableRelay.CannotSettle)
+        tokenInventory.settleableSettlements = tokenInventory.settleableSettlements.add(settlement);
+    }
+  }
+
+  // Plans actions from the last update. Instant relays of a token are paused while its balance is below its minimum
+  // and resumed once it recovers. A top up is recommended when the balance will still be below the minimum after all
+  // pending relays settle, as only the operator can fix that.
+  planActions(): RebalanceAction[] {
+    const actions: RebalanceAction[] = [];
+    for (const tokenInventory of Object.values(this.inventory)) {
+      const { l1Token, balance, projectedBalance, minBalance } = tokenInventory;
+      const format = createFormatFunction(2, 4, false, tokenInventory.decimals);
+      const isBelowMin = balance.lt(minBalance);
+      if (isBelowMin && !this.isInstantRelayPaused(l1Token))
+        actions.push({
+          type: RebalanceActionType.PauseInstantRelays,
+          l1Token,
+          reason: `Balance of ${format(balance)} is below the minimum of ${format(minBalance)}`,
+        });
+      else if (!isBelowMin && this.isInstantRelayPaused(l1Token))
+        actions.push({
+          type: RebalanceActionType.ResumeInstantRelays,
+          l1Token,
+          reason: `Balance of ${format(balance)} is back above the minimum of ${format(minBalance)}`,
+        });
+
+      if (projectedBalance.lt(minBalance))
+        actions.push({
+          type: RebalanceActionType.TopUp,
+          l1Token,
+          amount: minBalance.sub(projectedBalance).toString(),
+          reason: `Balance after pending relays settle of ${format(projectedBalance)} is below the minimum`,
+        });
+    }
+
+    // Only unwrap WETH that is not needed to keep the WETH balance above its minimum.
+    const wethInventory = this.inventory[this.wethAddress];
+    if (wethInventory && this.ethBalance.lt(toBN(this.config.minEthBalance))) {
+      const excessWeth = wethInventory.balance.sub(wethInventory.minBalance);
+      const ethNeeded = toBN(this.config.targetEthBalance).sub(this.ethBalance);
+      const unwrapAmount = ethNeeded.lt(excessWeth) ? ethNeeded : excessWeth;
+      if (unwrapAmount.gt(toBN(0))) {
+        const formatEth = createFormatFunction(2, 4, false, 18);
+        actions.push({
+          type: RebalanceActionType.UnwrapWeth,
+          l1Token: this.wethAddress,
+          amount: unwrapAmount.toString(),
+          reason: `ETH balance of ${formatEth(this.ethBalance)} is below the minimum of ${formatEth(
+            this.config.minEthBalance
+          )}`,
+        });
+      }
+    }
+    return actions;
+  }
+
+  // Applies pauses and adds WETH unwraps to the multicall bundler. Top ups need the operator and are only logged.
+  executeActions(actions: RebalanceAction[]): void {
+    for (const action of actions) {
+      switch (action.type) {
+        case RebalanceActionType.PauseInstantRelays:
+          this.pausedInstantRelayTokens.add(action.l1Token);
+          break;
+        case RebalanceActionType.ResumeInstantRelays:
+          this.pausedInstantRelayTokens.delete(action.l1Token);
+          break;
+        case RebalanceActionType.UnwrapWeth:
+          this.multicallBundler.addTransactions({
+            transaction: this._generateUnwrapWethTx(action.amount as string),
+            message: "Unwrapped WETH to pay for gas ⛽️",
+            mrkdwn: action.reason,
+            report: { action: "unwrapWeth", amount: action.amount },
+          });
+          break;
+      }
+    }
+  }
+
+  // Tokens returned to the account when the relay settles. The slow relayer gets back its bond and earns the slow relay
+  // fee. The instant relayer is reimbursed the deposit amount minus the LP and slow relay fees, which includes the
+  // instant relay fee it earned.
+  private _getSettlementForAccount(relay: Relay, tokenInventory: TokenInventory): BN {
+    let settlement = toBN(0);
+    const amount = toBN(relay.amount);
+    if (relay.slowRelayer === this.account) {
+      const bond = toBN(relay.proposerBond).add(toBN(relay.finalFee));
+      tokenInventory.bondedInSlowRelays = tokenInventory.bondedInSlowRelays.add(bond);
+      settlement = settlement.add(bond).add(amount.mul(toBN(relay.slowRelayFeePct)).div(fixedPointAdjustment));
+    }
+    const instantRelayer = this.l1Client.getInstantRelayer(relay.l1Token, relay.depositHash, relay.realizedLpFeePct);
+    if (instantRelayer === this.account) {
+      const remainingPct = fixedPointAdjustment.sub(toBN(relay.realizedLpFeePct)).sub(toBN(relay.slowRelayFeePct));
+      tokenInventory.lentInInstantRelays = tokenInventory.lentInInstantRelays.add(
+        amount.mul(remainingPct.sub(toBN(relay.instantRelayFeePct))).div(fixedPointAdjustment)
+      );
+      settlement = settlement.add(amount.mul(remainingPct).div(fixedPointAdjustment));
+    }
+    return settlement;
+  }
+
+  private _getActionKey(action: RebalanceAction): string {
+    return `${action.l1Token}:${action.type}`;
+  }
+
+  // True if the same action, with the same amount, was planned in the last check.
+  private _isReported(action: RebalanceAction): boolean {
+    const reportedAction = this.reportedActions.get(this._getActionKey(action));
+    return reportedAction !== undefined && reportedAction.amount === action.amount;
+  }
+
+  private _generateUnwrapWethTx(amount: string): TransactionType {
+    const weth = new this.l1Client.l1Web3.eth.Contract(getAbi("WETH9"), this.wethAddress);
+    return (weth.methods.withdraw(amount) as unknown) as TransactionType;
+  }
+
+  private _formatTokenInventory(tokenInventory: TokenInventory) {
+    const format = createFormatFunction(2, 4, false, tokenInventory.decimals);
+    return {
+      symbol: tokenInventory.symbol,
+      balance: format(tokenInventory.balance),
+      bondedInSlowRelays: format(tokenInventory.bondedInSlowRelays),
+      lentInInstantRelays: format(tokenInventory.lentInInstantRelays),
+      expectedSettlements: format(tokenInventory.expectedSettlements),
+      settleableSettlements: format(tokenInventory.settleableSettlements),
+      projectedBalance: format(tokenInventory.projectedBalance),
+      minBalance: format(tokenInventory.minBalance),
+    };
+  }
+
+  private _generateMrkdwnForActions(actions: RebalanceAction[]): string {
+    return actions
+      .map((action) => {
+        const { symbol, decimals } = this.inventory[action.l1Token];
+        const amount = action.amount ? ` ${createFormatFunction(2, 4, false, decimals)(action.amount)}` : "";
+        return `• ${action.type}${amount} ${symbol}: ${action.reason}.`;
+      })
+      .join("\n");
+  }
+}
@@ -1,43 +1,118 @@
 import fs from "fs";
 import { Datastore } from "@google-cloud/datastore";
-const datastore = new Datastore();
+import { stores } from "@uma/sdk";
+import { createJsonFileStore } from "./LogStores";
 
-enum LogHelperMode {
-  Gcp,
-  Local,
+import type { ProcessEnv } from "./RelayerConfig";
+
+export interface UnprofitableLog {
+  depositHash: string;
+  timestamp?: number; // Time the log was sent in seconds. Missing for logs saved before expiry was supported.
 }
 
-const logHelperMode = process.env.LOG_SILENCER_MODE === "gcp" ? LogHelperMode.Gcp : LogHelperMode.Local;
+type UnprofitableLogStore = stores.Store<string, UnprofitableLog>;
 
-const localSaveFilePath = `${__dirname}/relayer-unprofitable-logs`;
+// Creates the store selected by LOG_SILENCER_MODE: "local" (default) for a JSON file, "sqlite" for a SQLite database,
+// "gcp" for Google Datastore or "memory" for a store that only lasts as long as the process. LOG_SILENCER_PATH
+// overrides the path of the file and SQLite modes.
+export function createUnprofitableLogStore(env: ProcessEnv): UnprofitableLogStore {
+  const { LOG_SILENCER_MODE, LOG_SILENCER_PATH } = env;
+  switch (LOG_SILENCER_MODE ?? "local") {
+    case "local": {
+      if (LOG_SILENCER_PATH) return createJsonFileStore(LOG_SILENCER_PATH);
+      const path = `${__dirname}/relayer-unprofitable-logs.json`;
+      importLegacyUnprofitableLogs(`${__dirname}/relayer-unprofitable-logs`, path);
+      return createJsonFileStore(path);
+    }
+    case "sqlite": {
+      // Only required in this mode so that the native module is not needed otherwise.
+      const Database = require("better-sqlite3");
+      const db = new Database(LOG_SILENCER_PATH ?? `${__dirname}/relayer-unprofitable-logs.sqlite`);
+      return stores.Sqlite<UnprofitableLog>(db, "RelayerUnprofitableLogs");
+    }
+    case "gcp":
+      return stores.GoogleDatastore("RelayerUnprofitableLogs", new Datastore());
+    case "memory":
+      return stores.JsMap();
+    default:
+      throw new Error(`Unknown LOG_SILENCER_MODE ${LOG_SILENCER_MODE}`);
+  }
+}
 
-// Saves the provided depositHash to either a local file or a GCP data store database depending on the mode.
-export async function saveUnprofitableLog(depositHash: string) {
-  if (logHelperMode == LogHelperMode.Local) {
-    // If the log file does not already contain the deposit hash, append it.
-    if (!(await previouslySentUnprofitableLog(depositHash)))
-      fs.writeFileSync(localSaveFilePath, `"${depositHash}"\n`, { flag: "a+" });
-  } else if (logHelperMode == LogHelperMode.Gcp) {
-    // Dont need to check if the GCP dataStore already has the deposit hash as this action replaces on write.
-    const key = datastore.key(["RelayerUnprofitableLogs", depositHash]);
-    await datastore.save({ key, data: { depositHash } });
+// Older relayers appended the deposit hash of every unprofitable log as a JSON string line to the file at `legacyPath`.
+// If that file exists and the JSON file store at `path` does not, copy its logs over so they stay silenced. Imported logs
+// are timestamped with the current time, so that they only expire a ttl after the upgrade.
+export function importLegacyUnprofitableLogs(
+  legacyPath: string,
+  path: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): void {
+  if (fs.existsSync(path) || !fs.existsSync(legacyPath)) return;
+  const logs: { [depositHash: string]: UnprofitableLog } = {};
+  for (const line of fs.readFileSync(legacyPath, "utf8").split(/\r?\n|\r/)) {
+    if (!line.trim()) continue;
+    const depositHash: string = JSON.parse(line);
+    logs[depositHash] = { depositHash, timestamp };
   }
+  fs.writeFileSync(path, JSON.stringify(logs));
 }
 
-// Checks if the provided depositHash is present in either the local file or the GCP data store database.
-export async function previouslySentUnprofitableLog(depositHash: string) {
-  if (logHelperMode == LogHelperMode.Local) {
-    // Try catch block to handel the case where the file does not exist.
-    try {
-      const logFile = fs.readFileSync(localSaveFilePath, "utf8");
-      const pastLogs = JSON.parse("[" + logFile.replace(/\r?\n|\r/g, ",").substring(0, logFile.length - 1) + "]");
-      return pastLogs.includes(depositHash);
-    } catch (error) {
-      return false;
+// Tracks which deposits the relayer has already sent an unprofitable log for. If `ttl` is set, saved logs expire after
+// `ttl` seconds so that deposits that are still unprofitable are alerted on again.
+export class UnprofitableLogSilencer {
+  /**
+   * @notice Constructs new UnprofitableLogSilencer instance.
+   * @param {Object} store Store to persist sent logs in, keyed by deposit hash.
+   * @param {number} ttl Seconds after which a sent log expires. Logs never expire if not set.
+   * @param {Function} getTime Returns the current time in seconds.
+   */
+  constructor(
+    readonly store: UnprofitableLogStore,
+    readonly ttl?: number,
+    readonly getTime = (): number => Math.floor(Date.now() / 1000)
+  ) {}
+
+  // Saves that the unprofitable log for the depositHash has been sent, unless it was already sent and has not expired.
+  async saveUnprofitableLog(depositHash: string): Promise<void> {
+    if (await this.previouslySentUnprofitableLog(depositHash)) return;
+    await this.store.set(depositHash, { depositHash, timestamp: this.getTime() });
+  }
+
+  // Checks if the unprofitable log for the depositHash has been sent and has not expired. Expired logs are removed.
+  // Logs saved without a timestamp are timestamped with the current time, like logs imported from the legacy file.
+  async previouslySentUnprofitableLog(depositHash: string): Promise<boolean> {
+    const log = await this.store.get(depositHash);
+    if (!log) return false;
+    if (log.timestamp === undefined) {
+      await this.store.set(depositHash, { depositHash, timestamp: this.getTime() });
+      return true;
     }
-  } else if (logHelperMode == LogHelperMode.Gcp) {
-    const key = datastore.key(["RelayerUnprofitableLogs", depositHash]);
-    const [dataField] = await datastore.get(key);
-    return !!dataField;
+    if (this.ttl === undefined || log.timestamp + this.ttl > this.getTime()) return true;
+
+    await this.store.delete(depositHash);
+    return false;
+  }
+}
+
+// The default silencer is configured from the environment. LOG_SILENCER_TTL sets the expiry in seconds.
+let defaultSilencer: UnprofitableLogSilencer | undefined;
+function getDefaultSilencer(): UnprofitableLogSilencer {
+  if (!defaultSilencer) {
+    const { LOG_SILENCER_TTL } = process.env;
+    defaultSilencer = new UnprofitableLogSilencer(
+      createUnprofitableLogStore(process.env),
+      LOG_SILENCER_TTL ? Number(LOG_SILENCER_TTL) : undefined
+    );
   }
+  return defaultSilencer;
+}
+
+// Saves the provided depositHash to the store selected by LOG_SILENCER_MODE.
+export async function saveUnprofitableLog(depositHash: string): Promise<void> {
+  await getDefaultSilencer().saveUnprofitableLog(depositHash);
+}
+
+// Checks if the provided depositHash is present in the store selected by LOG_SILENCER_MODE and has not expired.
+export async function previouslySentUnprofitableLog(depositHash: string): Promise<boolean> {
+  return await getDefaultSilencer().previouslySentUnprofitableLog(depositHash);
 }
@@ -0,0 +1,75 @@
+// Stores that conform to the SDK's `stores.Store` interface, for persisting relayer state outside of GCP. Use the SDK's
+// `stores.JsMap` for an in-memory store, `stores.Sqlite` for a SQLite database and `stores.GoogleDatastore` for Google
+// Datastore.
+import crypto from "crypto";
+import fs from "fs";
+import type { stores } from "@uma/sdk";
+
+// Pending writes per file path. Every write reads, modifies and replaces the whole file, so writes to the same file are
+// run one at a time, including writes from different stores for the same path.
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function queueWrite<T>(path: string, write: () => Promise<T>): Promise<T> {
+  const result = (writeQueues.get(path) ?? Promise.resolve()).then(write);
+  const queue = result.catch(() => undefined); // A failed write should not fail the writes queued after it.
+  writeQueues.set(path, queue);
+  queue.then(() => writeQueues.get(path) === queue && writeQueues.delete(path));
+  return result;
+}
+
+// Stores all entries as a single JSON object in the file at `path`. The file is re-read on every call so that bots
+// sharing the file see each other's writes, and replaced atomically on every write. Writes within a process are
+// serialized, but bots in different processes should not write to the same file.
+export function createJsonFileStore<D>(path: string): stores.Store<string, D> {
+  async function read(): Promise<{ [id: string]: D }> {
+    try {
+      return JSON.parse(await fs.promises.readFile(path, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {}; // Nothing has been written yet.
+      throw error;
+    }
+  }
+  async function write(data: { [id: string]: D }) {
+    const tmpPath = `${path}.${process.pid}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(data));
+    await fs.promises.rename(tmpPath, path);
+  }
+
+  async function get(id: string) {
+    const data = await read();
+    return Object.prototype.hasOwnProperty.call(data, id) ? data[id] : undefined;
+  }
+  async function set(id: string, value: D) {
+    await queueWrite(path, async () => {
+      const data = await read();
+      data[id] = value;
+      await write(data);
+    });
+  }
+  async function has(id: string) {
+    return Object.prototype.hasOwnProperty.call(await read(), id);
+  }
+  async function del(id: string) {
+    await queueWrite(path, async () => {
+      const data = await read();
+      delete data[id];
+      await write(data);
+    });
+  }
+  async function entries() {
+    return Object.entries(await read());
+  }
+  async function values() {
+    return Object.values(await read());
+  }
+  async function keys() {
+    return Object.keys(await read());
+  }
+  async function size() {
+    return Object.keys(await read()).length;
+  }
+  async function clear() {
+    await queueWrite(path, () => write({}));
+  }
+  return { get, set, has, delete: del, entries, values, keys, size, clear };
+}
@@ -17,12 +17,24 @@ interface BaseCall<T extends TransactionType> {
   message?: string;
   mrkdwn?: string;
   level?: string;
+  report?: { [key: string]: unknown }; // Structured context, such as profitability, included in dry run reports.
 }
 
 type Call = BaseCall<TransactionType>;
 type ExtendedTransasction = TransactionType & { _parent: Contract };
 type ExtendedCall = BaseCall<ExtendedTransasction>;
 
+export interface SimulatedTransaction {
+  message: string;
+  level: string;
+  contract: string;
+  data: string;
+  succeeded: boolean;
+  estimatedGas?: number;
+  error?: string;
+  [key: string]: unknown;
+}
+
 async function allSettledOrError<T>(promises: T[], errorPrefix: string): Promise<Awaited<T>[]> {
   // Allow all transactions to finish before propagating any errors.
   const results = await Promise.allSettled(promises);
@@ -45,12 +57,14 @@ export class MulticallBundler {
    * @param {Object} gasEstimator used to estimate gas prices for the receiving chainId.
    * @param {Object} web3 web3 instance containing permissions to send with the provided account.
    * @param {string} account Unlocked web3 account to send transactions.
+   * @param {boolean} dryRun If true, transactions are simulated and reported instead of being sent.
    */
   constructor(
     readonly logger: winston.Logger,
     readonly gasEstimator: GasEstimator,
     readonly web3: Web3,
-    readonly account: string
+    readonly account: string,
+    readonly dryRun = false
   ) {}
 
   public addTransactions(...calls: Call[]): void {
@@ -60,6 +74,12 @@ export class MulticallBundler {
   }
 
   public async send(): Promise<void> {
+    if (this.dryRun) {
+      await this.simulate();
+      this.calls = [];
+      return;
+    }
+
     const callGroups = lodash.groupBy(this.calls, (call) =>
       this.web3.utils.toChecksumAddress(call.transaction._parent.options.address)
     );
@@ -86,6 +106,30 @@ export class MulticallBundler {
     this.calls = [];
   }
 
+  // Runs each call through eth_call and estimateGas without sending it and logs a report of the results. Calls are
+  // simulated individually against the latest block, so calls that depend on each other may be reported as reverting.
+  public async simulate(): Promise<SimulatedTransaction[]> {
+    if (this.calls.length === 0) return [];
+    const simulatedTransactions = await Promise.all(this.calls.map((call) => this.simulateTransaction(call)));
+
+    let markdownBlock = "*Transactions simulated in dry run, none were sent:*\n";
+    this.calls.forEach(({ message, mrkdwn }, index) => {
+      const { succeeded, error } = simulatedTransactions[index];
+      const outcome = succeeded ? "would succeed" : `would revert: ${error}`;
+      markdownBlock += `  • ${message || "No message"} (${outcome}):\n`;
+      markdownBlock += `      ◦ ${mrkdwn || "No markdown"}\n`;
+    });
+    this.logger.info({
+      at: "MulticallBundler#simulate",
+      message: "Dry run transactions simulated 🧪",
+      mrkdwn: markdownBlock,
+      simulatedTransactions,
+      notificationPath: "across-infrastructure",
+    });
+
+    return simulatedTransactions;
+  }
+
   public async waitForMine(): Promise<TransactionReceipt[]> {
     try {
       return await allSettledOrError(
@@ -129,6 +173,29 @@ export class MulticallBundler {
     this.sentTransactions.push(executionResult);
   }
 
+  private async simulateTransaction(call: ExtendedCall): Promise<SimulatedTransaction> {
+    const { transaction } = call;
+    const simulatedTransaction = {
+      message: call.message || "No message",
+      level: call.level || "info",
+      contract: this.web3.utils.toChecksumAddress(transaction._parent.options.address),
+      data: transaction.encodeABI(),
+      ...call.report,
+    };
+
+    try {
+      await transaction.call({ from: this.account });
+      const estimatedGas = await transaction.estimateGas({ from: this.account });
+      return { ...simulatedTransaction, succeeded: true, estimatedGas };
+    } catch (error) {
+      return {
+        ...simulatedTransaction,
+        succeeded: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   private async batchTransactions(calls: ExtendedCall[]) {
     const multicaller: MultiCallerWeb3 = (calls[0].transaction._parent as unknown) as MultiCallerWeb3;
 
@@ -4,13 +4,14 @@ const { toWei, toBN, fromWei, toChecksumAddress } = Web3.utils;
 const toBNWei = (number: string | number) => toBN(toWei(number.toString()).toString());
 const fixedPoint = toBNWei(1);
 
-import { objectMap, createFormatFunction, MAX_SAFE_ALLOWANCE } from "@uma/common";
+import { objectMap, createFormatFunction, ConvertDecimals, MAX_SAFE_ALLOWANCE } from "@uma/common";
 import { Coingecko, across } from "@uma/sdk";
 import { getAddress, getAbi } from "@uma/contracts-node";
 
 import { RelaySubmitType } from "./Relayer";
 
 import type { BN } from "@uma/common";
+import type { PriceFeedInterface } from "@uma/financial-templates-lib";
 
 const formatWei = createFormatFunction(2, 4, false, 18);
 const formatGwei = (number: string | number | BN) => createFormatFunction(2, 4, false, 9)(number.toString());
@@ -28,12 +29,18 @@ const costConstants = {
   [TokenType.UMA]: { slow: costs.SLOW_UMA_GAS, speedUp: costs.SPEED_UP_UMA_GAS, instant: costs.FAST_UMA_GAS },
 };
 
+// Price feeds that price a token in ETH. If a list is given, each feed is tried in order until one returns a price.
+export type TokenPriceFeeds = { [l1Token: string]: PriceFeedInterface | PriceFeedInterface[] };
+
 export class ProfitabilityCalculator {
-  public l1TokenInfo: { [token: string]: { tokenType: TokenType; tokenEthPrice: BN; decimals: BN } } = {};
+  public l1TokenInfo: {
+    [token: string]: { tokenType: TokenType; tokenEthPrice: BN; decimals: BN; priceSource?: string };
+  } = {};
 
   public relayerDiscount: BN;
 
   private readonly coingecko;
+  private readonly tokenPriceFeeds: { [l1Token: string]: PriceFeedInterface[] };
 
   /**
    * @notice Constructs new Profitability Calculator Instance.
@@ -42,19 +49,25 @@ export class ProfitabilityCalculator {
    * these tokens and use them when computing if a relay should be executed or not.
    * @param {Number} l1ChainId L1 chain id that the relayer is running on.
    * @param {Number} relayerDiscount Relayer discount applied to relays to offset gas cost.
+   * @param {Object} tokenPriceFeeds Price feeds, or ordered lists of fallback price feeds, that price L1 tokens in ETH.
+   * Tokens without price feeds are priced with CoinGecko.
    */
   constructor(
     readonly logger: winston.Logger,
     readonly l1Tokens: string[],
     readonly l1ChainId: number,
     readonly l1Web3: Web3,
-    readonly relayerDiscountNumber: number = 0
+    readonly relayerDiscountNumber: number = 0,
+    tokenPriceFeeds: TokenPriceFeeds = {}
   ) {
     this.relayerDiscount = toBNWei(Math.floor(relayerDiscountNumber)).div(toBN("100"));
     if (this.relayerDiscount.lt(toBN(0)) || this.relayerDiscount.gt(toBNWei(1)))
       throw new Error("Bad discount factor! 0<=relayerDiscount<=1e18");
 
     this.coingecko = new Coingecko();
+    this.tokenPriceFeeds = objectMap(tokenPriceFeeds, (priceFeeds: PriceFeedInterface | PriceFeedInterface[]) =>
+      Array.isArray(priceFeeds) ? priceFeeds : [priceFeeds]
+    );
   }
 
   async update() {
@@ -82,12 +95,10 @@ export class ProfitabilityCalculator {
       );
     }
 
-    // Fetch the prices of each token, denominated in ETH. If coingecko does not have the price or is down then this
-    // call will fail and the tokenPrices array will have this error. Note that Coingecko could also rate limit this
-    // call. TODO: consider dealing with Coingecko rate limiting.
-    const tokenPrices = await Promise.allSettled(
-      this.l1Tokens.map((l1Token) => this.coingecko.getCurrentPriceByContract(l1Token, "eth"))
-    );
+    // Fetch the prices of each token, denominated in ETH. If none of the token's price sources have the price or are
+    // down then this call will fail and the tokenPrices array will have this error. Note that Coingecko could also
+    // rate limit this call. TODO: consider dealing with Coingecko rate limiting.
+    const tokenPrices = await Promise.allSettled(this.l1Tokens.map((l1Token) => this._fetchTokenEthPrice(l1Token)));
 
     // For each token, extract the price and convert to a wei'd BN. Note that if the type is WETH then the price is 1.
     // This is done as coingecko does not always return the price of 1 for WETH, in ETH. Note that if the status is not
@@ -95,19 +106,20 @@ export class ProfitabilityCalculator {
     // not send arrays (always will be unprofitable) and generate a warning.
     for (const [index, priceResponse] of tokenPrices.entries()) {
       if (priceResponse.status == "fulfilled") {
-        this.l1TokenInfo[this.l1Tokens[index]].tokenEthPrice =
-          this.l1TokenInfo[this.l1Tokens[index]].tokenType == TokenType.WETH
-            ? toBNWei("1")
-            : toBNWei(priceResponse.value[1]);
+        const isWeth = this.l1TokenInfo[this.l1Tokens[index]].tokenType == TokenType.WETH;
+        this.l1TokenInfo[this.l1Tokens[index]].tokenEthPrice = isWeth ? toBNWei("1") : priceResponse.value.price;
+        this.l1TokenInfo[this.l1Tokens[index]].priceSource = isWeth ? "WETH" : priceResponse.value.priceSource;
       } else {
         // Set the price to something very large. This means that the bot will default to continue sending transactions
         // even if it cant find a price for the given l1Token.
         this.l1TokenInfo[this.l1Tokens[index]].tokenEthPrice = toBN(MAX_SAFE_ALLOWANCE);
+        this.l1TokenInfo[this.l1Tokens[index]].priceSource = "MAX_SAFE_ALLOWANCE";
         // This is now set to debug since across v1 is disabled.
         this.logger.debug({
           at: "ProfitabilityCalculator",
           message: "Could not find token price! 💵",
-          mrkdwn: `The CoinGecko price API for the profitability calculator could not find a price for ${this.l1Tokens[index]}. Price defaulting to a high price to ensure the relayer continue running.`,
+          mrkdwn: `The price sources for the profitability calculator could not find a price for ${this.l1Tokens[index]}. Price defaulting to a high price to ensure the relayer continue running.`,
+          error: priceResponse.reason,
           notificationPath: "across-infrastructure",
         });
       }
@@ -116,9 +128,16 @@ export class ProfitabilityCalculator {
     this.logger.debug({
       at: "ProfitabilityCalculator",
       message: "Updated prices",
-      tokenInfo: objectMap(this.l1TokenInfo, (value: { tokenType: TokenType; tokenEthPrice: BN }) => {
-        return { tokenType: TokenType[value.tokenType], tokenEthPrice: fromWei(value.tokenEthPrice) };
-      }),
+      tokenInfo: objectMap(
+        this.l1TokenInfo,
+        (value: { tokenType: TokenType; tokenEthPrice: BN; priceSource?: string }) => {
+          return {
+            tokenType: TokenType[value.tokenType],
+            tokenEthPrice: fromWei(value.tokenEthPrice),
+            priceSource: value.priceSource,
+          };
+        }
+      ),
     });
   }
 
@@ -128,10 +147,10 @@ export class ProfitabilityCalculator {
     slowRevenue: BN,
     speedUpRevenue: BN,
     instantRevenue: BN
-  ): { relaySubmitType: RelaySubmitType; profitabilityInformation: string } {
+  ): { relaySubmitType: RelaySubmitType; profitabilityInformation: string; priceSource?: string } {
     this._throwIfNotInitialized();
     if (!this.l1TokenInfo[l1Token]) throw new Error("Token info not found. Ensure to construct correctly");
-    const { tokenType, tokenEthPrice, decimals } = this.l1TokenInfo[l1Token];
+    const { tokenType, tokenEthPrice, decimals, priceSource } = this.l1TokenInfo[l1Token];
 
     // If the relayer discount is 100% then we can relay tokens with a price of 0. Else, if the price is zero then there
     // is no way that this is a profitable relay. In this case, error out.
@@ -144,6 +163,7 @@ export class ProfitabilityCalculator {
       l1Token,
       tokenType: TokenType[tokenType],
       tokenEthPrice: fromWei(tokenEthPrice),
+      priceSource,
       tokenDecimals: decimals.toString(),
       cumulativeGasPrice: cumulativeGasPrice.toString(),
       relayerDiscount: fromWei(this.relayerDiscount),
@@ -195,9 +215,10 @@ export class ProfitabilityCalculator {
       ethProfitability: objectMap(ethProfitability, (value: BN) => fromWei(value)),
       relaySubmitType: RelaySubmitType[relaySubmitType],
       profitabilityInformation,
+      priceSource,
     });
 
-    return { relaySubmitType, profitabilityInformation };
+    return { relaySubmitType, profitabilityInformation, priceSource };
   }
 
   getRelayEthSubmissionCost(
@@ -279,6 +300,39 @@ export class ProfitabilityCalculator {
     };
   }
 
+  // Fetches the token's price in ETH, scaled to 18 decimals, from its price feeds in order or from CoinGecko if it has
+  // none. Throws if no source returns a price. The returned source names the price feed, e.g. "UniswapV2PriceFeed[0]".
+  private async _fetchTokenEthPrice(l1Token: string): Promise<{ price: BN; priceSource: string }> {
+    const priceFeeds = this.tokenPriceFeeds[l1Token];
+    if (!priceFeeds || priceFeeds.length == 0) {
+      const [, price] = await this.coingecko.getCurrentPriceByContract(l1Token, "eth");
+      return { price: toBNWei(price), priceSource: "Coingecko" };
+    }
+
+    const errors: Error[] = [];
+    for (const [index, priceFeed] of priceFeeds.entries()) {
+      try {
+        await priceFeed.update();
+        const price = priceFeed.getCurrentPrice();
+        if (!price) throw new Error("Price feed returned no price");
+        return {
+          price: ConvertDecimals(priceFeed.getPriceFeedDecimals(), 18)(price),
+          priceSource: `${priceFeed.constructor.name}[${index}]`,
+        };
+      } catch (error) {
+        errors.push(error as Error);
+        this.logger.debug({
+          at: "ProfitabilityCalculator",
+          message: "Price feed failed, falling back to the next one",
+          l1Token,
+          priceFeedIndex: index,
+          error,
+        });
+      }
+    }
+    throw new Error(`All price feeds failed for ${l1Token}: ${errors.map((error) => error.message).join(", ")}`);
+  }
+
   private _throwIfNotInitialized() {
     if (Object.keys(this.l1TokenInfo).length != this.l1Tokens.length)
       throw new Error("ProfitabilityCalculator method called before initialization! Call `update` first.");
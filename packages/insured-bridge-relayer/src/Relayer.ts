@@ -23,6 +23,7 @@ import { previouslySentUnprofitableLog, saveUnprofitableLog } from "./LogHelper"
 
 import type { BN, TransactionType, ExecutedTransaction } from "@uma/common";
 import { MulticallBundler } from "./MulticallBundler";
+import { InventoryPlanner } from "./InventoryPlanner";
 
 // Stores state of Relay (i.e. Pending, Uninitialized, Finalized) and linked L2 deposit parameters.
 type RelayableDeposit = { status: ClientRelayState; deposit: Deposit };
@@ -55,6 +56,8 @@ export class Relayer {
    * queries for L2 FundsDeposited events.
    * @param {number} l2LookbackWindow Used for last-resort block search for a missing deposit event. Should be same
    * period used by default in L2 client to find deposits.
+   * @param {Object} multicallBundler Bundler that relay, dispute and settle transactions are sent through.
+   * @param {Object} inventoryPlanner Optional planner that can pause instant relays of tokens the relayer is low on.
    */
   constructor(
     readonly logger: winston.Logger,
@@ -68,7 +71,8 @@ export class Relayer {
     readonly l1DeployData: BridgePoolDeploymentData,
     readonly l2DeployData: { [key: string]: { blockNumber: number } },
     readonly l2LookbackWindow: number,
-    readonly multicallBundler: MulticallBundler
+    readonly multicallBundler: MulticallBundler,
+    readonly inventoryPlanner?: InventoryPlanner
   ) {}
 
   async checkForPendingDepositsAndRelay(): Promise<void> {
@@ -198,6 +202,7 @@ export class Relayer {
         message: string;
         mrkdwn: string;
         level: string;
+        report: { [key: string]: unknown };
       }
     | undefined
   > {
@@ -349,6 +354,7 @@ export class Relayer {
         message: string;
         mrkdwn: string;
         level?: string | undefined;
+        report?: { [key: string]: unknown };
       }
     | undefined
   > {
@@ -410,7 +416,7 @@ export class Relayer {
       });
       return;
     }
-    const { relaySubmitType, profitabilityInformation } = await this.shouldRelay(
+    const { relaySubmitType, profitabilityInformation, priceSource } = await this.shouldRelay(
       relayableDeposit.deposit,
       relayableDeposit.status,
       realizedLpFeePct,
@@ -423,7 +429,8 @@ export class Relayer {
       profitabilityInformation,
       realizedLpFeePct,
       relayableDeposit,
-      pendingRelay
+      pendingRelay,
+      priceSource
     );
   }
 
@@ -464,12 +471,15 @@ export class Relayer {
     clientRelayState: ClientRelayState,
     realizedLpFeePct: BN,
     hasInstantRelayer: boolean
-  ): Promise<{ relaySubmitType: RelaySubmitType; profitabilityInformation: string }> {
+  ): Promise<{ relaySubmitType: RelaySubmitType; profitabilityInformation: string; priceSource?: string }> {
     const [l1TokenBalance, proposerBondPct] = await Promise.all([
       getTokenBalance(this.l1Client.l1Web3, deposit.l1Token, this.account),
       this.l1Client.getProposerBondPct(),
     ]);
     const relayTokenRequirement = this._getRelayTokenRequirement(deposit, proposerBondPct, realizedLpFeePct);
+    // Instant relays and speed ups tie up the full relay amount, so they are skipped while the inventory planner has
+    // paused them for this token. Slow relays only need the bond and can continue.
+    const instantRelayPaused = this.inventoryPlanner?.isInstantRelayPaused(deposit.l1Token) ?? false;
 
     // There are three different kinds of Revenues that the bot can produce:
     let slowRevenue = toBN("0");
@@ -486,6 +496,7 @@ export class Relayer {
     // state except finalized (i.e can be slow relayed and sped up or only sped up.)
     if (
       !hasInstantRelayer &&
+      !instantRelayPaused &&
       l1TokenBalance.gte(relayTokenRequirement.instant) &&
       clientRelayState === ClientRelayState.Pending
     )
@@ -494,6 +505,7 @@ export class Relayer {
     // c) Balance is large enough to slow relay and then speed up. Only considered if no L1 action has happened yet as
     // wont be able to do an instant relay if the relay has already been slow relayed. In that case, should speedUp.
     if (
+      !instantRelayPaused &&
       l1TokenBalance.gte(relayTokenRequirement.slow.add(relayTokenRequirement.instant)) &&
       clientRelayState == ClientRelayState.Uninitialized
     ) {
@@ -519,6 +531,7 @@ export class Relayer {
       transaction: this._generateSettleRelayTx(deposit, relay),
       message: "Relay settled 💸",
       mrkdwn: this._generateMarkdownForSettle(deposit, relay),
+      report: { action: "settle", depositHash: deposit.depositHash },
     };
   }
 
@@ -528,6 +541,7 @@ export class Relayer {
       message: "Disputed pending relay. Relay was deleted 🚓",
       mrkdwn: this._generateMrkdwnForDispute(deposit, relay),
       level: "error", // Disputes are bad! we should know about this to check out what's going on.
+      report: { action: "dispute", depositHash: deposit.depositHash },
     };
   }
 
@@ -613,17 +627,27 @@ export class Relayer {
     profitabilityInformation: string,
     realizedLpFeePct: BN,
     relayableDeposit: RelayableDeposit,
-    pendingRelay: Relay | undefined
+    pendingRelay: Relay | undefined,
+    priceSource?: string
   ): Promise<
     | {
         transaction: ContractSendMethod;
         message: string;
         mrkdwn: string;
         level?: string;
+        report?: { [key: string]: unknown };
       }
     | undefined
   > {
     const mrkdwn = this._generateMarkdownForRelay(relayableDeposit.deposit, realizedLpFeePct, profitabilityInformation);
+    const report = {
+      action: "relay",
+      relaySubmitType: RelaySubmitType[relaySubmitType],
+      depositHash: relayableDeposit.deposit.depositHash,
+      realizedLpFeePct: realizedLpFeePct.toString(),
+      profitabilityInformation,
+      priceSource,
+    };
     switch (relaySubmitType) {
       case RelaySubmitType.Ignore:
         // Only send warning of unprofitable log once. Check if the bot has previously sent the warning for a given
@@ -634,7 +658,8 @@ export class Relayer {
           mrkdwn: this._generateMarkdownForNonProfitableRelay(relayableDeposit.deposit, profitabilityInformation),
           notificationPath: "across-infrastructure",
         });
-        await saveUnprofitableLog(relayableDeposit.deposit.depositHash); // Save that the depositHash has sent a warning.
+        // Save that the depositHash has sent a warning. Dry runs skip this to not silence the warning for live bots.
+        if (!this.multicallBundler.dryRun) await saveUnprofitableLog(relayableDeposit.deposit.depositHash);
         return;
       case RelaySubmitType.Slow:
         this.logger.debug({
@@ -648,6 +673,7 @@ export class Relayer {
           message: "Slow Relay executed  🐌",
           mrkdwn,
           level: "error", // In almost all normal cases we should not have slow relays. If we do, we should know!
+          report,
         };
 
       case RelaySubmitType.SpeedUp:
@@ -667,6 +693,7 @@ export class Relayer {
             transaction: this._generateSpeedUpRelayTx(relayableDeposit.deposit, pendingRelay),
             message: "Slow relay sped up 🏇",
             mrkdwn,
+            report,
           };
 
       case RelaySubmitType.Instant:
@@ -680,6 +707,7 @@ export class Relayer {
           transaction: this._generateInstantRelayTx(relayableDeposit.deposit, realizedLpFeePct),
           message: "Relay instantly sent 🚀",
           mrkdwn,
+          report,
         };
     }
   }
@@ -1,6 +1,9 @@
 import Web3 from "web3";
 const { toChecksumAddress } = Web3.utils;
 
+import type { InventoryConfig } from "./InventoryPlanner";
+import type { NetworkerConfig } from "@uma/financial-templates-lib";
+
 // These are the block heights at which deposit box contracts were deployed on-chain. We use this in the fallback
 // search for a FundsDeposited L2 event to optimize how we search for the event. We don't need to search for events
 // earlier than the BridgeDepositBox's deployment block. We could try to automatically fetch this from on-chain
@@ -34,6 +37,8 @@ export interface BotModes {
   settlerEnabled: boolean; // Resolves expired relays
   l2FinalizerEnabled: boolean; // Facilitates L2->L1 bridging over the canonical roll-up bridge.
   l1FinalizerEnabled: boolean; // Finalizes the bridging action on L1 for tokens sent over the canonical roll-up bridge.
+  dryRunEnabled: boolean; // Simulates relays, disputes and settlements and reports them instead of sending transactions.
+  inventoryPlannerEnabled: boolean; // Tracks the relayer's capital across tokens and plans rebalancing actions.
 }
 export class RelayerConfig {
   readonly bridgeAdmin: string;
@@ -49,6 +54,9 @@ export class RelayerConfig {
 
   readonly crossDomainFinalizationThreshold: number;
   readonly relayerDiscount: number;
+  readonly tokenPriceFeedConfigs: { [l1Token: string]: any[] };
+  readonly networkerConfig: NetworkerConfig;
+  readonly inventoryConfig: InventoryConfig;
   readonly botModes: BotModes;
 
   readonly l2DeployData: { [key: string]: { blockNumber: number } };
@@ -66,11 +74,16 @@ export class RelayerConfig {
       L2_BLOCK_LOOKBACK,
       CROSS_DOMAIN_FINALIZATION_THRESHOLD,
       RELAYER_DISCOUNT,
+      TOKEN_PRICE_FEED_CONFIGS,
+      NETWORKER_CONFIG,
       RELAYER_ENABLED,
       SETTLER_ENABLED,
       DISPUTER_ENABLED,
       L1_FINALIZER_ENABLED,
       L2_FINALIZER_ENABLED,
+      DRY_RUN_ENABLED,
+      INVENTORY_PLANNER_ENABLED,
+      INVENTORY_CONFIG,
       WHITELISTED_CHAIN_IDS,
       L2_DEPLOY_DATA,
       BRIDGE_POOL_EVENT_SEARCH_FROM_BLOCK,
@@ -89,8 +102,15 @@ export class RelayerConfig {
       settlerEnabled: SETTLER_ENABLED === "true" ? true : false,
       l1FinalizerEnabled: L1_FINALIZER_ENABLED === "true" ? true : false,
       l2FinalizerEnabled: L2_FINALIZER_ENABLED === "true" ? true : false,
+      dryRunEnabled: DRY_RUN_ENABLED === "true" ? true : false,
+      inventoryPlannerEnabled: INVENTORY_PLANNER_ENABLED === "true" ? true : false,
     };
 
+    // The cross domain finalizer sends its transactions directly rather than through the multicall bundler, so it can
+    // not be simulated.
+    if (this.botModes.dryRunEnabled && (this.botModes.l1FinalizerEnabled || this.botModes.l2FinalizerEnabled))
+      throw new Error("L1_FINALIZER_ENABLED and L2_FINALIZER_ENABLED are not supported with DRY_RUN_ENABLED");
+
     this.crossDomainFinalizationThreshold = CROSS_DOMAIN_FINALIZATION_THRESHOLD
       ? Number(CROSS_DOMAIN_FINALIZATION_THRESHOLD)
       : 5;
@@ -102,6 +122,35 @@ export class RelayerConfig {
     if (this.relayerDiscount < 0 || this.relayerDiscount > 100)
       throw new Error("RELAYER_DISCOUNT must be between 0 and 100");
 
+    // TOKEN_PRICE_FEED_CONFIGS maps L1 tokens to financial-templates-lib price feed configs that price the token in ETH.
+    // Map a token to a list of configs to fall back to the next config if a price feed fails. Tokens without configs
+    // are priced with CoinGecko. e.g. {"0x...":[{"type":"uniswap","uniswapAddress":"0x...","twapLength":0}]}
+    const tokenPriceFeedConfigs = JSON.parse(TOKEN_PRICE_FEED_CONFIGS || "{}");
+    this.tokenPriceFeedConfigs = {};
+    for (const [l1Token, priceFeedConfigs] of Object.entries(tokenPriceFeedConfigs))
+      this.tokenPriceFeedConfigs[toChecksumAddress(l1Token)] = Array.isArray(priceFeedConfigs)
+        ? priceFeedConfigs
+        : [priceFeedConfigs];
+
+    // NETWORKER_CONFIG sets the timeout, retry and rate limit settings of the Networker used by the token price feeds.
+    // e.g. {"timeout":10000,"retries":3,"hostRateLimits":{"api.coingecko.com":{"requestsPerSecond":1}}}
+    this.networkerConfig = JSON.parse(NETWORKER_CONFIG || "{}");
+
+    // INVENTORY_CONFIG sets the thresholds used by the inventory planner, with amounts in each token's smallest unit.
+    // Instant relays of a token are paused while the relayer's balance is below its minBalance, and WETH is unwrapped
+    // up to targetEthBalance when the ETH balance drops below minEthBalance. Actions are only logged unless
+    // executeActions is true. e.g. {"executeActions":true,"minEthBalance":"1000000000000000000","tokens":{"0x...":
+    // {"minBalance":"5000000000"}}}
+    const inventoryConfig = JSON.parse(INVENTORY_CONFIG || "{}");
+    this.inventoryConfig = {
+      executeActions: inventoryConfig.executeActions === true,
+      minEthBalance: inventoryConfig.minEthBalance ?? "0",
+      targetEthBalance: inventoryConfig.targetEthBalance ?? inventoryConfig.minEthBalance ?? "0",
+      tokens: {},
+    };
+    for (const [l1Token, tokenConfig] of Object.entries(inventoryConfig.tokens ?? {}))
+      this.inventoryConfig.tokens[toChecksumAddress(l1Token)] = tokenConfig as { minBalance: string };
+
     // L2 start block must be explicitly set unlike L1 due to how L2 nodes work. For best practices, we also should
     // constrain L1 start blocks but this hasn't been an issue empirically. As a data point, Arbitrum Infura has a
     // query limit of up to 100,000 blocks into the past.
@@ -4,9 +4,17 @@ const { toBN } = Web3.utils;
 import winston from "winston";
 import { getAbi } from "@uma/contracts-node";
 import { ZERO_ADDRESS } from "@uma/common";
-import { GasEstimator, setAllowance, InsuredBridgeL1Client, InsuredBridgeL2Client } from "@uma/financial-templates-lib";
+import {
+  GasEstimator,
+  setAllowance,
+  InsuredBridgeL1Client,
+  InsuredBridgeL2Client,
+  Networker,
+  createPriceFeed,
+} from "@uma/financial-templates-lib";
 
 import type { BN } from "@uma/common";
+import type { PriceFeedInterface, NetworkerConfig } from "@uma/financial-templates-lib";
 
 // Iterates over a provided array of whitelistedRelayL1Tokens and for each: a) checks that this is a valid L1 token
 // within the whitelist and b) approves this token to be spent by the associated L1 bridgePool.
@@ -81,3 +89,27 @@ export function pruneWhitelistedL1Tokens(
 export async function getTokenBalance(web3: Web3, tokenAddress: string, account: string): Promise<BN> {
   return toBN(await new web3.eth.Contract(getAbi("ExpandedERC20"), tokenAddress).methods.balanceOf(account).call());
 }
+
+// Creates the price feeds for each L1 token from their financial-templates-lib price feed configs, keeping their order.
+// Throws if any config is invalid.
+export async function createTokenPriceFeeds(
+  logger: winston.Logger,
+  web3: Web3,
+  tokenPriceFeedConfigs: { [l1Token: string]: any[] },
+  networkerConfig: NetworkerConfig = {}
+): Promise<{ [l1Token: string]: PriceFeedInterface[] }> {
+  const networker = new Networker(logger, networkerConfig);
+  const getTime = async () => Math.round(new Date().getTime() / 1000);
+
+  const tokenPriceFeeds: { [l1Token: string]: PriceFeedInterface[] } = {};
+  for (const [l1Token, priceFeedConfigs] of Object.entries(tokenPriceFeedConfigs)) {
+    tokenPriceFeeds[l1Token] = await Promise.all(
+      priceFeedConfigs.map(async (priceFeedConfig) => {
+        const priceFeed = await createPriceFeed(logger, web3, networker, getTime, priceFeedConfig);
+        if (!priceFeed) throw new Error(`Invalid price feed config for L1 token ${l1Token}`);
+        return priceFeed;
+      })
+    );
+  }
+  return tokenPriceFeeds;
+}
@@ -0,0 +1,35 @@
+import { across } from "@uma/sdk";
+import { getAbi } from "@uma/contracts-node";
+import { getContractDefinition } from "@eth-optimism/contracts";
+
+import { OptimismBridgeAdapter } from "./OptimismBridgeAdapter";
+
+// Boba is a fork of Optimism, so messages are proven and relayed to L1 the same way. Only the L1 contracts differ, which
+// are looked up from Boba's AddressManager on initialization.
+export class BobaBridgeAdapter extends OptimismBridgeAdapter {
+  protected readonly name = "Boba";
+
+  async initialize() {
+    const l1ChainId = await this.l1Web3.eth.getChainId();
+    const addressManagerAddress = across.clients.bobaBridge.l1Contracts.ADDRESS_MANAGER_ADDRESS[l1ChainId];
+    if (!addressManagerAddress) throw new Error(`No Boba AddressManager for L1 chainId ${l1ChainId}`);
+    const addressManager = new this.l1Web3.eth.Contract(getAbi("BobaAddressManager"), addressManagerAddress);
+
+    const [l1StateCommitmentChainAddress, l1CrossDomainMessengerAddress] = await Promise.all([
+      addressManager.methods.getAddress("StateCommitmentChain").call(),
+      addressManager.methods.getAddress("Proxy__L1CrossDomainMessenger").call(),
+    ]);
+    this.l1StateCommitmentChainAddress = l1StateCommitmentChainAddress;
+    this.l1CrossDomainMessenger = new this.l1Web3.eth.Contract(
+      getContractDefinition("IL1CrossDomainMessenger").abi,
+      l1CrossDomainMessengerAddress
+    );
+
+    this.logger.debug({
+      at: "BobaBridgeAdapter",
+      message: "Initialized Boba Bridge Adapter",
+      l1StateCommitmentChainAddress,
+      l1CrossDomainMessengerAddress,
+    });
+  }
+}
@@ -5,6 +5,8 @@ import Web3 from "web3";
 import BridgeAdapterInterface from "./BridgeAdapterInterface";
 import { ArbitrumBridgeAdapter } from "./ArbitrumBridgeAdapter";
 import { OptimismBridgeAdapter } from "./OptimismBridgeAdapter";
+import { BobaBridgeAdapter } from "./BobaBridgeAdapter";
+import { PolygonBridgeAdapter } from "./PolygonBridgeAdapter";
 
 export function createBridgeAdapter(
   logger: winston.Logger,
@@ -14,7 +16,11 @@ export function createBridgeAdapter(
 ): BridgeAdapterInterface {
   if (l2ChainId == 42161) return new ArbitrumBridgeAdapter(logger, l1Web3, l2Web3);
 
-  if (l2ChainId == 10 || l2ChainId == 288) return new OptimismBridgeAdapter(logger, l1Web3, l2Web3);
+  if (l2ChainId == 10) return new OptimismBridgeAdapter(logger, l1Web3, l2Web3);
+
+  if (l2ChainId == 288) return new BobaBridgeAdapter(logger, l1Web3, l2Web3);
+
+  if (l2ChainId == 137 || l2ChainId == 80001) return new PolygonBridgeAdapter(logger, l1Web3, l2Web3);
 
   throw new Error(`Unsupported l2ChainId ${l2ChainId}`);
 }
@@ -13,13 +13,15 @@ import Web3 from "web3";
 import { Contract } from "web3-eth-contract";
 
 import type { TransactionType } from "@uma/common";
+import type { CrossDomainMessagePair } from "@eth-optimism/message-relayer";
 
 export class OptimismBridgeAdapter implements BridgeAdapterInterface {
-  private l1EthersProvider: providers.JsonRpcProvider;
-  private l2EthersProvider: providers.JsonRpcProvider;
-  private l1StateCommitmentChainAddress: string;
-  private l2CrossDomainMessengerAddress: string;
-  private l1CrossDomainMessenger: Contract;
+  protected readonly name: string = "Optimism";
+  protected l1EthersProvider: providers.JsonRpcProvider;
+  protected l2EthersProvider: providers.JsonRpcProvider;
+  protected l1StateCommitmentChainAddress: string;
+  protected l2CrossDomainMessengerAddress: string;
+  protected l1CrossDomainMessenger: Contract;
 
   constructor(readonly logger: winston.Logger, readonly l1Web3: Web3, readonly l2Web3: Web3) {
     // Set providers for L1 and L2. Optimism package requires ethers providers.
@@ -43,21 +45,15 @@ export class OptimismBridgeAdapter implements BridgeAdapterInterface {
     l2TransactionHash: string
   ): Promise<{ l2TransactionHash: string; finalizationTransaction: TransactionType | null }> {
     // Fetch Message proofs.
-    const messagePairs = await getMessagesAndProofsForL2Transaction(
-      this.l1EthersProvider,
-      this.l2EthersProvider,
-      this.l1StateCommitmentChainAddress,
-      this.l2CrossDomainMessengerAddress,
-      l2TransactionHash
-    );
+    const messagePairs = await this.getMessagesAndProofs(l2TransactionHash);
 
     // Note that in principle, a single transaction could trigger any number of outgoing messages; However, the bridge
     // deposit box used in across is designed to only send one at a time.
     if (messagePairs.length !== 1) {
       const error = new Error(`No (or wrong number) of outgoing messages found in transaction:${l2TransactionHash}`);
       this.logger.error({
-        at: "OptimismBridgeAdapter",
-        message: "Bad Optimism L2 Transaction included 🤢!",
+        at: `${this.name}BridgeAdapter`,
+        message: `Bad ${this.name} L2 Transaction included 🤢!`,
         l2TransactionHash,
         error,
       });
@@ -82,13 +78,24 @@ export class OptimismBridgeAdapter implements BridgeAdapterInterface {
       await finalizationTransaction.call({ from: ZERO_ADDRESS });
 
       this.logger.debug({
-        at: "OptimismBridgeAdapter",
+        at: `${this.name}BridgeAdapter`,
         message: `Constructing cross domain finalization transaction for ${l2TransactionHash}`,
       });
       return { l2TransactionHash, finalizationTransaction };
     } catch (error) {
-      this.logger.debug({ at: "OptimismBridgeAdapter", message: `${l2TransactionHash} is not confirmed` });
+      this.logger.debug({ at: `${this.name}BridgeAdapter`, message: `${l2TransactionHash} is not confirmed` });
       return { l2TransactionHash, finalizationTransaction: null };
     }
   }
+
+  // Fetches the messages sent to L1 in the L2 transaction and the proofs needed to relay them.
+  protected async getMessagesAndProofs(l2TransactionHash: string): Promise<CrossDomainMessagePair[]> {
+    return await getMessagesAndProofsForL2Transaction(
+      this.l1EthersProvider,
+      this.l2EthersProvider,
+      this.l1StateCommitmentChainAddress,
+      this.l2CrossDomainMessengerAddress,
+      l2TransactionHash
+    );
+  }
 }
@@ -0,0 +1,126 @@
+import winston from "winston";
+import { ZERO_ADDRESS } from "@uma/common";
+
+import MaticJs from "@maticnetwork/maticjs";
+import { Web3ClientPlugin } from "@maticnetwork/maticjs-web3";
+
+import BridgeAdapterInterface from "./BridgeAdapterInterface";
+
+import Web3 from "web3";
+import type { Contract } from "web3-eth-contract";
+import type { AbiItem } from "web3-utils";
+import type { TransactionType } from "@uma/common";
+
+// Tokens sent from Polygon are burnt, which emits an ERC20 Transfer event. Exits on L1 are proven against this event.
+// - Source: https://maticnetwork.github.io/matic.js/docs/pos/erc20/withdraw-exit/
+const ERC20_TRANSFER_EVENT_SIG = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+// Proxy addresses of Polygon's RootChainManager on L1, keyed by L2 chainId.
+const ROOT_CHAIN_MANAGER_ADDRESS: { [l2ChainId: number]: string } = {
+  137: "0xA0c68C638235ee32657e8f720a23ceC1bFc77C77",
+  80001: "0xBbD7cBFA79faee899Eaf900F13C9065bF03B1A74",
+};
+
+const ROOT_CHAIN_MANAGER_ABI: AbiItem[] = [
+  {
+    inputs: [{ internalType: "bytes", name: "inputData", type: "bytes" }],
+    name: "exit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
+
+// Subset of the matic.js POSClient used to check for checkpoints and build exit proofs.
+export interface PolygonPosClient {
+  exitUtil: {
+    isCheckPointed(burnTxHash: string): Promise<boolean>;
+    buildPayloadForExit(burnTxHash: string, logEventSig: string, isFast: boolean): Promise<string>;
+  };
+}
+
+export class PolygonBridgeAdapter implements BridgeAdapterInterface {
+  private rootChainManager: Contract | undefined = undefined;
+
+  /**
+   * @notice Constructs new PolygonBridgeAdapter instance.
+   * @param {Object} logger Module used to send logs.
+   * @param {Object} l1Web3 Web3 instance on L1, where tokens are exited to.
+   * @param {Object} l2Web3 Web3 instance on Polygon, where tokens are sent from.
+   * @param {Object} posClient matic.js POSClient. Constructed on initialization if not provided.
+   */
+  constructor(
+    readonly logger: winston.Logger,
+    readonly l1Web3: Web3,
+    readonly l2Web3: Web3,
+    public posClient: PolygonPosClient | undefined = undefined
+  ) {}
+
+  async initialize() {
+    const l2ChainId = await this.l2Web3.eth.getChainId();
+    if (!ROOT_CHAIN_MANAGER_ADDRESS[l2ChainId]) throw new Error(`Unsupported l2ChainId ${l2ChainId}`);
+    this.rootChainManager = new this.l1Web3.eth.Contract(ROOT_CHAIN_MANAGER_ABI, ROOT_CHAIN_MANAGER_ADDRESS[l2ChainId]);
+
+    if (!this.posClient) {
+      MaticJs.use(Web3ClientPlugin);
+      const posClient = new MaticJs.POSClient();
+      await posClient.init({
+        network: l2ChainId === 137 ? "mainnet" : "testnet",
+        version: l2ChainId === 137 ? "v1" : "mumbai",
+        parent: { provider: this.l1Web3.currentProvider },
+        child: { provider: this.l2Web3.currentProvider },
+      });
+      this.posClient = posClient;
+    }
+
+    this.logger.debug({ at: "PolygonBridgeAdapter", message: "Initialized Polygon Bridge Adapter" });
+  }
+
+  async constructCrossDomainFinalizationTransaction(
+    l2TransactionHash: string
+  ): Promise<{ l2TransactionHash: string; finalizationTransaction: TransactionType | null }> {
+    if (!this.posClient || !this.rootChainManager) throw new Error("Bridge is not initialized");
+
+    // The block containing the L2 transaction must be checkpointed to L1 before tokens can be exited. Checkpoints happen
+    // roughly every hour.
+    if (!(await this.posClient.exitUtil.isCheckPointed(l2TransactionHash))) {
+      this.logger.debug({ at: "PolygonBridgeAdapter", message: `${l2TransactionHash} is not confirmed` });
+      return { l2TransactionHash, finalizationTransaction: null };
+    }
+
+    let proof: string;
+    try {
+      proof = await this.posClient.exitUtil.buildPayloadForExit(l2TransactionHash, ERC20_TRANSFER_EVENT_SIG, false);
+      if (!proof) throw new Error("Proof construction succeeded but returned undefined");
+    } catch (error) {
+      this.logger.error({
+        at: "PolygonBridgeAdapter",
+        message: "Bad Polygon Proof generation 🤮!",
+        l2TransactionHash,
+        error,
+      });
+      throw error;
+    }
+
+    const finalizationTransaction = this.rootChainManager.methods.exit(proof);
+
+    // Exits can only be processed once. Like the Optimism adapter, check that the exit would not revert to avoid
+    // sending exits that have already been processed.
+    try {
+      await finalizationTransaction.call({ from: ZERO_ADDRESS });
+
+      this.logger.debug({
+        at: "PolygonBridgeAdapter",
+        message: `Constructing cross domain finalization transaction for ${l2TransactionHash}`,
+      });
+      return { l2TransactionHash, finalizationTransaction };
+    } catch (error) {
+      this.logger.debug({
+        at: "PolygonBridgeAdapter",
+        message: `${l2TransactionHash} can not be exited`,
+        exitAlreadyProcessed: (error as Error)?.message.includes("EXIT_ALREADY_PROCESSED"),
+      });
+      return { l2TransactionHash, finalizationTransaction: null };
+    }
+  }
+}
@@ -5,6 +5,7 @@ import { config } from "dotenv";
 import lodash from "lodash";
 
 import { getWeb3, getWeb3ByChainId, processTransactionPromiseBatch, getRetryWeb3sByChainId } from "@uma/common";
+import { getAddress } from "@uma/contracts-node";
 
 import {
   GasEstimator,
@@ -15,15 +16,18 @@ import {
 } from "@uma/financial-templates-lib";
 
 import { Relayer } from "./Relayer";
-import { approveL1Tokens, pruneWhitelistedL1Tokens } from "./RelayerHelpers";
+import { approveL1Tokens, pruneWhitelistedL1Tokens, createTokenPriceFeeds } from "./RelayerHelpers";
 import { ProfitabilityCalculator } from "./ProfitabilityCalculator";
 import { CrossDomainFinalizer } from "./CrossDomainFinalizer";
 import { createBridgeAdapter } from "./canonical-bridge-adapters/CreateBridgeAdapter";
 import { RelayerConfig } from "./RelayerConfig";
 import { MulticallBundler } from "./MulticallBundler";
+import { InventoryPlanner } from "./InventoryPlanner";
 import { isErrorOutput } from "./helpers";
 config();
 
+const { toChecksumAddress } = Web3.utils;
+
 export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
   try {
     const config = new RelayerConfig(process.env);
@@ -42,7 +46,13 @@ export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
     const gasEstimator = new GasEstimator(logger, 60, l1ChainId, l1Web3);
     await gasEstimator.update();
 
-    const multicallBundler = new MulticallBundler(logger, gasEstimator, l1Web3, accounts[0]);
+    const multicallBundler = new MulticallBundler(
+      logger,
+      gasEstimator,
+      l1Web3,
+      accounts[0],
+      config.botModes.dryRunEnabled
+    );
 
     // Create L1/L2 clients to pull data to inform the relayer.
     // todo: add in start and ending block numbers (if need be).
@@ -58,6 +68,32 @@ export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
     );
     await l1Client.update();
 
+    // Price feeds used to price L1 tokens for relay profitability. Shared by the profitability calculator of each chain.
+    const tokenPriceFeeds = await createTokenPriceFeeds(
+      logger,
+      l1Web3,
+      config.tokenPriceFeedConfigs,
+      config.networkerConfig
+    );
+
+    // The inventory planner tracks the relayer's capital in every token it can relay, so it is shared by all chains.
+    // These are the tokens whitelisted for any activated chain, which are the tokens the relayers whitelist below.
+    const inventoryPlanner = config.botModes.inventoryPlannerEnabled
+      ? new InventoryPlanner(
+          logger,
+          l1Client,
+          lodash.uniq(
+            config.activatedChainIds
+              .map((chainId) => Object.keys(l1Client.getWhitelistedTokensForChainId(chainId.toString())))
+              .flat()
+          ),
+          accounts[0],
+          toChecksumAddress(await getAddress("WETH9", l1ChainId)),
+          config.inventoryConfig,
+          multicallBundler
+        )
+      : undefined;
+
     // TODO: Add a method to fetch all registered chainIDs from bridge admin to let the bot default to all chains when
     // the config does not include activatedChainIds.
 
@@ -95,7 +131,8 @@ export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
           filteredL1Whitelist,
           l1ChainId,
           l1Web3,
-          config.relayerDiscount
+          config.relayerDiscount,
+          tokenPriceFeeds
         );
 
         const relayer = new Relayer(
@@ -110,7 +147,8 @@ export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
           l1Client.getBridgePoolDeployData(),
           config.l2DeployData,
           config.l2BlockLookback,
-          multicallBundler
+          multicallBundler,
+          inventoryPlanner
         );
 
         const canonicalBridgeAdapter = createBridgeAdapter(logger, l1Web3, l2Web3, chainId);
@@ -139,8 +177,12 @@ export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
 
     // For all specified whitelisted L1 tokens that this relayer supports, approve the bridge pool to spend them. This
     // method will error if the bot runner has specified a L1 tokens that is not part of the Bridge Admin whitelist.
+    // Dry runs send no transactions, so skip the approvals. Simulated relays revert if the approvals are missing.
     const combinedFilteredL1Whitelist = lodash.uniq(relayers.map((relayer) => relayer.filteredL1Whitelist).flat());
-    await approveL1Tokens(logger, l1Web3, gasEstimator, accounts[0], config.bridgeAdmin, combinedFilteredL1Whitelist);
+    if (config.botModes.dryRunEnabled)
+      logger.debug({ at: "AcrossRelayer#index", message: "Dry run enabled, skipping L1 token approvals" });
+    else
+      await approveL1Tokens(logger, l1Web3, gasEstimator, accounts[0], config.bridgeAdmin, combinedFilteredL1Whitelist);
     for (;;) {
       const outputs = await Promise.allSettled(
         relayers.map(async ({ relayer, crossDomainFinalizer, l2Client, profitabilityCalculator }) => {
@@ -192,6 +234,11 @@ export async function run(logger: winston.Logger, l1Web3: Web3): Promise<void> {
         })
       );
 
+      // Plan rebalancing with the state fetched above. Any WETH unwrap is sent with the transactions below and instant
+      // relays that are paused apply from the next run.
+      if (inventoryPlanner) await inventoryPlanner.checkInventoryAndRebalance();
+      else logger.debug({ at: "AcrossRelayer#InventoryPlanner", message: "Inventory planner disabled" });
+
       // The multicall bundler may have accrued transactions over the course of the run.
       // This call fires off those transactions, but does not wait on them to be mined.
       // Note: we wait until this point to actually send off the transactions to make bundles as large as possible.
@@ -0,0 +1,192 @@
+import winston from "winston";
+import sinon from "sinon";
+import Web3 from "web3";
+const { randomHex, toChecksumAddress, padLeft } = Web3.utils;
+
+import { SpyTransport, lastSpyLogIncludes } from "@uma/financial-templates-lib";
+import { across } from "@uma/sdk";
+
+import { assert } from "chai";
+
+// Tested modules.
+import { BobaBridgeAdapter } from "../src/canonical-bridge-adapters/BobaBridgeAdapter";
+import { PolygonBridgeAdapter } from "../src/canonical-bridge-adapters/PolygonBridgeAdapter";
+
+// Mocks.
+import { MockWeb3Provider } from "./mocks/MockWeb3Provider";
+
+const l2TransactionHash = randomHex(32);
+
+let spy: any;
+let spyLogger: any;
+
+describe("BridgeAdapters.ts", function () {
+  beforeEach(async function () {
+    spy = sinon.spy();
+    spyLogger = winston.createLogger({ level: "debug", transports: [new SpyTransport({ level: "debug" }, { spy })] });
+  });
+
+  describe("PolygonBridgeAdapter", function () {
+    const rootChainManagerAddress = "0xA0c68C638235ee32657e8f720a23ceC1bFc77C77";
+    const proof = randomHex(64);
+
+    let l1Provider: MockWeb3Provider;
+    let posClient: any;
+    let polygonBridgeAdapter: PolygonBridgeAdapter;
+
+    beforeEach(async function () {
+      l1Provider = new MockWeb3Provider(1);
+      posClient = {
+        exitUtil: { isCheckPointed: sinon.stub().resolves(true), buildPayloadForExit: sinon.stub().resolves(proof) },
+      };
+      polygonBridgeAdapter = new PolygonBridgeAdapter(
+        spyLogger,
+        new Web3(l1Provider as any),
+        new Web3(new MockWeb3Provider(137) as any),
+        posClient
+      );
+      await polygonBridgeAdapter.initialize();
+    });
+
+    it("Does not finalize transactions that are not checkpointed", async function () {
+      posClient.exitUtil.isCheckPointed.resolves(false);
+
+      const result = await polygonBridgeAdapter.constructCrossDomainFinalizationTransaction(l2TransactionHash);
+      assert.deepEqual(result, { l2TransactionHash, finalizationTransaction: null });
+      assert.isFalse(posClient.exitUtil.buildPayloadForExit.called);
+      assert.isTrue(lastSpyLogIncludes(spy, "is not confirmed"));
+    });
+
+    it("Exits checkpointed transactions through the RootChainManager", async function () {
+      const result = await polygonBridgeAdapter.constructCrossDomainFinalizationTransaction(l2TransactionHash);
+      assert.equal(result.l2TransactionHash, l2TransactionHash);
+      assert.isNotNull(result.finalizationTransaction);
+
+      // The proof is built for the burn in the L2 transaction and the exit is simulated on L1 before being returned.
+      assert.equal(posClient.exitUtil.buildPayloadForExit.firstCall.args[0], l2TransactionHash);
+      const exitData = (result.finalizationTransaction as any).encodeABI();
+      assert.isTrue(exitData.startsWith(Web3.utils.sha3("exit(bytes)")?.slice(0, 10)));
+      assert.deepEqual(l1Provider.calls, [{ to: rootChainManagerAddress.toLowerCase(), data: exitData }]);
+      assert.isTrue(lastSpyLogIncludes(spy, "Constructing cross domain finalization transaction"));
+    });
+
+    it("Does not finalize transactions that have already been exited", async function () {
+      l1Provider.handleCall = () => {
+        throw new Error("RootChainManager: EXIT_ALREADY_PROCESSED");
+      };
+
+      const result = await polygonBridgeAdapter.constructCrossDomainFinalizationTransaction(l2TransactionHash);
+      assert.isNull(result.finalizationTransaction);
+      assert.isTrue(spy.lastCall.lastArg.exitAlreadyProcessed);
+    });
+
+    it("Throws on unsupported chains", async function () {
+      const adapter = new PolygonBridgeAdapter(
+        spyLogger,
+        new Web3(l1Provider as any),
+        new Web3(new MockWeb3Provider(42161) as any),
+        posClient
+      );
+      try {
+        await adapter.initialize();
+        assert.fail("Should have thrown");
+      } catch (error) {
+        assert.include((error as Error).message, "Unsupported l2ChainId 42161");
+      }
+    });
+  });
+
+  describe("BobaBridgeAdapter", function () {
+    const addressManagerAddress = across.clients.bobaBridge.l1Contracts.ADDRESS_MANAGER_ADDRESS[1];
+    const stateCommitmentChainAddress = toChecksumAddress(randomHex(20));
+    const l1CrossDomainMessengerAddress = toChecksumAddress(randomHex(20));
+
+    const messagePair = {
+      message: {
+        target: toChecksumAddress(randomHex(20)),
+        sender: toChecksumAddress(randomHex(20)),
+        message: randomHex(68),
+        messageNonce: 1,
+      },
+      proof: {
+        stateRoot: randomHex(32),
+        stateRootBatchHeader: {
+          batchIndex: 1,
+          batchRoot: randomHex(32),
+          batchSize: 1,
+          prevTotalElements: 1,
+          extraData: "0x",
+        },
+        stateRootProof: { index: 0, siblings: [randomHex(32)] },
+        stateTrieWitness: randomHex(32),
+        storageTrieWitness: randomHex(32),
+      },
+    };
+
+    let l1Provider: MockWeb3Provider;
+    let bobaBridgeAdapter: BobaBridgeAdapter;
+
+    beforeEach(async function () {
+      // The L1 AddressManager returns the address of the contract registered under the requested name.
+      const registeredAddresses: { [name: string]: string } = {
+        StateCommitmentChain: stateCommitmentChainAddress,
+        Proxy__L1CrossDomainMessenger: l1CrossDomainMessengerAddress,
+      };
+      l1Provider = new MockWeb3Provider(1, (to, data) => {
+        if (to === addressManagerAddress.toLowerCase()) {
+          const name = new Web3().eth.abi.decodeParameter("string", `0x${data.slice(10)}`) as unknown;
+          return padLeft(registeredAddresses[name as string], 64);
+        }
+        return "0x";
+      });
+      bobaBridgeAdapter = new BobaBridgeAdapter(
+        spyLogger,
+        new Web3(l1Provider as any),
+        new Web3(new MockWeb3Provider(288) as any)
+      );
+      await bobaBridgeAdapter.initialize();
+    });
+
+    it("Looks up L1 contracts from the Boba AddressManager", async function () {
+      assert.isTrue(lastSpyLogIncludes(spy, "Initialized Boba Bridge Adapter"));
+      assert.equal(spy.lastCall.lastArg.l1StateCommitmentChainAddress, stateCommitmentChainAddress);
+      assert.equal(spy.lastCall.lastArg.l1CrossDomainMessengerAddress, l1CrossDomainMessengerAddress);
+    });
+
+    it("Relays confirmed messages through the Boba L1CrossDomainMessenger", async function () {
+      sinon.stub(bobaBridgeAdapter as any, "getMessagesAndProofs").resolves([messagePair]);
+      const result = await bobaBridgeAdapter.constructCrossDomainFinalizationTransaction(l2TransactionHash);
+      assert.isNotNull(result.finalizationTransaction);
+
+      const relayData = (result.finalizationTransaction as any).encodeABI();
+      assert.deepEqual(l1Provider.calls[l1Provider.calls.length - 1], {
+        to: l1CrossDomainMessengerAddress.toLowerCase(),
+        data: relayData,
+      });
+      assert.isTrue(lastSpyLogIncludes(spy, "Constructing cross domain finalization transaction"));
+      assert.equal(spy.lastCall.lastArg.at, "BobaBridgeAdapter");
+    });
+
+    it("Does not relay unconfirmed messages", async function () {
+      sinon.stub(bobaBridgeAdapter as any, "getMessagesAndProofs").resolves([messagePair]);
+      l1Provider.handleCall = () => {
+        throw new Error("Provided message could not be verified.");
+      };
+
+      const result = await bobaBridgeAdapter.constructCrossDomainFinalizationTransaction(l2TransactionHash);
+      assert.isNull(result.finalizationTransaction);
+      assert.isTrue(lastSpyLogIncludes(spy, "is not confirmed"));
+    });
+
+    it("Throws on transactions without exactly one message", async function () {
+      sinon.stub(bobaBridgeAdapter as any, "getMessagesAndProofs").resolves([messagePair, messagePair]);
+      try {
+        await bobaBridgeAdapter.constructCrossDomainFinalizationTransaction(l2TransactionHash);
+        assert.fail("Should have thrown");
+      } catch (error) {
+        assert.include((error as Error).message, "wrong number");
+      }
+      assert.isTrue(lastSpyLogIncludes(spy, "Bad Boba L2 Transaction included"));
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import winston from "winston";
+import sinon from "sinon";
+import Web3 from "web3";
+const { toWei, randomHex, toChecksumAddress } = Web3.utils;
+
+import { SpyTransport, ClientRelayState, SettleableRelay } from "@uma/financial-templates-lib";
+
+import { assert } from "chai";
+
+// Tested module
+import { InventoryPlanner, InventoryConfig, RebalanceActionType } from "../src/InventoryPlanner";
+
+import type { InsuredBridgeL1Client, Relay } from "@uma/financial-templates-lib";
+import type { MulticallBundler } from "../src/MulticallBundler";
+
+const account = toChecksumAddress(randomHex(20));
+const otherRelayer = toChecksumAddress(randomHex(20));
+const wethAddress = toChecksumAddress(randomHex(20));
+const usdcAddress = toChecksumAddress(randomHex(20));
+
+let spy: any;
+let spyLogger: any;
+let balances: { [address: string]: string };
+let pendingRelays: Relay[];
+let instantRelayers: { [depositHash: string]: string };
+let bundledCalls: any[];
+
+class Contract {
+  public methods = {
+    balanceOf: () => ({ call: () => balances[this.address] }),
+    withdraw: (amount: string) => ({ amount }),
+  };
+
+  constructor(abi: any, readonly address: string) {}
+}
+
+const mockWeb3 = ({
+  eth: { Contract, getBalance: async () => balances[account] },
+} as unknown) as Web3;
+
+const mockL1Client = ({
+  l1Web3: mockWeb3,
+  getBridgePoolForL1Token: (l1Token: string) =>
+    l1Token === wethAddress
+      ? { poolCollateralSymbol: "WETH", poolCollateralDecimals: 18 }
+      : { poolCollateralSymbol: "USDC", poolCollateralDecimals: 6 },
+  getPendingRelayedDeposits: () => pendingRelays,
+  getInstantRelayer: (l1Token: string, depositHash: string) => instantRelayers[depositHash],
+} as unknown) as InsuredBridgeL1Client;
+
+const mockMulticallBundler = ({
+  addTransactions: (...calls: any[]) => bundledCalls.push(...calls),
+} as unknown) as MulticallBundler;
+
+const createRelay = (params: Partial<Relay>): Relay => ({
+  relayId: 0,
+  chainId: 10,
+  depositId: 0,
+  l1Token: usdcAddress,
+  l2Sender: otherRelayer,
+  l1Recipient: otherRelayer,
+  amount: "1000000000", // 1000 USDC.
+  slowRelayFeePct: toWei("0.01"),
+  instantRelayFeePct: toWei("0.01"),
+  realizedLpFeePct: toWei("0.1"),
+  depositHash: randomHex(32),
+  slowRelayer: account,
+  quoteTimestamp: 0,
+  priceRequestTime: 0,
+  relayState: ClientRelayState.Pending,
+  relayAncillaryDataHash: randomHex(32),
+  proposerBond: "50000000", // 50 USDC.
+  finalFee: "10000000", // 10 USDC.
+  settleable: SettleableRelay.CannotSettle,
+  blockNumber: 0,
+  ...params,
+});
+
+describe("InventoryPlanner.ts", function () {
+  const config: InventoryConfig = {
+    executeActions: false,
+    minEthBalance: toWei("1"),
+    targetEthBalance: toWei("2"),
+    tokens: { [usdcAddress]: { minBalance: "500000000" }, [wethAddress]: { minBalance: toWei("10") } },
+  };
+
+  beforeEach(async function () {
+    spy = sinon.spy();
+    spyLogger = winston.createLogger({ level: "debug", transports: [new SpyTransport({ level: "debug" }, { spy })] });
+    balances = { [account]: toWei("5"), [wethAddress]: toWei("20"), [usdcAddress]: "1000000000" };
+    pendingRelays = [];
+    instantRelayers = {};
+    bundledCalls = [];
+  });
+
+  const createPlanner = (plannerConfig: InventoryConfig = config) =>
+    new InventoryPlanner(
+      spyLogger,
+      mockL1Client,
+      [wethAddress, usdcAddress],
+      account,
+      wethAddress,
+      plannerConfig,
+      mockMulticallBundler
+    );
+
+  it("Tracks bonds, instant relays and expected settlements", async function () {
+    const slowRelay = createRelay({ settleable: SettleableRelay.SlowRelayerCanSettle });
+    const spedUpRelay = createRelay({ slowRelayer: otherRelayer });
+    const otherRelay = createRelay({ slowRelayer: otherRelayer });
+    pendingRelays = [slowRelay, spedUpRelay, otherRelay];
+    instantRelayers = { [spedUpRelay.depositHash]: account };
+
+    const planner = createPlanner();
+    await planner.update();
+    const usdcInventory = planner.inventory[usdcAddress];
+
+    // The slow relay bonded 50 + 10 USDC and earns a 10 USDC slow relay fee on settlement.
+    assert.equal(usdcInventory.bondedInSlowRelays.toString(), "60000000");
+    // The sped up relay sent 1000 * (1 - 0.1 - 0.01 - 0.01) = 880 USDC and is reimbursed 1000 * (1 - 0.1 - 0.01) = 890.
+    assert.equal(usdcInventory.lentInInstantRelays.toString(), "880000000");
+    assert.equal(usdcInventory.expectedSettlements.toString(), "960000000");
+    assert.equal(usdcInventory.settleableSettlements.toString(), "70000000");
+    assert.equal(usdcInventory.projectedBalance.toString(), "1960000000");
+    assert.equal(planner.inventory[wethAddress].expectedSettlements.toString(), "0");
+  });
+
+  it("Recommends actions without executing them", async function () {
+    balances[account] = toWei("0.5");
+    balances[usdcAddress] = "100000000";
+
+    const planner = createPlanner();
+    await planner.checkInventoryAndRebalance();
+
+    // WETH is unwrapped up to the target ETH balance and instant relays are paused for the USDC shortfall, which will
+    // not be covered by any settlements.
+    assert.deepEqual(
+      planner.actions.map(({ type, l1Token, amount }) => ({ type, l1Token, amount })),
+      [
+        { type: RebalanceActionType.PauseInstantRelays, l1Token: usdcAddress, amount: undefined },
+        { type: RebalanceActionType.TopUp, l1Token: usdcAddress, amount: "400000000" },
+        { type: RebalanceActionType.UnwrapWeth, l1Token: wethAddress, amount: toWei("1.5") },
+      ]
+    );
+    assert.equal(spy.lastCall.lastArg.message, "Rebalancing actions recommended ⚖️");
+    assert.isFalse(planner.isInstantRelayPaused(usdcAddress));
+    assert.equal(bundledCalls.length, 0);
+  });
+
+  it("Only warns about new or changed actions", async function () {
+    balances[usdcAddress] = "100000000";
+    const warnCount = () => spy.getCalls().filter((call: any) => call.lastArg.level === "warn").length;
+
+    // Without executing actions, the same pause and top up are planned on every loop but only reported once.
+    const planner = createPlanner();
+    await planner.checkInventoryAndRebalance();
+    await planner.checkInventoryAndRebalance();
+    assert.deepEqual(
+      planner.actions.map(({ type }) => type),
+      [RebalanceActionType.PauseInstantRelays, RebalanceActionType.TopUp]
+    );
+    assert.equal(warnCount(), 1);
+    assert.equal(spy.lastCall.lastArg.message, "Rebalancing actions already reported");
+
+    // A different top up amount is reported again.
+    balances[usdcAddress] = "50000000";
+    await planner.checkInventoryAndRebalance();
+    assert.equal(warnCount(), 2);
+    assert.deepEqual(
+      spy.lastCall.lastArg.actions.map(({ type }: any) => type),
+      [RebalanceActionType.TopUp]
+    );
+  });
+
+  it("Executes actions and resumes instant relays once the balance recovers", async function () {
+    balances[account] = toWei("0.5");
+    balances[wethAddress] = toWei("11");
+    balances[usdcAddress] = "100000000";
+    // Settlements cover the shortfall, so no top up is needed.
+    pendingRelays = [createRelay({})];
+    instantRelayers = { [pendingRelays[0].depositHash]: account };
+
+    const planner = createPlanner({ ...config, executeActions: true });
+    await planner.checkInventoryAndRebalance();
+    assert.deepEqual(
+      planner.actions.map(({ type }) => type),
+      [RebalanceActionType.PauseInstantRelays, RebalanceActionType.UnwrapWeth]
+    );
+    assert.isTrue(planner.isInstantRelayPaused(usdcAddress));
+
+    // Only the WETH above its minimum balance is unwrapped.
+    assert.equal(bundledCalls.length, 1);
+    assert.equal(bundledCalls[0].transaction.amount, toWei("1"));
+    assert.equal(spy.lastCall.lastArg.message, "Executing rebalancing actions ⚖️");
+
+    balances[account] = toWei("5");
+    balances[usdcAddress] = "1000000000";
+    pendingRelays = [];
+    await planner.checkInventoryAndRebalance();
+    assert.deepEqual(
+      planner.actions.map(({ type }) => type),
+      [RebalanceActionType.ResumeInstantRelays]
+    );
+    assert.isFalse(planner.isInstantRelayPaused(usdcAddress));
+  });
+});
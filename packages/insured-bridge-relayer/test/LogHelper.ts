@@ -0,0 +1,88 @@
+import { assert } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { stores } from "@uma/sdk";
+
+import { UnprofitableLogSilencer, UnprofitableLog, importLegacyUnprofitableLogs } from "../src/LogHelper";
+import { createJsonFileStore } from "../src/LogStores";
+
+describe("LogHelper.ts", function () {
+  const depositHash = "0x1234";
+
+  it("Silences saved logs", async function () {
+    const silencer = new UnprofitableLogSilencer(stores.JsMap<string, UnprofitableLog>());
+    assert.isFalse(await silencer.previouslySentUnprofitableLog(depositHash));
+
+    await silencer.saveUnprofitableLog(depositHash);
+    assert.isTrue(await silencer.previouslySentUnprofitableLog(depositHash));
+    assert.isFalse(await silencer.previouslySentUnprofitableLog("0x5678"));
+  });
+
+  it("Expires saved logs after the ttl", async function () {
+    let time = 1000;
+    const store = stores.JsMap<string, UnprofitableLog>();
+    const silencer = new UnprofitableLogSilencer(store, 60, () => time);
+    await silencer.saveUnprofitableLog(depositHash);
+
+    // Saving again before expiry does not extend the ttl.
+    time += 30;
+    await silencer.saveUnprofitableLog(depositHash);
+    assert.isTrue(await silencer.previouslySentUnprofitableLog(depositHash));
+
+    time += 30;
+    assert.isFalse(await silencer.previouslySentUnprofitableLog(depositHash));
+    assert.isFalse(await store.has(depositHash));
+
+    // Logs saved without a timestamp expire a ttl after they are first checked.
+    await store.set(depositHash, { depositHash });
+    assert.isTrue(await silencer.previouslySentUnprofitableLog(depositHash));
+    assert.deepEqual(await store.get(depositHash), { depositHash, timestamp: time });
+    time += 60;
+    assert.isFalse(await silencer.previouslySentUnprofitableLog(depositHash));
+  });
+
+  it("Persists logs in a JSON file", async function () {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "relayer-logs-")), "logs.json");
+    const store = createJsonFileStore<UnprofitableLog>(filePath);
+    assert.equal(await store.size(), 0);
+
+    await new UnprofitableLogSilencer(store).saveUnprofitableLog(depositHash);
+    assert.isTrue(
+      await new UnprofitableLogSilencer(createJsonFileStore(filePath)).previouslySentUnprofitableLog(depositHash)
+    );
+    assert.deepEqual(await store.keys(), [depositHash]);
+
+    await store.delete(depositHash);
+    assert.isFalse(await store.has(depositHash));
+  });
+
+  it("Does not lose concurrent writes to a JSON file", async function () {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "relayer-logs-")), "logs.json");
+    const depositHashes = Array.from({ length: 20 }, (_, index) => `0x${index}`);
+
+    // Writes from separate stores for the same file are serialized too.
+    await Promise.all(
+      depositHashes.map((hash) => createJsonFileStore<UnprofitableLog>(filePath).set(hash, { depositHash: hash }))
+    );
+    assert.sameMembers(await createJsonFileStore(filePath).keys(), depositHashes);
+    assert.deepEqual(fs.readdirSync(path.dirname(filePath)), ["logs.json"]);
+  });
+
+  it("Imports logs from the legacy file", async function () {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "relayer-logs-"));
+    const legacyPath = path.join(directory, "relayer-unprofitable-logs");
+    const filePath = path.join(directory, "relayer-unprofitable-logs.json");
+    fs.writeFileSync(legacyPath, `"${depositHash}"\n"0x5678"\n`);
+
+    importLegacyUnprofitableLogs(legacyPath, filePath, 1000);
+    const store = createJsonFileStore<UnprofitableLog>(filePath);
+    assert.deepEqual(await store.get(depositHash), { depositHash, timestamp: 1000 });
+    assert.sameMembers(await store.keys(), [depositHash, "0x5678"]);
+
+    // Logs saved since the import are kept.
+    await store.delete("0x5678");
+    importLegacyUnprofitableLogs(legacyPath, filePath, 2000);
+    assert.deepEqual(await store.keys(), [depositHash]);
+  });
+});
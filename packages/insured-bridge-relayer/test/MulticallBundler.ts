@@ -70,4 +70,27 @@ describe("MulticallBundler.ts", function () {
     await multicallBundler!.send();
     await multicallBundler!.waitForMine();
   });
+
+  it("Simulates transactions without sending them in dry run mode", async function () {
+    const dryRunBundler = new MulticallBundler(spyLogger!, gasEstimator!, web3, owner, true);
+    dryRunBundler.addTransactions({
+      transaction: txnCast(multicaller!.methods.add("1")),
+      message: "Add",
+      report: { action: "add" },
+    });
+    dryRunBundler.addTransactions({ transaction: txnCast(multicaller!.methods.call(true)), message: "Revert" });
+
+    await dryRunBundler.send();
+    assert.equal((await dryRunBundler.waitForMine()).length, 0);
+    assert.equal((await multicaller!.methods.value().call()).toString(), "0");
+
+    // The report contains the result of each simulated transaction.
+    const { simulatedTransactions } = spy!.lastCall.lastArg;
+    assert.equal(simulatedTransactions.length, 2);
+    assert.isTrue(simulatedTransactions[0].succeeded);
+    assert.isAbove(simulatedTransactions[0].estimatedGas, 0);
+    assert.equal(simulatedTransactions[0].action, "add");
+    assert.isFalse(simulatedTransactions[1].succeeded);
+    assert.isDefined(simulatedTransactions[1].error);
+  });
 });
@@ -11,7 +11,7 @@ const formatGwei = (number: string | number | BN) => createFormatFunction(2, 4,
 
 const { across } = require("@uma/sdk");
 
-import { SpyTransport, lastSpyLogIncludes } from "@uma/financial-templates-lib";
+import { SpyTransport, lastSpyLogIncludes, PriceFeedMock } from "@uma/financial-templates-lib";
 
 import { assert } from "chai";
 
@@ -127,6 +127,43 @@ describe("ProfitabilityCalculator.ts", function () {
       const lastLog = spy.getCall(-2).lastArg;
       assert.isTrue(lastLog.message.includes("Could not find token price!"));
     });
+    it("Prices tokens with price feeds and falls back in order", async function () {
+      // The first USDC feed has no price so the calculator falls back to the second, which uses 8 decimals.
+      const failingPriceFeed = new PriceFeedMock(null);
+      const usdcPriceFeed = new PriceFeedMock(toBN(20000), null, null, 8);
+      profitabilityCalculator = new ProfitabilityCalculator(
+        spyLogger,
+        [umaAddress, usdcAddress],
+        mainnetChainId,
+        mockWeb3,
+        relayerDiscount,
+        { [umaAddress]: new PriceFeedMock(mockUmaPriceInEth), [usdcAddress]: [failingPriceFeed, usdcPriceFeed] }
+      );
+
+      await profitabilityCalculator.update();
+
+      assert.equal(failingPriceFeed.updateCalled, 1);
+      assert.isTrue(profitabilityCalculator.l1TokenInfo[umaAddress].tokenEthPrice.eq(mockUmaPriceInEth));
+      assert.equal(profitabilityCalculator.l1TokenInfo[umaAddress].priceSource, "PriceFeedMock[0]");
+      assert.isTrue(profitabilityCalculator.l1TokenInfo[usdcAddress].tokenEthPrice.eq(mockUSDCPriceInEth));
+      assert.equal(profitabilityCalculator.l1TokenInfo[usdcAddress].priceSource, "PriceFeedMock[1]");
+
+      // The price source is reported with the profitability.
+      const { priceSource } = profitabilityCalculator.getRelaySubmitTypeBasedOnProfitability(
+        usdcAddress,
+        sampleCumulativeGasPrice,
+        toBN(0),
+        toBN(0),
+        toBN(0)
+      );
+      assert.equal(priceSource, "PriceFeedMock[1]");
+
+      // If every feed fails then the price defaults to a high price.
+      usdcPriceFeed.setCurrentPrice(null);
+      await profitabilityCalculator.update();
+      assert.isTrue(profitabilityCalculator.l1TokenInfo[usdcAddress].tokenEthPrice.eq(toBN(MAX_SAFE_ALLOWANCE)));
+      assert.equal(profitabilityCalculator.l1TokenInfo[usdcAddress].priceSource, "MAX_SAFE_ALLOWANCE");
+    });
   });
   describe("Profitability calculation", function () {
     // Mock the update method to return a fixed price for each token.
@@ -0,0 +1,29 @@
+// Minimal web3 provider that answers chainId and eth_call requests, so that bridge adapters can be tested without
+// connecting to L1 or L2 networks. `handleCall` returns the hex encoded result of a call or throws to make it revert.
+export class MockWeb3Provider {
+  public calls: { to: string; data: string }[] = [];
+
+  constructor(readonly chainId: number, public handleCall: (to: string, data: string) => string = () => "0x") {}
+
+  send(payload: any, callback: (error: Error | null, response?: any) => void): void {
+    const respond = (response: { result?: unknown; error?: { code: number; message: string } }) =>
+      callback(null, { jsonrpc: "2.0", id: payload.id, ...response });
+
+    switch (payload.method) {
+      case "eth_chainId":
+      case "net_version":
+        return respond({ result: payload.method === "eth_chainId" ? `0x${this.chainId.toString(16)}` : this.chainId });
+      case "eth_call": {
+        const { to, data } = payload.params[0];
+        this.calls.push({ to, data });
+        try {
+          return respond({ result: this.handleCall(to, data) });
+        } catch (error) {
+          return respond({ error: { code: -32000, message: `execution reverted: ${(error as Error).message}` } });
+        }
+      }
+      default:
+        return callback(new Error(`MockWeb3Provider does not support ${payload.method}`));
+    }
+  }
+}
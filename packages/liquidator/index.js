@@ -46,6 +46,7 @@ const { getAddress, getAbi } = require("@uma/contracts-node");
  * @param {Number} [endingBlock] Latest block to query for contract events that the bot will log about.
  * @param {Object} [proxyTransactionWrapperConfig] Configuration to construct the proxy transaction wrapper to enable DSProxy
  *     liquidations. This facilitates atomic swap, mint and liquidate transactions against a reserve currency.
+ * @param {Object} [networkerConfig] Timeout, retry and rate limit settings of the price feed Networker.
  * @return None or throws an Error.
  */
 async function run({
@@ -63,6 +64,7 @@ async function run({
   startingBlock,
   endingBlock,
   proxyTransactionWrapperConfig,
+  networkerConfig = {},
 }) {
   try {
     const getTime = () => Math.round(new Date().getTime() / 1000);
@@ -85,6 +87,7 @@ async function run({
       startingBlock,
       endingBlock,
       proxyTransactionWrapperConfig,
+      networkerConfig,
     });
 
     // await web3.eth.net.getId();
@@ -198,7 +201,7 @@ async function run({
     const priceFeed = await createReferencePriceFeedForFinancialContract(
       logger,
       web3,
-      new Networker(logger),
+      new Networker(logger, networkerConfig),
       getTime,
       financialContractAddress,
       priceFeedConfig
@@ -439,6 +442,11 @@ async function Poll(callback) {
       // "availableAccounts": "1"} -> the number of EOAs the bot should use when performing liquidations. This only works
       // if you have configured your DSProxy with a DSGuard with permissions on your other EOAs unlocked from your account.
       proxyTransactionWrapperConfig: process.env.DSPROXY_CONFIG ? JSON.parse(process.env.DSPROXY_CONFIG) : {},
+      // Networker settings used for the price feed API requests. EG:
+      // {"timeout":10000, -> milliseconds before a request is aborted.
+      // "retries":3, -> number of retries on 429s, 5xx statuses and network errors, with exponential backoff.
+      // "hostRateLimits":{"api.cryptowat.ch":{"requestsPerSecond":1,"burst":5}}} -> per host request budgets.
+      networkerConfig: process.env.NETWORKER_CONFIG ? JSON.parse(process.env.NETWORKER_CONFIG) : {},
     };
 
     await run({ logger: Logger, web3: getWeb3(), ...executionParameters });
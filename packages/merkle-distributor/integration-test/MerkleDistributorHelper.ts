@@ -4,7 +4,12 @@
 
 const { assert } = require("chai");
 
-import { createLeaf, createMerkleDistributionProofs, getClaimsForAddress } from "../src/MerkleDistributorHelper";
+import {
+  createLeaf,
+  createMerkleDistributionProofs,
+  getClaimsForAddress,
+  verifyMerkleProof,
+} from "../src/MerkleDistributorHelper";
 
 import MerkleTree from "../src/MerkleTree";
 
@@ -67,6 +72,17 @@ describe("MerkleDistributorHelper.js", async function () {
     const merkleTree = new MerkleTree(recipientLeafs);
     assert.equal(merkleTree.getHexRoot(), merkleRoot);
   });
+  it("Can verify generated merkle proofs against the merkle root", async function () {
+    const { recipientsDataWithProof, merkleRoot } = createMerkleDistributionProofs(exampleRecipients, 0);
+
+    Object.keys(recipientsDataWithProof).forEach((recipient) => {
+      const { amount, accountIndex, proof } = recipientsDataWithProof[recipient];
+      assert.isTrue(verifyMerkleProof(createLeaf(recipient, amount, accountIndex), proof, merkleRoot));
+
+      // A leaf with a different amount should not verify with the same proof.
+      assert.isFalse(verifyMerkleProof(createLeaf(recipient, "1", accountIndex), proof, merkleRoot));
+    });
+  });
   it("Can correctly fetch claims for a valid, included address", async function () {
     // validClaimerAddress1 has 4 claims on kovan, none of which they have claimed.
     this.timeout(10000);
@@ -0,0 +1,165 @@
+// Verify a published claims window end to end. Fetch the window from the merkle distributor, the claims file from IPFS
+// using the window's on-chain IPFS hash and the claims stored in cloudflare KV, then check that:
+// 1) the merkle root rebuilt from the claims file leaves matches the on-chain merkle root.
+// 2) every proof in the claims file verifies against the on-chain merkle root.
+// 3) the window information and claims in cloudflare KV match the claims file.
+// Finally, check isClaimed for every account to report the claimed and unclaimed totals. The unclaimed total should
+// match the remaining amount of the window on-chain. Any mismatches are listed and the script exits with an error.
+// Note that this script requires the following:
+// 1) you have set the INFURA_API_KEY env variable.
+// 2) you have set the CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_NAMESPACE_ID and CLOUDFLARE_TOKEN env variables, unless KV
+//    checks are skipped with --skipKV.
+
+// example execution: ts-node ./scripts/3_VerifyClaimsForWindow.ts --windowIndex 0 --chainId 42 --merkleDistributorAddress 0xAfCd2405298C2FABB2F7fCcEB919B4505A6bdDFC
+
+import { program } from "commander";
+import { ethers } from "ethers";
+import { getAbi } from "@uma/contracts-node";
+
+import { createLeaf, verifyMerkleProof } from "../src/MerkleDistributorHelper";
+import MerkleTree from "../src/MerkleTree";
+import IpfsHelper from "../src/IpfsHelper";
+import CloudflareHelper from "../src/CloudflareKVHelper";
+
+program
+  .requiredOption("-w, --windowIndex <number>", "index of the claims window to verify")
+  .requiredOption("-c, --chainId <number>", "chain id the merkle distributor is deployed on")
+  .requiredOption("-m, --merkleDistributorAddress <address>", "address of the merkle distributor contract")
+  .option("-k, --skipKV", "skip checking the window information and claims stored in cloudflare KV")
+  .parse(process.argv);
+
+const options = program.opts();
+const windowIndex = Number(options.windowIndex);
+const chainId = Number(options.chainId);
+
+const BATCH_SIZE = 100; // limit how many accounts are fetched from KV or checked on-chain at once.
+
+type Claim = { accountIndex: number; amount: string; windowIndex: number; metaData: any; proof: Array<string> };
+
+// Run fn on every account in batches, to avoid flooding the node or cloudflare with requests.
+async function mapAccounts<T>(accounts: string[], fn: (account: string) => Promise<T>) {
+  const results: T[] = [];
+  for (let i = 0; i < accounts.length; i += BATCH_SIZE) {
+    results.push(...(await Promise.all(accounts.slice(i, i + BATCH_SIZE).map(fn))));
+  }
+  return results;
+}
+
+async function main() {
+  const mismatches: string[] = [];
+
+  const infuraApiKey = process.env.INFURA_API_KEY || null;
+  const ethersProvider = new ethers.providers.InfuraProvider(chainId, infuraApiKey);
+  const merkleDistributor = new ethers.Contract(
+    options.merkleDistributorAddress,
+    getAbi("MerkleDistributor"),
+    ethersProvider
+  );
+
+  console.log("Running claims verification script 🕵️\n\n1. Fetching the window from the merkle distributor ⛓");
+  const merkleWindow = await merkleDistributor.merkleWindows(windowIndex);
+  if (merkleWindow.ipfsHash === "") throw new Error(`Window ${windowIndex} does not exist on chain ${chainId}`);
+  console.log("Window has merkle root", merkleWindow.merkleRoot, "and IPFS hash", merkleWindow.ipfsHash);
+
+  console.log("\n2. Fetching the claims file from IPFS 🛰");
+  const ipfsHelper = IpfsHelper(process.env.PINATA_API_KEY, process.env.PINATA_SECRET_API_KEY);
+  const claimsObject = await ipfsHelper.viewFile(merkleWindow.ipfsHash);
+  const claims: { [account: string]: Claim } = claimsObject.claims;
+  const accounts = Object.keys(claims);
+  console.log("Claims file contains", accounts.length, "claims");
+  if (claimsObject.merkleRoot !== merkleWindow.merkleRoot)
+    mismatches.push(
+      `Claims file merkle root ${claimsObject.merkleRoot} does not match on-chain ${merkleWindow.merkleRoot}`
+    );
+  if (claimsObject.rewardToken.toLowerCase() !== merkleWindow.rewardToken.toLowerCase())
+    mismatches.push(
+      `Claims file reward token ${claimsObject.rewardToken} does not match on-chain ${merkleWindow.rewardToken}`
+    );
+
+  console.log("\n3. Rebuilding the merkle root and verifying every proof 🧙");
+  const leafs = accounts.map((account) => createLeaf(account, claims[account].amount, claims[account].accountIndex));
+  const merkleRoot = new MerkleTree(leafs).getHexRoot();
+  if (merkleRoot !== merkleWindow.merkleRoot)
+    mismatches.push(`Rebuilt merkle root ${merkleRoot} does not match on-chain ${merkleWindow.merkleRoot}`);
+  let totalRewards = ethers.BigNumber.from(0);
+  const accountIndices = new Set<number>();
+  accounts.forEach((account, index) => {
+    const claim = claims[account];
+    totalRewards = totalRewards.add(claim.amount);
+    // isClaimed tracks claims by account index, so these must be unique within a window.
+    if (accountIndices.has(claim.accountIndex)) mismatches.push(`Duplicate account index ${claim.accountIndex}`);
+    accountIndices.add(claim.accountIndex);
+    if (Number(claim.windowIndex) !== windowIndex)
+      mismatches.push(`Claim for ${account} has window index ${claim.windowIndex}`);
+    if (!verifyMerkleProof(leafs[index], claim.proof, merkleWindow.merkleRoot))
+      mismatches.push(`Proof for ${account} does not verify against the on-chain merkle root`);
+  });
+  if (totalRewards.toString() !== claimsObject.totalRewardsDistributed)
+    mismatches.push(`Claims total ${totalRewards} does not match ${claimsObject.totalRewardsDistributed} in file`);
+
+  if (options.skipKV) console.log("\n4. Skipping the cloudflare KV checks");
+  else {
+    console.log("\n4. Comparing the claims in cloudflare KV 🗺");
+    const cfHelper = CloudflareHelper(
+      process.env.CLOUDFLARE_ACCOUNT_ID,
+      process.env.CLOUDFLARE_NAMESPACE_ID,
+      process.env.CLOUDFLARE_TOKEN
+    );
+    const chainWindowInformation = await cfHelper.fetchChainWindowIndicesFromKV(chainId);
+    const windowInformation = chainWindowInformation[windowIndex];
+    if (!windowInformation) mismatches.push(`Window ${windowIndex} is missing from KV chain ${chainId} indices`);
+    else if (windowInformation.ipfsHash !== merkleWindow.ipfsHash)
+      mismatches.push(`KV IPFS hash ${windowInformation.ipfsHash} does not match on-chain ${merkleWindow.ipfsHash}`);
+
+    const kvClaims = await mapAccounts(accounts, (account) =>
+      cfHelper.fetchClaimsFromKV(chainId, windowIndex, account)
+    );
+    accounts.forEach((account, index) => {
+      const claim = claims[account];
+      const kvClaim = kvClaims[index];
+      if (kvClaim.errors) mismatches.push(`Claim for ${account} is missing from KV`);
+      else if (
+        kvClaim.amount !== claim.amount ||
+        kvClaim.accountIndex !== claim.accountIndex ||
+        kvClaim.proof.join() !== claim.proof.join()
+      )
+        mismatches.push(`KV claim for ${account} does not match the claims file`);
+    });
+  }
+
+  console.log("\n5. Checking which accounts have claimed 💸");
+  const hasClaimed = await mapAccounts(accounts, (account) =>
+    merkleDistributor.isClaimed(windowIndex, claims[account].accountIndex)
+  );
+  let claimedRewards = ethers.BigNumber.from(0);
+  let unclaimedRewards = ethers.BigNumber.from(0);
+  accounts.forEach((account, index) => {
+    if (hasClaimed[index]) claimedRewards = claimedRewards.add(claims[account].amount);
+    else unclaimedRewards = unclaimedRewards.add(claims[account].amount);
+  });
+  if (!unclaimedRewards.eq(merkleWindow.remainingAmount))
+    mismatches.push(
+      `Unclaimed total ${unclaimedRewards} does not match remaining amount ${merkleWindow.remainingAmount}`
+    );
+
+  console.table({
+    accounts: accounts.length,
+    claimedAccounts: hasClaimed.filter((claimed) => claimed).length,
+    totalRewards: totalRewards.toString(),
+    claimedRewards: claimedRewards.toString(),
+    unclaimedRewards: unclaimedRewards.toString(),
+    remainingAmount: merkleWindow.remainingAmount.toString(),
+  });
+
+  if (mismatches.length > 0) {
+    console.log(`\n⚠️  Found ${mismatches.length} mismatches:`);
+    mismatches.forEach((mismatch) => console.log(mismatch));
+    process.exit(1);
+  }
+  console.log("\n✅ Window", windowIndex, "on chain", chainId, "verified");
+}
+
+main().catch((e) => {
+  console.log(e);
+  process.exit(1);
+});
@@ -12,7 +12,8 @@ export default (pinataApiKey: string | undefined, pinataApiSecret: string | unde
   }
 
   async function viewFile(fileHash: string) {
-    const response = await nodeFetch(`"https://ipfs.infura.io:5001/api/v0/get?arg=${fileHash}`);
+    // cat returns the raw file, get would return it wrapped in a tar archive.
+    const response = await nodeFetch(`https://ipfs.infura.io:5001/api/v0/cat?arg=${fileHash}`);
     return await response.json();
   }
 
@@ -39,6 +39,15 @@ export function createMerkleDistributionProofs(
   return { recipientsDataWithProof, merkleRoot: merkleTree.getHexRoot() };
 }
 
+// Hash the leaf with each element of its proof, in the same way as the contract, and check the result is the root.
+export function verifyMerkleProof(leaf: Buffer, proof: string[], merkleRoot: string) {
+  const root = proof.reduce(
+    (hash: Buffer, element: string) => MerkleTree.combinedHash(hash, Buffer.from(element.substr(2), "hex")),
+    leaf
+  );
+  return "0x" + root.toString("hex") === merkleRoot.toLowerCase();
+}
+
 export async function getClaimsForAddress(merkleDistributorAddress: string, claimerAddress: string, chainId: number) {
   // Instantiate the cloudflare helper.
   const cfHelper = CloudflareHelper(
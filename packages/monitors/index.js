@@ -55,6 +55,7 @@ const {
  * @param {Object} tokenPriceFeedConfig Configuration to construct the tokenPriceFeed (balancer or uniswap) price feed object.
  * @param {Object} medianizerPriceFeedConfig Configuration to construct the reference price feed object.
  * @param {Object} denominatorPriceFeedConfig Configuration to construct the denominator price feed object.
+ * @param {Object} [networkerConfig] Timeout, retry and rate limit settings of the price feed Networker.
  * @return None or throws an Error.
  */
 async function run({
@@ -73,6 +74,7 @@ async function run({
   tokenPriceFeedConfig,
   medianizerPriceFeedConfig,
   denominatorPriceFeedConfig,
+  networkerConfig = {},
 }) {
   try {
     const { hexToUtf8 } = web3.utils;
@@ -95,6 +97,7 @@ async function run({
       tokenPriceFeedConfig,
       medianizerPriceFeedConfig,
       denominatorPriceFeedConfig,
+      networkerConfig,
     });
 
     const getTime = () => Math.round(new Date().getTime() / 1000);
@@ -153,7 +156,7 @@ async function run({
         getVersionedAbi(monitorConfig.contractType),
         financialContractAddress
       );
-      const networker = new Networker(logger);
+      const networker = new Networker(logger, networkerConfig);
 
       // We want to enforce that all pricefeeds return prices in the same precision, so we'll construct one price feed
       // initially and grab its precision to pass into the other price feeds:
@@ -491,6 +494,11 @@ async function Poll(callback) {
       medianizerPriceFeedConfig: process.env.MEDIANIZER_PRICE_FEED_CONFIG
         ? JSON.parse(process.env.MEDIANIZER_PRICE_FEED_CONFIG)
         : null,
+      // Networker settings used for the price feed API requests. EG:
+      // {"timeout":10000, -> milliseconds before a request is aborted.
+      // "retries":3, -> number of retries on 429s, 5xx statuses and network errors, with exponential backoff.
+      // "hostRateLimits":{"api.cryptowat.ch":{"requestsPerSecond":1,"burst":5}}} -> per host request budgets.
+      networkerConfig: process.env.NETWORKER_CONFIG ? JSON.parse(process.env.NETWORKER_CONFIG) : {},
     };
 
     await run({ logger: Logger, web3: getWeb3(), ...executionParameters });
@@ -174,6 +174,9 @@ async function Poll(callback) {
       //                                      within this error % will be disputed.
       //                                      e.g. 0.05 implies 5% margin of error.
       //   "otherAccountsToSettle": ["0x1234", "0x5678"] -> Other accounts for which this bot will call settle.
+      //   "networkerConfig": {"retries":3,"timeout":10000} -> Timeout, retry and rate limit settings for pricefeeds.
+      //   "ancillaryPriceFeedConfig": {"enabled":true,"allowedSources":["cryptowatch"]} -> Price identifiers without a
+      //                                default pricefeed with the pair in the ancillary data. Disabled by default.
       //  }
       optimisticOracleProposerConfig: process.env.OPTIMISTIC_ORACLE_PROPOSER_CONFIG
         ? JSON.parse(process.env.OPTIMISTIC_ORACLE_PROPOSER_CONFIG)
@@ -1,6 +1,8 @@
 const {
   Networker,
+  createPriceFeed,
   createReferencePriceFeedForFinancialContract,
+  resolvePriceFeedConfigFromAncillaryData,
   setAllowance,
   isDeviationOutsideErrorMargin,
   OptimisticOracleType,
@@ -56,6 +58,9 @@ class OptimisticOracleProposer {
 
     // Cached mapping of identifiers to pricefeed classes
     this.priceFeedCache = {};
+    // Keys of the cached pricefeeds resolved from ancillary data, oldest first. Requesters choose these, so they are
+    // evicted once there are more than `maxAncillaryPriceFeeds`.
+    this.ancillaryPriceFeedCacheKeys = [];
 
     // Helper functions from web3.
     this.BN = this.web3.utils.BN;
@@ -97,11 +102,47 @@ class OptimisticOracleProposer {
           return typeof x === "boolean";
         },
       },
+      networkerConfig: {
+        // `networkerConfig`: timeout, retry and rate limit settings of the Networker used by all pricefeeds.
+        value: {},
+        isValid: (x) => {
+          return typeof x === "object" && x !== null;
+        },
+      },
+      ancillaryPriceFeedConfig: {
+        // `ancillaryPriceFeedConfig`: whether identifiers without a default pricefeed config are priced with the pair
+        //                             specified in the request's ancillary data. Requesters control the ancillary data,
+        //                             so this is disabled by default and `allowedSources` (plus optionally
+        //                             `allowedExchanges`, `allowedAddresses`, `allowInvertPrice`, `maxLookback` and
+        //                             `maxTwapLength`) limit what it can select.
+        //                             e.g. {"enabled":true,"allowedSources":["cryptowatch"]}
+        value: { enabled: false },
+        isValid: (x) => {
+          if (typeof x !== "object" || x === null || typeof x.enabled !== "boolean") return false;
+          const isStringArray = (value) => Array.isArray(value) && value.every((item) => typeof item === "string");
+          return (
+            !x.enabled ||
+            (isStringArray(x.allowedSources) &&
+              (x.allowedExchanges === undefined || isStringArray(x.allowedExchanges)) &&
+              (x.allowedAddresses === undefined || isStringArray(x.allowedAddresses)))
+          );
+        },
+      },
+      maxAncillaryPriceFeeds: {
+        // `maxAncillaryPriceFeeds`: max number of pricefeeds resolved from ancillary data to keep cached.
+        value: 50,
+        isValid: (x) => {
+          return Number.isInteger(x) && x > 0;
+        },
+      },
     };
 
     // Validate and set config settings to class state.
     const configWithDefaults = createObjectFromDefaultProps(optimisticOracleProposerConfig, defaultConfig);
     Object.assign(this, configWithDefaults);
+
+    // Shared by all pricefeeds so that rate limits apply across identifiers.
+    this.networker = new Networker(this.logger, this.networkerConfig);
   }
 
   async update() {
@@ -201,7 +242,7 @@ class OptimisticOracleProposer {
 
   // Construct proposal transaction and send or return early if an error is encountered.
   async _sendProposal(priceRequest) {
-    const priceFeed = await this._createOrGetCachedPriceFeed(priceRequest.identifier);
+    const priceFeed = await this._createOrGetCachedPriceFeed(priceRequest.identifier, priceRequest.ancillaryData);
 
     // Pricefeed is either constructed correctly or is null.
     if (!priceFeed) {
@@ -306,7 +347,7 @@ class OptimisticOracleProposer {
     else proposalPrice = priceRequest.proposedPrice;
 
     // Create pricefeed for identifier
-    const priceFeed = await this._createOrGetCachedPriceFeed(priceRequest.identifier);
+    const priceFeed = await this._createOrGetCachedPriceFeed(priceRequest.identifier, priceRequest.ancillaryData);
 
     // Pricefeed is either constructed correctly or is null.
     if (!priceFeed) {
@@ -541,30 +582,62 @@ class OptimisticOracleProposer {
   }
 
   // Create the pricefeed for a specific identifier and save it to the state, or
-  // return the saved pricefeed if already constructed.
-  async _createOrGetCachedPriceFeed(identifier) {
+  // return the saved pricefeed if already constructed. Identifiers without a default pricefeed config can be priced if
+  // the request's ancillary data specifies the pair to price and `ancillaryPriceFeedConfig` is enabled, in which case
+  // pricefeeds are cached per resolved config.
+  async _createOrGetCachedPriceFeed(identifier, ancillaryData) {
+    let ancillaryConfig;
+    try {
+      const { enabled, ...policy } = this.ancillaryPriceFeedConfig;
+      ancillaryConfig =
+        enabled && ancillaryData && resolvePriceFeedConfigFromAncillaryData(identifier, ancillaryData, policy);
+    } catch (error) {
+      this.logger.warn({
+        at: "OptimisticOracleProposer",
+        message: "Could not resolve pricefeed config from ancillary data",
+        identifier,
+        ancillaryData,
+        error: error.message,
+      });
+      return null;
+    }
+    const cacheKey = ancillaryConfig ? `${identifier}:${JSON.stringify(ancillaryConfig)}` : identifier;
+
     // First check for cached pricefeed for this identifier and return it if exists:
-    let priceFeed = this.priceFeedCache[identifier];
+    let priceFeed = this.priceFeedCache[cacheKey];
     if (priceFeed) return priceFeed;
     this.logger.debug({
       at: "OptimisticOracleProposer",
       message: "Created pricefeed configuration for identifier",
       commonPriceFeedConfig: this.commonPriceFeedConfig,
+      ancillaryConfig,
       identifier,
     });
 
     // Create a new pricefeed for this identifier. We might consider caching these price requests
     // for re-use if any requests use the same identifier.
-    let newPriceFeed = await createReferencePriceFeedForFinancialContract(
-      this.logger,
-      this.web3,
-      new Networker(this.logger),
-      () => Math.round(new Date().getTime() / 1000),
-      null, // No EMP Address needed since we're passing identifier explicitly
-      this.commonPriceFeedConfig,
-      identifier
-    );
-    if (newPriceFeed) this.priceFeedCache[identifier] = newPriceFeed;
+    const getTime = () => Math.round(new Date().getTime() / 1000);
+    let newPriceFeed = ancillaryConfig
+      ? await createPriceFeed(this.logger, this.web3, this.networker, getTime, {
+          ...this.commonPriceFeedConfig,
+          ...ancillaryConfig,
+        })
+      : await createReferencePriceFeedForFinancialContract(
+          this.logger,
+          this.web3,
+          this.networker,
+          getTime,
+          null, // No EMP Address needed since we're passing identifier explicitly
+          this.commonPriceFeedConfig,
+          identifier
+        );
+    if (newPriceFeed) this.priceFeedCache[cacheKey] = newPriceFeed;
+    if (newPriceFeed && ancillaryConfig) {
+      this.ancillaryPriceFeedCacheKeys.push(cacheKey);
+      while (this.ancillaryPriceFeedCacheKeys.length > this.maxAncillaryPriceFeeds) {
+        delete this.priceFeedCache[this.ancillaryPriceFeedCacheKeys.shift()];
+      }
+    }
     return newPriceFeed;
   }
 
@@ -770,4 +770,65 @@ describe("OptimisticOracle: proposer.js", function () {
     assert.isTrue(spyLogIncludes(spy, -1, "Identifier is blacklisted"));
     await verifyState(OptimisticOracleRequestStatesEnum.REQUESTED, identifierToIgnore, ancillaryDataAddress);
   });
+
+  describe("Pricefeeds resolved from ancillary data", function () {
+    // Not in DefaultPriceFeedConfig, so the pair can only come from the ancillary data.
+    const genericIdentifier = "GENERIC_PAIR";
+    const allowedAddress = "0x0000000000000000000000000000000000000001";
+    const createProposer = (optimisticOracleProposerConfig) =>
+      new OptimisticOracleProposer({
+        logger: spyLogger,
+        optimisticOracleClient: client,
+        gasEstimator,
+        account: botRunner,
+        commonPriceFeedConfig: { currentPrice: "1", historicalPrice: "2" },
+        optimisticOracleProposerConfig,
+      });
+
+    it("Ignores ancillary data by default", async function () {
+      proposer = createProposer();
+      await proposer._createOrGetCachedPriceFeed(genericIdentifier, utf8ToHex("base:ETH,quote:USD"));
+      assert.deepEqual(proposer.ancillaryPriceFeedCacheKeys, []);
+      assert.isTrue(Object.keys(proposer.priceFeedCache).every((key) => key === genericIdentifier));
+    });
+
+    it("Rejects sources, exchanges and addresses that are not allowlisted", async function () {
+      proposer = createProposer({
+        ancillaryPriceFeedConfig: { enabled: true, allowedSources: ["cryptowatch", "uniswap"], allowedAddresses: [] },
+      });
+      const disallowed = [
+        "base:ETH,quote:USD,source:coinmarketcap",
+        "base:ETH,quote:USD,exchanges:attacker-exchange",
+        "base:ETH,quote:USD,invertPrice:true",
+        `base:UMA,quote:ETH,source:uniswap,address:${allowedAddress}`,
+      ];
+      for (const ancillaryString of disallowed) {
+        assert.isNull(await proposer._createOrGetCachedPriceFeed(genericIdentifier, utf8ToHex(ancillaryString)));
+        assert.equal(lastSpyLogLevel(spy), "warn");
+        assert.isTrue(spyLogIncludes(spy, -1, "Could not resolve pricefeed config from ancillary data"));
+      }
+      assert.deepEqual(proposer.priceFeedCache, {});
+    });
+
+    it("Bounds the number of cached pricefeeds", async function () {
+      proposer = createProposer({
+        ancillaryPriceFeedConfig: { enabled: true, allowedSources: ["cryptowatch"] },
+        maxAncillaryPriceFeeds: 2,
+      });
+      for (const base of ["ETH", "BTC", "UMA"]) {
+        assert.isNotNull(
+          await proposer._createOrGetCachedPriceFeed(genericIdentifier, utf8ToHex(`base:${base},quote:USD`))
+        );
+      }
+
+      // The ETH pricefeed was created first, so it is evicted.
+      assert.equal(Object.keys(proposer.priceFeedCache).length, 2);
+      assert.equal(proposer.ancillaryPriceFeedCacheKeys.length, 2);
+      assert.isTrue(proposer.ancillaryPriceFeedCacheKeys.every((key) => !key.includes("ETH")));
+    });
+
+    it("Rejects an enabled config without allowed sources", async function () {
+      assert.throws(() => createProposer({ ancillaryPriceFeedConfig: { enabled: true } }));
+    });
+  });
 });
@@ -39,7 +39,7 @@ async function run({ logger, web3, pollingDelay, errorRetries, errorRetriesTimeo
     const apiEndpoint = notifierConfig.apiEndpoint;
     const maxTimeAfterProposal = notifierConfig.maxTimeAfterProposal;
     const minAcceptedPrice = notifierConfig.minAcceptedPrice;
-    const networker = new Networker(logger);
+    const networker = new Networker(logger, notifierConfig.networkerConfig);
 
     const polymarketNotifier = new PolymarketNotifier({
       logger,
@@ -108,7 +108,8 @@ async function Poll(callback) {
       // NOTIFIER_CONFIG={
       //  "maxTimeAfterProposal": 7200,                   // If time till expiration (in seconds) is below this fire the alert.
       //  "minAcceptedPrice": 0.99,                         // If the Polymarket API price is below this value at the time of a proposal an alert is sent.
-      //  "apiEndpoint": "https://strapi-matic.poly.market/markets"   // API endpoint to check for Polymarket information.
+      //  "apiEndpoint": "https://strapi-matic.poly.market/markets",  // API endpoint to check for Polymarket information.
+      //  "networkerConfig": {"retries": 3}                           // Timeout, retry and rate limit settings.
       // }
       notifierConfig: process.env.NOTIFIER_CONFIG ? JSON.parse(process.env.NOTIFIER_CONFIG) : {},
     };
@@ -16,6 +16,9 @@ export const SPEED_UP_UMA_GAS = 227341;
 // Bots incur lower than expected costs due to batching mulitple transactions, this roughly estimates the savings
 export const DEFAULT_GAS_DISCOUNT = 25;
 
+// Deposits must be sent within this many seconds of their quote timestamp for the quoted fees to be accepted by relayers.
+export const DEFAULT_QUOTE_VALIDITY_S = 10 * 60;
+
 export const expectedRateModelKeys = ["UBar", "R0", "R1", "R2"];
 
 // Amount of blocks to wait following a `TokensBridged` L2 event until we check the L1 state commitment contracts. This
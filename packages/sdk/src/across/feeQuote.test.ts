@@ -0,0 +1,68 @@
+import assert from "assert";
+import { FeeQuoter, OfflineQuoteSource } from "./feeQuote";
+import { toWei } from "./utils";
+import { ADDRESSES } from "./constants";
+
+// Same rate model as the fee calculator tests, so the expected LP fee matches the 0% to 1% utilization interval there.
+const rateModel = { UBar: toWei("0.65"), R0: "0", R1: toWei("0.08"), R2: toWei("1") };
+const block = { number: 100, timestamp: 1640000000 };
+
+describe("FeeQuoter", function () {
+  let quoter: FeeQuoter;
+  beforeEach(function () {
+    const source = new OfflineQuoteSource(1, block, {
+      [ADDRESSES.WETH]: {
+        rateModel,
+        liquidReserves: toWei("100"),
+        utilizedReserves: "0",
+        slowGasFee: toWei("0.01"),
+        instantGasFee: toWei("0.005"),
+      },
+    });
+    quoter = new FeeQuoter(source, { feeLimitPercent: 2 });
+  });
+  it("quotes fees for the quote timestamp", async function () {
+    const quote = await quoter.getQuote({
+      l1Token: ADDRESSES.WETH.toLowerCase(),
+      amount: toWei("1"),
+      destinationChainId: 1,
+      quoteTimestamp: 1640000300,
+    });
+    assert.deepEqual(quote, {
+      l1Token: ADDRESSES.WETH,
+      amount: toWei("1"),
+      destinationChainId: 1,
+      quoteTimestamp: 1640000300,
+      blockNumber: 100,
+      rateModel,
+      utilization: { before: "0", after: toWei("0.01") },
+      fees: {
+        lp: { pct: "11830749673498", total: "11830749673498" },
+        slow: { pct: toWei("0.01"), total: toWei("0.01") },
+        instant: { pct: toWei("0.005"), total: toWei("0.005") },
+        total: { pct: "15011830749673498", total: "15011830749673498" },
+      },
+      isAmountTooLow: false,
+      validFrom: 1640000300,
+      validUntil: 1640000900,
+    });
+  });
+  it("defaults to the latest block time", async function () {
+    const quote = await quoter.getQuote({ l1Token: ADDRESSES.WETH, amount: toWei("1"), destinationChainId: 1 });
+    assert.equal(quote.quoteTimestamp, block.timestamp);
+  });
+  it("flags amounts where fees exceed the fee limit", async function () {
+    const quote = await quoter.getQuote({ l1Token: ADDRESSES.WETH, amount: toWei("0.5"), destinationChainId: 1 });
+    assert.equal(quote.isAmountTooLow, true);
+  });
+  it("rejects unsupported tokens and chains", async function () {
+    await assert.rejects(
+      quoter.getQuote({ l1Token: ADDRESSES.USDC, amount: "1000000", destinationChainId: 1 }),
+      /No bridge pool/
+    );
+    await assert.rejects(
+      quoter.getQuote({ l1Token: ADDRESSES.WETH, amount: toWei("1"), destinationChainId: 10 }),
+      /Unsupported destination chain/
+    );
+  });
+});
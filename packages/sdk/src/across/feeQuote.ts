@@ -0,0 +1,229 @@
+import assert from "assert";
+import { Provider, Block } from "@ethersproject/providers";
+import { BigNumber, ethers } from "ethers";
+import { bridgePool } from "../clients";
+import { BigNumberish, fixedPointAdjustment, percent, toBNWei } from "./utils";
+import { calculateRealizedLpFeePct } from "./feeCalculator";
+import { RateModelDictionary } from "./rateModel";
+import { getDepositFees, DepositFees } from "./gasFeeCalculator";
+import { RateModel, DEFAULT_GAS_DISCOUNT, DEFAULT_QUOTE_VALIDITY_S } from "./constants";
+import { exists } from "../utils";
+import BlockFinder from "../blockFinder";
+
+export type QuoteRequest = {
+  l1Token: string;
+  amount: BigNumberish;
+  destinationChainId: number;
+  // Defaults to the latest block time.
+  quoteTimestamp?: number;
+};
+
+// Utilization of the bridge pool before and after relaying the amount, in wei. For example 50% is 0.5 * 1e18.
+export type Utilization = {
+  before: string;
+  after: string;
+};
+
+export type Fee = {
+  pct: string;
+  total: string;
+};
+
+export type FeeQuote = {
+  l1Token: string;
+  amount: string;
+  destinationChainId: number;
+  quoteTimestamp: number;
+  blockNumber: number;
+  rateModel: RateModel;
+  utilization: Utilization;
+  fees: {
+    lp: Fee;
+    slow: Fee;
+    instant: Fee;
+    total: Fee;
+  };
+  isAmountTooLow: boolean;
+  // Deposits made with this quote should be sent between these times, in seconds.
+  validFrom: number;
+  validUntil: number;
+};
+
+// Everything a quote depends on. Quotes are computed from these values only, so a source with fixed values, like
+// OfflineQuoteSource, gives deterministic quotes.
+export interface QuoteSource {
+  getChainId(): Promise<number>;
+  getBlockForTimestamp(timestamp?: number): Promise<{ number: number; timestamp: number }>;
+  getRateModel(l1Token: string, blockNumber: number): Promise<RateModel>;
+  getUtilization(l1Token: string, amount: BigNumberish, blockNumber: number): Promise<Utilization>;
+  getDepositFees(l1Token: string, amount: BigNumberish): Promise<DepositFees>;
+}
+
+/**
+ * OnchainQuoteSource. Reads utilization from the bridge pools at the block of the quote timestamp and gas fees from the
+ * latest block, like LpFeeCalculator and gasFeeCalculator.
+ *
+ * @param {Provider} provider - Read provider on the chain of the bridge pools.
+ * @param {Record<string, string>} bridgePools - Bridge pool addresses keyed by L1 token address.
+ * @param {RateModelDictionary} rateModelDictionary - Dictionary updated with the rate model store events.
+ * @param {number} discountPercent = DEFAULT_GAS_DISCOUNT - Percent as a value 0-100 of gas fee discount.
+ */
+export class OnchainQuoteSource implements QuoteSource {
+  private blockFinder: BlockFinder<Block>;
+  constructor(
+    private provider: Provider,
+    private bridgePools: Record<string, string>,
+    private rateModelDictionary: RateModelDictionary,
+    private discountPercent: number = DEFAULT_GAS_DISCOUNT
+  ) {
+    this.blockFinder = new BlockFinder<Block>(provider.getBlock.bind(provider));
+  }
+  async getChainId() {
+    return (await this.provider.getNetwork()).chainId;
+  }
+  async getBlockForTimestamp(timestamp?: number) {
+    const block = exists(timestamp)
+      ? await this.blockFinder.getBlockForTimestamp(timestamp)
+      : await this.provider.getBlock("latest");
+    assert(exists(block), "Unable to find target block for timestamp: " + (timestamp || "latest"));
+    return { number: block.number, timestamp: Number(block.timestamp) };
+  }
+  async getRateModel(l1Token: string, blockNumber: number) {
+    return this.rateModelDictionary.getRateModelForBlockNumber(l1Token, blockNumber);
+  }
+  async getUtilization(l1Token: string, amount: BigNumberish, blockNumber: number) {
+    const bridgePoolAddress = this.bridgePools[ethers.utils.getAddress(l1Token)];
+    assert(bridgePoolAddress, "No bridge pool for L1 token: " + l1Token);
+    const bridgePoolInstance = bridgePool.connect(bridgePoolAddress, this.provider);
+    const [before, after] = await Promise.all([
+      bridgePoolInstance.callStatic.liquidityUtilizationCurrent({ blockTag: blockNumber } as any),
+      bridgePoolInstance.callStatic.liquidityUtilizationPostRelay(amount, { blockTag: blockNumber } as any),
+    ]);
+    return { before: before.toString(), after: after.toString() };
+  }
+  async getDepositFees(l1Token: string, amount: BigNumberish) {
+    return getDepositFees(this.provider, amount, l1Token, this.discountPercent);
+  }
+}
+
+export type OfflinePool = {
+  rateModel: RateModel;
+  liquidReserves: string;
+  utilizedReserves: string;
+  // Gas fees of slow and instant relays, in the smallest unit of the token.
+  slowGasFee: string;
+  instantGasFee: string;
+};
+
+/**
+ * OfflineQuoteSource. Returns fixed block, rate model and gas fee values, for tests and simulations. Utilization is
+ * utilizedReserves / (liquidReserves + utilizedReserves), where the relayed amount moves from liquid to utilized.
+ *
+ * @param {number} chainId - Chain id of the bridge pools.
+ * @param {{ number: number; timestamp: number }} block - Block returned for every quote timestamp.
+ * @param {Record<string, OfflinePool>} pools - Pool state keyed by L1 token address.
+ */
+export class OfflineQuoteSource implements QuoteSource {
+  constructor(
+    private chainId: number,
+    private block: { number: number; timestamp: number },
+    private pools: Record<string, OfflinePool>
+  ) {}
+  private getPool(l1Token: string): OfflinePool {
+    const pool = this.pools[ethers.utils.getAddress(l1Token)];
+    assert(pool, "No bridge pool for L1 token: " + l1Token);
+    return pool;
+  }
+  async getChainId() {
+    return this.chainId;
+  }
+  async getBlockForTimestamp(timestamp?: number) {
+    return { number: this.block.number, timestamp: timestamp ?? this.block.timestamp };
+  }
+  async getRateModel(l1Token: string) {
+    return this.getPool(l1Token).rateModel;
+  }
+  async getUtilization(l1Token: string, amount: BigNumberish) {
+    const { liquidReserves, utilizedReserves } = this.getPool(l1Token);
+    const totalReserves = BigNumber.from(liquidReserves).add(utilizedReserves);
+    assert(totalReserves.gt(0), "Bridge pool has no liquidity");
+    return {
+      before: percent(utilizedReserves, totalReserves).toString(),
+      after: percent(BigNumber.from(utilizedReserves).add(amount), totalReserves).toString(),
+    };
+  }
+  async getDepositFees(l1Token: string, amount: BigNumberish) {
+    const { slowGasFee, instantGasFee } = this.getPool(l1Token);
+    return { slowPct: percent(slowGasFee, amount).toString(), instantPct: percent(instantGasFee, amount).toString() };
+  }
+}
+
+type Config = {
+  // Seconds after the quote timestamp that deposits can be made with the quote.
+  validityPeriodS?: number;
+  // Percent as a value 0-100 of how much fees can be of the amount before isAmountTooLow is true.
+  feeLimitPercent?: number;
+};
+
+/**
+ * FeeQuoter. Combines the realized LP fee, computed from the rate model and the pool utilization at the quote timestamp,
+ * with the slow and instant relay gas fees into a single quote.
+ *
+ * @param {QuoteSource} source - OnchainQuoteSource, or OfflineQuoteSource for deterministic quotes.
+ * @param {Config} config
+ */
+export class FeeQuoter {
+  constructor(private source: QuoteSource, private config: Config = {}) {}
+
+  async getQuote(request: QuoteRequest): Promise<FeeQuote> {
+    const { source, config } = this;
+    const amount = BigNumber.from(request.amount);
+    assert(amount.gt(0), "Amount must be greater than 0");
+    const l1Token = ethers.utils.getAddress(request.l1Token);
+    const chainId = await source.getChainId();
+    assert(request.destinationChainId === chainId, "Unsupported destination chain: " + request.destinationChainId);
+
+    const block = await source.getBlockForTimestamp(request.quoteTimestamp);
+    const quoteTimestamp = request.quoteTimestamp ?? block.timestamp;
+    const [rateModel, utilization, depositFees] = await Promise.all([
+      source.getRateModel(l1Token, block.number),
+      source.getUtilization(l1Token, amount, block.number),
+      source.getDepositFees(l1Token, amount),
+    ]);
+
+    const lpPct = calculateRealizedLpFeePct(rateModel, utilization.before, utilization.after);
+    const toFee = (pct: BigNumberish): Fee => ({
+      pct: pct.toString(),
+      total: amount.mul(pct).div(fixedPointAdjustment).toString(),
+    });
+    const totalPct = lpPct.add(depositFees.slowPct).add(depositFees.instantPct);
+
+    let isAmountTooLow = false;
+    if (exists(config.feeLimitPercent)) {
+      assert(
+        config.feeLimitPercent >= 0 && config.feeLimitPercent <= 100,
+        "feeLimitPercent must be between 0 and 100 percent"
+      );
+      isAmountTooLow = totalPct.gt(toBNWei(config.feeLimitPercent / 100));
+    }
+
+    return {
+      l1Token,
+      amount: amount.toString(),
+      destinationChainId: chainId,
+      quoteTimestamp,
+      blockNumber: block.number,
+      rateModel,
+      utilization,
+      fees: {
+        lp: toFee(lpPct),
+        slow: toFee(depositFees.slowPct),
+        instant: toFee(depositFees.instantPct),
+        total: toFee(totalPct),
+      },
+      isAmountTooLow,
+      validFrom: quoteTimestamp,
+      validUntil: quoteTimestamp + (config.validityPeriodS ?? DEFAULT_QUOTE_VALIDITY_S),
+    };
+  }
+}
@@ -2,6 +2,7 @@ export * as feeCalculator from "./feeCalculator";
 export * as rateModel from "./rateModel";
 export { default as LpFeeCalculator } from "./lpFeeCalculator";
 export * as gasFeeCalculator from "./gasFeeCalculator";
+export * as feeQuote from "./feeQuote";
 export * as utils from "./utils";
 export * as constants from "./constants";
 export * as clients from "./clients";
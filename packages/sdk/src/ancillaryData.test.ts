@@ -0,0 +1,37 @@
+import assert from "assert";
+import { ethers } from "ethers";
+import { parseAncillaryData } from "./ancillaryData";
+
+const toHex = (text: string) => ethers.utils.hexlify(ethers.utils.toUtf8Bytes(text));
+
+describe("parseAncillaryData", function () {
+  test("parses simple key-value data", function () {
+    assert.deepEqual(parseAncillaryData(toHex("key:value")), { key: "value" });
+  });
+  test("removes excess whitespace", function () {
+    assert.deepEqual(parseAncillaryData(toHex("  key1  :  value1  , key2 : value2 ")), {
+      key1: "value1",
+      key2: "value2",
+    });
+  });
+  test("parses json and number values", function () {
+    assert.deepEqual(parseAncillaryData(toHex('key:{"nestedKey": "nestedValue"},twapLength:3600')), {
+      key: { nestedKey: "nestedValue" },
+      twapLength: 3600,
+    });
+  });
+  test("parses SPACEXLAUNCH data", function () {
+    const data = "0x6964303a537461726c696e6b2d31382c77303a312c6964313a537461726c696e6b2d31392c77313a31";
+    assert.deepEqual(parseAncillaryData(data), { id0: "Starlink-18", w0: 1, id1: "Starlink-19", w1: 1 });
+  });
+  test("parses an address", function () {
+    const address = "0x04Fa0d235C4abf4BcF4787aF4CF447DE572eF828";
+    assert.deepEqual(parseAncillaryData(address), { address });
+  });
+  test("removes null padding", function () {
+    assert.deepEqual(parseAncillaryData(toHex("key:value") + "0000"), { key: "value" });
+  });
+  test("throws on invalid key value pairs", function () {
+    assert.throws(() => parseAncillaryData(toHex("q: title: a, b")), /multiple column delimiters/);
+  });
+});
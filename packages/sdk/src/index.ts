@@ -4,6 +4,7 @@ export * as tables from "./tables";
 export * as utils from "./utils";
 export * as across from "./across";
 export * as oracle from "./oracle";
+export * as ancillaryData from "./ancillaryData";
 export { default as Coingecko } from "./coingecko";
 export { default as Multicall } from "./multicall";
 export { default as Multicall2 } from "./multicall2";
@@ -3,9 +3,13 @@ import { ethers } from "ethers";
 import Store, { Emit } from "./store";
 import type { state } from "./types";
 import type { FallbackProvider } from "./types/ethers";
-import { InputRequest, User } from "./types/state";
+import type { OracleInterface } from "./types/interfaces";
+import { InputRequest, User, ChainConfig, OptimisticOracleType } from "./types/state";
 import { Update } from "./services/update";
 import { OptimisticOracle } from "./services/optimisticOracle";
+import { SkinnyOptimisticOracle } from "./services/skinnyOptimisticOracle";
+import type { EventCache } from "./services/eventCache";
+import type { RequestQuery, RequestQueryResult } from "./services/sortedRequests";
 import { StateMachine, setActiveRequestByTransaction } from "./services/statemachines";
 import { loop } from "../utils";
 import { toWei } from "../across/utils";
@@ -142,6 +146,10 @@ export class Client {
       user.address
     );
   }
+  // queries known requests across all chains, this is not a command so results are returned immediately
+  queryRequests(query: RequestQuery = {}): RequestQueryResult {
+    return this.store.read().queryRequests(query);
+  }
   // runs statemachine step loop pretty fast by default.
   startInterval(delayMs = 1): void {
     assert(!this.intervalStarted, "Interval already started, try stopping first");
@@ -153,13 +161,15 @@ export class Client {
       await this.sm.tick();
       await this.poller.tick();
     }, delayMs).catch((err) => {
+      // stopping the interval breaks the loop on purpose
+      if (!this.intervalStarted) return;
       console.error(err);
       this.intervalStarted = false;
       this.store.write((w) => w.error(err));
     });
   }
   stopInterval(): void {
-    assert(!this.intervalStarted, "Interval already stopped");
+    assert(this.intervalStarted, "Interval already stopped");
     this.intervalStarted = false;
   }
 }
@@ -177,21 +187,30 @@ function makeProvider(rpcUrls: string[]): FallbackProvider {
   return provider;
 }
 
-export function factory(config: state.PartialConfig, emit: Emit): Client {
+function makeOracle(chain: ChainConfig, provider: FallbackProvider): OracleInterface {
+  switch (chain.optimisticOracleType) {
+    case OptimisticOracleType.SkinnyOptimisticOracle:
+      return new SkinnyOptimisticOracle(provider, chain.optimisticOracleAddress, chain.chainId);
+    default:
+      return new OptimisticOracle(provider, chain.optimisticOracleAddress, chain.chainId);
+  }
+}
+
+export function factory(config: state.PartialConfig, emit: Emit, eventCache?: EventCache): Client {
   const store = new Store(emit);
   const fullConfig = defaultConfig(config);
   store.write((write) => {
     write.config(fullConfig);
     // maintains queryable ordered list of requests across all chains
     write.sortedRequestsService();
+    // persists requests between sessions, so past events do not have to be fetched again
+    if (eventCache) write.eventCacheService(eventCache);
     for (const chain of Object.values(fullConfig.chains)) {
       const provider = makeProvider(chain.rpcUrls);
       write.chains(chain.chainId).optimisticOracle().address(chain.optimisticOracleAddress);
       write.services(chain.chainId).provider(provider);
       write.services(chain.chainId).multicall2(chain.multicall2Address);
-      write
-        .services(chain.chainId)
-        .optimisticOracle(new OptimisticOracle(provider, chain.optimisticOracleAddress, chain.chainId));
+      write.services(chain.chainId).optimisticOracle(makeOracle(chain, provider));
     }
   });
   const update = new Update(store);
@@ -204,7 +223,12 @@ export function factory(config: state.PartialConfig, emit: Emit): Client {
   // start the request list checkers
   for (const [chainId, config] of Object.entries(fullConfig.chains)) {
     poller.types.fetchPastEvents.create(
-      { chainId: Number(chainId), startBlock: config.earliestBlockNumber, maxRange: config.maxEventRangeQuery },
+      {
+        chainId: Number(chainId),
+        startBlock: config.earliestBlockNumber,
+        maxRange: config.maxEventRangeQuery,
+        reorgWindow: config.reorgWindow,
+      },
       "poller"
     );
     // long running poller which only looks for new events
@@ -4,3 +4,4 @@ export * as types from "./types";
 export * as store from "./store";
 export * as utils from "./utils";
 export * as errors from "./errors";
+export * as nodeClient from "./nodeClient";
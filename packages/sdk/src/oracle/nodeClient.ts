@@ -0,0 +1,133 @@
+import { Emit } from "./store";
+import type { EventCache } from "./services/eventCache";
+import type { Signer } from "./types/ethers";
+import type { Context, Memory } from "./types/statemachine";
+import type { ChainMetadata, Flags, InputRequest, PartialChainConfig, PartialConfig, State } from "./types/state";
+import type { Request } from "./types/interfaces";
+import { Client, factory as clientFactory } from "./client";
+import { getFlags } from "./utils";
+
+type Command = Context<unknown, unknown & Memory>;
+type Waiter = { resolve: (command: Command) => void; reject: (error: Error) => void };
+
+// chain metadata is only used to add chains to a browser wallet, so only rpc urls are required in node
+export type NodeChainConfig = Omit<PartialChainConfig, keyof Omit<ChainMetadata, "rpcUrls">> &
+  Partial<Omit<ChainMetadata, "rpcUrls">>;
+export type NodeConfig = {
+  chains: Record<number, NodeChainConfig>;
+};
+
+function toPartialConfig(config: NodeConfig): PartialConfig {
+  const chains = Object.entries(config.chains).map(([chainId, chainConfig]): [number, PartialChainConfig] => [
+    Number(chainId),
+    {
+      chainName: `Chain ${chainId}`,
+      blockExplorerUrls: [""],
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      ...chainConfig,
+    },
+  ]);
+  return { chains: Object.fromEntries(chains) };
+}
+
+/**
+ * NodeClient. Runs the oracle client without a browser, for bots and scripts. Commands are sent through the same state
+ * machines the frontend uses, but each call returns a promise which resolves once its command is done, or rejects with
+ * the command error, rather than a command id to poll state with.
+ */
+export class NodeClient {
+  private waiters: Record<string, Waiter[]> = {};
+  constructor(public readonly client: Client, public readonly signer: Signer) {}
+  // called on every state change to settle promises of commands which finished. the error is only set when the client
+  // loop crashes, after which no command will finish, so anything still waiting is rejected with it
+  handleState = (state: State): void => {
+    if (state.error) return this.rejectAll(state.error);
+    for (const [id, waiters] of Object.entries(this.waiters)) {
+      const command = state.commands?.[id];
+      if (!command?.done) continue;
+      delete this.waiters[id];
+      waiters.forEach((waiter) => this.settleWaiter(waiter, command));
+    }
+  };
+  private settleWaiter({ resolve, reject }: Waiter, command: Command): void {
+    if (command.state === "error") return reject(command.error || new Error(`Command ${command.id} failed`));
+    resolve(command);
+  }
+  private rejectAll(error: Error): void {
+    const waiters = Object.values(this.waiters).flat();
+    this.waiters = {};
+    waiters.forEach(({ reject }) => reject(error));
+  }
+  waitFor(id: string): Promise<Command> {
+    return new Promise((resolve, reject) => {
+      const { commands, error } = this.client.store.get();
+      const command = commands?.[id];
+      if (command?.done) return this.settleWaiter({ resolve, reject }, command);
+      if (error) return reject(error);
+      if (!this.waiters[id]) this.waiters[id] = [];
+      this.waiters[id].push({ resolve, reject });
+    });
+  }
+  // sets the active request, then logs in the signer on the request chain so balances and approvals are fetched
+  async setActiveRequest(params: InputRequest): Promise<Request> {
+    const chainId = Number(params.chainId);
+    const signer = this.signer.connect(this.client.store.read().provider(chainId));
+    const address = await signer.getAddress();
+    // commands run in order, so the request is fetched before the user
+    await this.waitFor(this.client.setActiveRequest(params));
+    await this.waitFor(this.client.setUser({ address, chainId, signer }));
+    return this.client.store.read().request();
+  }
+  async approveCollateral(): Promise<Request> {
+    await this.waitFor(this.client.approveCollateral());
+    return this.client.store.read().request();
+  }
+  async proposePrice(proposedPriceDecimals: string | number): Promise<Request> {
+    await this.waitFor(this.client.proposePrice(proposedPriceDecimals));
+    return this.client.store.read().request();
+  }
+  async disputePrice(): Promise<Request> {
+    await this.waitFor(this.client.disputePrice());
+    return this.client.store.read().request();
+  }
+  async settle(): Promise<Request> {
+    await this.waitFor(this.client.settle());
+    return this.client.store.read().request();
+  }
+  getFlags(): Flags {
+    return getFlags(this.client.store.get());
+  }
+  // clears the error of a previous crash, so commands can be waited for again
+  start(delayMs?: number): void {
+    this.client.store.write((w) => w.error());
+    this.client.startInterval(delayMs);
+  }
+  // commands will not finish once stopped, so anything still waiting is rejected
+  stop(): void {
+    this.client.stopInterval();
+    this.rejectAll(new Error("Node client stopped"));
+  }
+}
+
+/**
+ * factory. Creates a NodeClient for a signer, such as an ethers Wallet. The signer is connected to the client provider
+ * of the request chain, so it does not need a provider of its own.
+ *
+ * @param {NodeConfig} config - Chain configs, same as the client config without the wallet metadata.
+ * @param {Signer} signer - Signs all transactions.
+ * @param {Emit} emit - Optional state change listener.
+ * @param {EventCache} eventCache - Optional cache for past events, see the client factory.
+ */
+export function factory(config: NodeConfig, signer: Signer, emit?: Emit, eventCache?: EventCache): NodeClient {
+  // the client needs emit at creation, but the node client needs the client, so listeners are added once it exists
+  const listeners: Emit[] = [];
+  const client = clientFactory(
+    toPartialConfig(config),
+    (state, prev) => listeners.forEach((listener) => listener(state, prev)),
+    eventCache
+  );
+  const nodeClient = new NodeClient(client, signer);
+  listeners.push(nodeClient.handleState);
+  if (emit) listeners.push(emit);
+  return nodeClient;
+}
@@ -0,0 +1,95 @@
+import { BigNumber } from "ethers";
+import type { Store } from "../../stores";
+import { exists } from "../../utils";
+import { requestId } from "../utils";
+import { RequestState } from "../types/interfaces";
+import type { Request } from "../types/interfaces";
+
+// requests are saved as json, BigNumbers are saved in their json form of { type: "BigNumber", hex }
+export type SerializedRequest = Record<string, unknown>;
+
+function isSerializedBigNumber(value: unknown): boolean {
+  return typeof value === "object" && exists(value) && (value as { type?: string }).type === "BigNumber";
+}
+
+export function serializeRequest(request: Request): SerializedRequest {
+  return JSON.parse(JSON.stringify(request));
+}
+
+export function deserializeRequest(request: SerializedRequest): Request {
+  return Object.fromEntries(
+    Object.entries(request).map(([key, value]) => [
+      key,
+      isSerializedBigNumber(value) ? BigNumber.from(value as { hex: string }) : value,
+    ])
+  ) as Request;
+}
+
+// the latest block we know of any event for this request
+export function lastEventBlockNumber(request: Request): number {
+  const { requestBlockNumber = 0, proposeBlockNumber = 0, disputeBlockNumber = 0, settleBlockNumber = 0 } = request;
+  return Math.max(requestBlockNumber, proposeBlockNumber, disputeBlockNumber, settleBlockNumber);
+}
+
+// fields set by each event after the request, with the block number of that event
+const eventFields: ["settleBlockNumber" | "disputeBlockNumber" | "proposeBlockNumber", (keyof Request)[]][] = [
+  ["settleBlockNumber", ["settled", "resolvedPrice", "price", "payout", "settleTx"]],
+  ["disputeBlockNumber", ["disputer", "disputeTx"]],
+  ["proposeBlockNumber", ["proposer", "proposedPrice", "expirationTimestamp", "proposeTx"]],
+];
+
+// removes what we know from events after blockNumber, as if they were never seen. returns undefined if the request
+// itself was made after blockNumber, or the same request if nothing changed.
+export function rollbackRequest(request: Request, blockNumber: number): Request | undefined {
+  if (exists(request.requestBlockNumber) && request.requestBlockNumber > blockNumber) return;
+  const rolledBack: Request = { ...request };
+  let changed = false;
+  for (const [blockNumberKey, fields] of eventFields) {
+    const eventBlockNumber = request[blockNumberKey];
+    if (!exists(eventBlockNumber) || eventBlockNumber <= blockNumber) continue;
+    [blockNumberKey, ...fields].forEach((field) => delete rolledBack[field]);
+    changed = true;
+  }
+  if (!changed) return request;
+  // state goes back to that of the latest event left
+  if (exists(rolledBack.settleBlockNumber)) rolledBack.state = RequestState.Settled;
+  else if (exists(rolledBack.disputeBlockNumber)) rolledBack.state = RequestState.Disputed;
+  else if (exists(rolledBack.proposeBlockNumber)) rolledBack.state = RequestState.Proposed;
+  else rolledBack.state = RequestState.Requested;
+  return rolledBack;
+}
+
+/**
+ * EventCache. Persists requests processed from oracle events, and the last block scanned for events on each chain,
+ * so the client can resume scanning from there rather than from the earliest block. Use any store, for example
+ * stores.IndexedDb in the browser or stores.Sqlite in node.
+ *
+ * @param {Store<string, SerializedRequest>} requests - Requests keyed by request id and chain id.
+ * @param {Store<string, number>} scannedBlocks - Last scanned block keyed by chain id.
+ */
+export class EventCache {
+  constructor(private requests: Store<string, SerializedRequest>, private scannedBlocks: Store<string, number>) {}
+  // same id as the sorted requests table, requests can collide across chains
+  private id(request: Request): string {
+    return requestId(request) + "!" + request.chainId;
+  }
+  async getRequests(chainId: number): Promise<Request[]> {
+    const requests = await this.requests.values();
+    return requests.map(deserializeRequest).filter((request) => request.chainId === chainId);
+  }
+  async setRequests(requests: Request[]): Promise<void> {
+    await Promise.all(requests.map((request) => this.requests.set(this.id(request), serializeRequest(request))));
+  }
+  async deleteRequests(requests: Request[]): Promise<void> {
+    await Promise.all(requests.map((request) => this.requests.delete(this.id(request))));
+  }
+  async getScannedBlock(chainId: number): Promise<number | undefined> {
+    return this.scannedBlocks.get(chainId.toString());
+  }
+  async setScannedBlock(chainId: number, blockNumber: number): Promise<void> {
+    await this.scannedBlocks.set(chainId.toString(), blockNumber);
+  }
+  async clear(): Promise<void> {
+    await Promise.all([this.requests.clear(), this.scannedBlocks.clear()]);
+  }
+}
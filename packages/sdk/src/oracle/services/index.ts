@@ -1,4 +1,6 @@
 export * as erc20 from "./erc20";
 export * as optimisticOracle from "./optimisticOracle";
+export * as skinnyOptimisticOracle from "./skinnyOptimisticOracle";
 export * as statemachines from "./statemachines";
 export * as sortedRequests from "./sortedRequests";
+export * as eventCache from "./eventCache";
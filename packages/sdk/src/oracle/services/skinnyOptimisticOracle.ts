@@ -0,0 +1,197 @@
+import omitBy from "lodash/omitBy";
+import isUndefined from "lodash/isUndefined";
+import { BigNumber } from "ethers";
+import { skinnyOptimisticOracle } from "../../clients";
+import { BigNumberish, Provider, Signer, TransactionResponse, Log, TransactionReceipt } from "../types/ethers";
+import type { OracleInterface, RequestKey, OracleProps, Request } from "../types/interfaces";
+import { requestId, insertOrderedAscending, eventKey, isUnique } from "../utils";
+import { exists } from "../../utils";
+
+import {
+  RequestPrice,
+  ProposePrice,
+  DisputePrice,
+  Settle,
+  SolidityRequest,
+} from "../../clients/skinnyOptimisticOracle";
+
+export type SkinnyOptimisticOracleEvent = RequestPrice | ProposePrice | DisputePrice | Settle;
+
+export type { RequestPrice, ProposePrice, DisputePrice, Settle, SolidityRequest };
+
+const toBN = (value?: BigNumberish) => (exists(value) ? BigNumber.from(value) : undefined);
+
+// skinny requests are parsed from events with string values, this converts them to the same shape as requests
+// from the optimistic oracle so the rest of the client does not need to know which oracle it is using.
+function toRequest(request: skinnyOptimisticOracle.Request): Omit<Request, "chainId"> {
+  const { proposedPrice, resolvedPrice, expirationTime, reward, finalFee, bond, customLiveness, ...rest } = request;
+  return omitBy(
+    {
+      ...rest,
+      proposedPrice: toBN(proposedPrice),
+      resolvedPrice: toBN(resolvedPrice),
+      expirationTimestamp: toBN(expirationTime),
+      reward: toBN(reward),
+      finalFee: toBN(finalFee),
+      bond: toBN(bond),
+      customLiveness: toBN(customLiveness),
+    },
+    isUndefined
+  ) as Omit<Request, "chainId">;
+}
+
+// copy the request struct out of the event args, which also contain the struct values by index
+function toSolidityRequest(request: SolidityRequest): SolidityRequest {
+  return {
+    proposer: request.proposer,
+    disputer: request.disputer,
+    currency: request.currency,
+    settled: request.settled,
+    proposedPrice: request.proposedPrice,
+    resolvedPrice: request.resolvedPrice,
+    expirationTime: request.expirationTime,
+    reward: request.reward,
+    finalFee: request.finalFee,
+    bond: request.bond,
+    customLiveness: request.customLiveness,
+  };
+}
+
+export class SkinnyOptimisticOracle implements OracleInterface {
+  private readonly contract: skinnyOptimisticOracle.Instance;
+  private readonly events: SkinnyOptimisticOracleEvent[] = [];
+  private requests: Record<string, Request> = {};
+  // the skinny oracle only stores a hash of each request, so every transaction needs the full request struct from the
+  // latest event of that request. These are keyed by request id, same as requests.
+  private solidityRequests: Record<string, SolidityRequest> = {};
+  constructor(protected provider: Provider, protected address: string, public readonly chainId: number) {
+    this.contract = skinnyOptimisticOracle.connect(address, provider);
+  }
+  private upsertRequest = (request: Omit<Request, "chainId">): Request => {
+    const id = requestId(request);
+    const cachedRequest = this.requests[id] || {};
+    const update = { ...cachedRequest, ...request, chainId: this.chainId };
+    this.requests[id] = update;
+    return update;
+  };
+  private getSolidityRequest = (key: RequestKey): SolidityRequest => {
+    const request = this.solidityRequests[requestId(key)];
+    if (exists(request)) return request;
+    throw new Error("No events found for skinny optimistic oracle request: " + requestId(key));
+  };
+  private makeEventFromLog = (log: Log) => {
+    const description = this.contract.interface.parseLog(log);
+    return {
+      ...log,
+      ...description,
+      event: description.name,
+      eventSignature: description.signature,
+    };
+  };
+  private setDisputeHash({ requester, identifier, timestamp, ancillaryData }: RequestKey, hash: string): Request {
+    return this.upsertRequest({ requester, identifier, timestamp, ancillaryData, disputeTx: hash });
+  }
+  private setProposeHash({ requester, identifier, timestamp, ancillaryData }: RequestKey, hash: string): Request {
+    return this.upsertRequest({ requester, identifier, timestamp, ancillaryData, proposeTx: hash });
+  }
+  private setSettleHash({ requester, identifier, timestamp, ancillaryData }: RequestKey, hash: string): Request {
+    return this.upsertRequest({ requester, identifier, timestamp, ancillaryData, settleTx: hash });
+  }
+  private updateFromEvents = (events: SkinnyOptimisticOracleEvent[]) => {
+    events.forEach((event) => {
+      if (isUnique(this.events, event, eventKey)) {
+        insertOrderedAscending(this.events, event, eventKey);
+      }
+    });
+    // events are in ascending order, so this leaves the struct from the latest event of each request
+    this.events.forEach((event) => {
+      if (!event.args) return;
+      this.solidityRequests[requestId(event.args)] = toSolidityRequest(event.args.request);
+    });
+    const { requests = {} } = skinnyOptimisticOracle.getEventState(this.events);
+    Object.values(requests).map((request) => this.upsertRequest(toRequest(request)));
+  };
+  // query only the events of a single request, using the indexed requester and identifier
+  private fetchRequestEvents = async ({ requester, identifier }: RequestKey): Promise<void> => {
+    const { filters } = this.contract;
+    const events = await Promise.all([
+      this.contract.queryFilter(filters.RequestPrice(requester, identifier)),
+      this.contract.queryFilter(filters.ProposePrice(requester, identifier)),
+      this.contract.queryFilter(filters.DisputePrice(requester, identifier)),
+      this.contract.queryFilter(filters.Settle(requester, identifier)),
+    ]);
+    this.updateFromEvents((events.flat() as unknown[]) as SkinnyOptimisticOracleEvent[]);
+  };
+  // anyone can propose or dispute, which changes the request hash on chain, so the struct we have may be stale.
+  // transactions refresh the request's events first, since the contract reverts if the struct does not match the hash.
+  private fetchLatestSolidityRequest = async (key: RequestKey): Promise<SolidityRequest> => {
+    await this.fetchRequestEvents(key);
+    return this.getSolidityRequest(key);
+  };
+  async fetchRequest(key: RequestKey): Promise<Request> {
+    const { requester, identifier, timestamp, ancillaryData } = key;
+    // request data is not readable on chain, so it must come from events if we have not seen them yet
+    if (!exists(this.solidityRequests[requestId(key)])) await this.fetchRequestEvents(key);
+    const getState = (request: SolidityRequest) =>
+      this.contract.callStatic.getState(requester, identifier, timestamp, ancillaryData, request);
+    // a revert means the struct is stale, so try again with the latest events
+    const state = await getState(this.getSolidityRequest(key)).catch(async () =>
+      getState(await this.fetchLatestSolidityRequest(key))
+    );
+    return this.upsertRequest({ requester, identifier, timestamp, ancillaryData, state });
+  }
+  getRequest(key: RequestKey): Request {
+    const id = requestId(key);
+    const request = this.requests[id] || key;
+    return { ...request };
+  }
+  async disputePrice(
+    signer: Signer,
+    { requester, identifier, timestamp, ancillaryData }: RequestKey
+  ): Promise<TransactionResponse> {
+    const contract = skinnyOptimisticOracle.connect(this.address, signer);
+    const request = await this.fetchLatestSolidityRequest({ requester, identifier, timestamp, ancillaryData });
+    const tx = await contract.disputePrice(requester, identifier, timestamp, ancillaryData, request);
+    this.setDisputeHash({ requester, identifier, timestamp, ancillaryData }, tx.hash);
+    return tx;
+  }
+  async proposePrice(
+    signer: Signer,
+    { requester, identifier, timestamp, ancillaryData }: RequestKey,
+    price: BigNumberish
+  ): Promise<TransactionResponse> {
+    const contract = skinnyOptimisticOracle.connect(this.address, signer);
+    const request = await this.fetchLatestSolidityRequest({ requester, identifier, timestamp, ancillaryData });
+    const tx = await contract.proposePrice(requester, identifier, timestamp, ancillaryData, request, price);
+    this.setProposeHash({ requester, identifier, timestamp, ancillaryData }, tx.hash);
+    return tx;
+  }
+  async settle(
+    signer: Signer,
+    { requester, identifier, timestamp, ancillaryData }: RequestKey
+  ): Promise<TransactionResponse> {
+    const contract = skinnyOptimisticOracle.connect(this.address, signer);
+    const request = await this.fetchLatestSolidityRequest({ requester, identifier, timestamp, ancillaryData });
+    const tx = await contract.settle(requester, identifier, timestamp, ancillaryData, request);
+    this.setSettleHash({ requester, identifier, timestamp, ancillaryData }, tx.hash);
+    return tx;
+  }
+  async update(startBlock = 0, endBlock: number | "latest" = "latest"): Promise<void> {
+    const events = await this.contract.queryFilter({}, startBlock, endBlock);
+    this.updateFromEvents((events as unknown[]) as SkinnyOptimisticOracleEvent[]);
+  }
+  async getProps(): Promise<OracleProps> {
+    return {
+      defaultLiveness: await this.contract.defaultLiveness(),
+    };
+  }
+  updateFromTransactionReceipt(receipt: TransactionReceipt): void {
+    const events = receipt.logs
+      .filter((log) => log.address.toLowerCase() === this.address.toLowerCase())
+      .map((log) => this.makeEventFromLog(log));
+    this.updateFromEvents((events as unknown[]) as SkinnyOptimisticOracleEvent[]);
+  }
+  listRequests(): Request[] {
+    return Object.values(this.requests);
+  }
+}
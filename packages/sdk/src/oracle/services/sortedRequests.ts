@@ -1,7 +1,11 @@
+import assert from "assert";
 import sortedIndex from "lodash/sortedIndex";
 import sortedLastIndex from "lodash/sortedLastIndex";
+import intersection from "lodash/intersection";
+import { ethers } from "ethers";
 
 import { exists } from "../../utils";
+import { parseAncillaryData } from "../../ancillaryData";
 import { requestId } from "../utils";
 
 import { Request, Requests } from "../types/interfaces";
@@ -38,7 +42,8 @@ export class SortedStore<Id, Data> {
   has = (id: Id): boolean => {
     return this.map.has(id);
   };
-  set = (id: Id, data: Data): void => {
+  // set, delete and clear are methods rather than arrow functions so they can be extended
+  set(id: Id, data: Data): void {
     if (this.map.has(id)) {
       this.map.set(id, data);
     } else {
@@ -46,7 +51,7 @@ export class SortedStore<Id, Data> {
       this.ids.splice(index, 0, id);
       this.map.set(id, data);
     }
-  };
+  }
   get = (id: Id): Data | undefined => {
     return this.map.get(id);
   };
@@ -59,17 +64,17 @@ export class SortedStore<Id, Data> {
   keys = (): Id[] => {
     return [...this.ids];
   };
-  clear = (): void => {
+  clear(): void {
     this.map.clear();
     this.ids.length = 0;
-  };
+  }
   size = (): number => {
     return this.ids.length;
   };
-  delete = (id: Id): void => {
+  delete(id: Id): void {
     if (!this.map.has(id)) return;
     this.del(id);
-  };
+  }
   // assume [a,b)
   between = (a: Id, b: Id): Data[] => {
     const start = this.getStart(a);
@@ -82,8 +87,144 @@ export class SortedStore<Id, Data> {
   };
 }
 
+// fields of a request which are indexed for queries, addresses and hashes are matched case insensitively
+const indexedFields = ["chainId", "requester", "identifier", "state", "proposer", "disputer", "currency"] as const;
+type IndexedField = typeof indexedFields[number];
+type IndexedValue = string | number;
+
+export type RequestQuery = Partial<Record<IndexedField, IndexedValue | IndexedValue[]>> & {
+  // state is a RequestState. Expiration window is in unix seconds, expirationTimestamp >= expiresAfter and < expiresBefore
+  expiresAfter?: number;
+  expiresBefore?: number;
+  // case insensitive text search on the decoded ancillary data
+  search?: string;
+  // newest requests first by default
+  ascending?: boolean;
+  // the next cursor from a previous result, returns the requests after it
+  cursor?: string;
+  // max number of requests to return, must be greater than 0
+  limit?: number;
+};
+
+export type RequestQueryResult = {
+  requests: Requests;
+  // set if there are more results, pass this as the query cursor to get them
+  next?: string;
+};
+
+function indexKey(field: IndexedField, value: IndexedValue): string {
+  return field + "!" + value.toString().toLowerCase();
+}
+
+// searchable text of ancillary data. Freeform ancillary data does not always parse, so fall back to the decoded string.
+function ancillaryDataText(ancillaryData: string): string {
+  try {
+    return Object.entries(parseAncillaryData(ancillaryData))
+      .map(([key, value]) => key + ":" + (typeof value === "string" ? value : JSON.stringify(value)))
+      .join(",")
+      .toLowerCase();
+  } catch (err) {
+    try {
+      return ethers.utils.toUtf8String(ancillaryData).toLowerCase();
+    } catch (err) {
+      return "";
+    }
+  }
+}
+
 // this sorts requests across all chains and oracles
 export class SortedRequests extends SortedStore<string, Request> {
+  // ids of requests keyed by indexed field and value
+  private indexes = new Map<string, Set<string>>();
+  // decoded ancillary data is cached since parsing is slow, ancillary data is part of the id so it never changes
+  private ancillaryTexts = new Map<string, string>();
+  private addIndexes(id: string, request: Request): void {
+    for (const field of indexedFields) {
+      const value = request[field];
+      if (!exists(value)) continue;
+      const key = indexKey(field, value);
+      const ids = this.indexes.get(key) || new Set<string>();
+      ids.add(id);
+      this.indexes.set(key, ids);
+    }
+  }
+  private removeIndexes(id: string): void {
+    const request = this.get(id);
+    if (!request) return;
+    for (const field of indexedFields) {
+      const value = request[field];
+      if (!exists(value)) continue;
+      const key = indexKey(field, value);
+      this.indexes.get(key)?.delete(id);
+      if (this.indexes.get(key)?.size === 0) this.indexes.delete(key);
+    }
+  }
+  private ancillaryText(request: Request): string {
+    const cached = this.ancillaryTexts.get(request.ancillaryData);
+    if (exists(cached)) return cached;
+    const text = ancillaryDataText(request.ancillaryData);
+    this.ancillaryTexts.set(request.ancillaryData, text);
+    return text;
+  }
+  // sorted ids matching all indexed fields in the query
+  private queryIds(query: RequestQuery): string[] {
+    const matches: string[][] = [];
+    for (const field of indexedFields) {
+      const value = query[field];
+      if (!exists(value)) continue;
+      const values = Array.isArray(value) ? value : [value];
+      const ids = values.flatMap((value) => [...(this.indexes.get(indexKey(field, value)) || [])]);
+      matches.push(ids);
+    }
+    if (matches.length === 0) return this.keys();
+    // ids are sorted the same way as the store, so results are in store order
+    return intersection(...matches).sort();
+  }
+  private matches(request: Request, query: RequestQuery): boolean {
+    const { expiresAfter, expiresBefore, search } = query;
+    if (exists(expiresAfter) || exists(expiresBefore)) {
+      if (!request.expirationTimestamp) return false;
+      const expiration = request.expirationTimestamp.toNumber();
+      if (exists(expiresAfter) && expiration < expiresAfter) return false;
+      if (exists(expiresBefore) && expiration >= expiresBefore) return false;
+    }
+    if (search && !this.ancillaryText(request).includes(search.toLowerCase())) return false;
+    return true;
+  }
+  set(id: string, request: Request): void {
+    this.removeIndexes(id);
+    super.set(id, request);
+    this.addIndexes(id, request);
+  }
+  delete(id: string): void {
+    this.removeIndexes(id);
+    super.delete(id);
+  }
+  clear(): void {
+    super.clear();
+    this.indexes.clear();
+    this.ancillaryTexts.clear();
+  }
+  // filter requests by indexed fields, expiration and ancillary data, with cursor pagination
+  query(query: RequestQuery = {}): RequestQueryResult {
+    const { ascending = false, cursor, limit = Infinity } = query;
+    assert(limit > 0, "Query limit must be greater than 0");
+    let ids = this.queryIds(query);
+    if (!ascending) ids.reverse();
+    if (exists(cursor)) {
+      // ids after the cursor in the direction of the query, the cursor does not have to be in the results
+      ids = ids.filter((id) => (ascending ? id > cursor : id < cursor));
+    }
+    const requests: Requests = [];
+    for (const id of ids) {
+      const request = this.get(id);
+      if (!request || !this.matches(request, query)) continue;
+      // found one more than the limit, so there is another page
+      if (requests.length === limit) return { requests, next: this.id(requests[requests.length - 1]) };
+      requests.push(request);
+    }
+    return { requests };
+  }
   setByRequest(value: InputRequest): void {
     return this.set(this.id(value), value);
   }
@@ -10,12 +10,14 @@ import { ContextClient } from "./utils";
 import { Update } from "../update";
 import { rangeStart, rangeSuccessDescending, rangeFailureDescending, RangeState } from "../../utils";
 import { ignoreExistenceErrorAsync } from "../../errors";
+import { exists } from "../../../utils";
 
 export type Params = {
   chainId: number;
   startBlock?: number;
   endBlock?: number;
   maxRange?: number;
+  reorgWindow?: number;
 };
 
 export type Memory = { error?: Error; state?: RangeState; iterations: number };
@@ -29,9 +31,20 @@ export function Handlers(store: Store): GenericHandlers<Params, Memory> {
   return {
     async start(params: Params, memory: Memory, ctx: ContextClient) {
       const provider = store.read().provider(params.chainId);
-      const { chainId, startBlock = 0, endBlock = await provider.getBlockNumber(), maxRange } = params;
+      const { chainId, endBlock = await provider.getBlockNumber(), maxRange, reorgWindow = 100 } = params;
+      let { startBlock = 0 } = params;
 
       memory.error = undefined;
+      // on the first iteration, resume from where the event cache left off if there is one
+      if (!memory.state && store.has().eventCacheService()) {
+        try {
+          const resumeBlock = await update.loadEventCache(chainId, reorgWindow);
+          if (exists(resumeBlock)) startBlock = Math.max(startBlock, Math.min(resumeBlock, endBlock - 1));
+        } catch (err) {
+          // scan from the start block if the cache cant be read
+          memory.error = (err as unknown) as Error;
+        }
+      }
       // we use this wierd range thing because in the case we cant query the entire block range due to provider error
       // we want to move start block closer to endblock to reduce the range until it stops erroring. These range functions
       // will do that for us.
@@ -57,7 +70,17 @@ export function Handlers(store: Store): GenericHandlers<Params, Memory> {
       }
       memory.iterations++;
       // the range functions will tell us when we have successfully queried the entire range of blocks.
-      if (memory?.state?.done) return "done";
+      if (memory?.state?.done) {
+        // all blocks between the start and end block have been scanned, so the event cache can resume from the end block
+        if (store.has().eventCacheService()) {
+          try {
+            await update.saveEventCache(chainId, memory.state.startBlock, memory.state.endBlock);
+          } catch (err) {
+            memory.error = (err as unknown) as Error;
+          }
+        }
+        return "done";
+      }
       // sleep to let other contexts run, but just resume right after.
       return ctx.sleep(100);
     },
@@ -13,7 +13,8 @@ export type Params = {
   pollRateSec?: number;
 };
 
-export type Memory = { error?: Error; lastBlock?: number; iterations: number };
+// firstBlock is the first block this poller queried, it has queried all blocks between that and lastBlock.
+export type Memory = { error?: Error; firstBlock?: number; lastBlock?: number; iterations: number };
 
 export function initMemory(): Memory {
   return { iterations: 0 };
@@ -42,8 +43,15 @@ export function Handlers(store: Store): GenericHandlers<Params, Memory> {
           // we can just try to update the current active request, we dont care if it fails, active request might not be set
           await ignoreExistenceErrorAsync(update.activeRequestFromEvents);
 
+          memory.firstBlock = memory.firstBlock ?? currentBlock;
           // reset our last block seen to the latest (end) block
           memory.lastBlock = latestBlock;
+
+          // persist requests and the last scanned block, this only saves once past events have been scanned up to firstBlock
+          if (store.has().eventCacheService()) {
+            await update.saveEventCache(chainId, memory.firstBlock, latestBlock);
+          }
+
           // just count how many successful iterations we do as a kind of sanity check
           memory.iterations++;
         } else {
@@ -1,7 +1,8 @@
 import assert from "assert";
 import Store from "../../store";
 import { Handlers as GenericHandlers } from "../../types/statemachine";
-import { optimisticOracle } from "../../../clients";
+import { OptimisticOracleType } from "../../types/state";
+import { optimisticOracle, skinnyOptimisticOracle } from "../../../clients";
 
 // required exports for state machine
 export type Params = { chainId: number; transactionHash: string; eventIndex?: number };
@@ -18,10 +19,15 @@ export function Handlers(store: Store): GenericHandlers<Params, Memory> {
       const provider = store.read().provider(chainId);
       const receipt = await provider.getTransactionReceipt(transactionHash);
       const oracleAddress = store.read().oracleAddress(chainId);
+      // event signatures differ between oracles, since skinny oracle events include the full request
+      const contractInterface =
+        store.read().oracleType(chainId) === OptimisticOracleType.SkinnyOptimisticOracle
+          ? skinnyOptimisticOracle.contractInterface
+          : optimisticOracle.contractInterface;
       // filter out logs that originate from oracle contract
       const oracleLogs = receipt.logs.filter((log) => log.address.toLowerCase() === oracleAddress.toLowerCase());
       // decode logs using abi
-      const decodedLogs = oracleLogs.map((log) => optimisticOracle.contractInterface.parseLog(log));
+      const decodedLogs = oracleLogs.map((log) => contractInterface.parseLog(log));
 
       // this is the event we care about, we index into the appropriate oracle event generated from this tx
       const log = decodedLogs[eventIndex];
@@ -0,0 +1,33 @@
+import dotenv from "dotenv";
+import assert from "assert";
+import { ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import { SkinnyOptimisticOracle } from "../skinnyOptimisticOracle";
+
+dotenv.config();
+
+// mainnet test only
+const ooAddress = "0xeE3Afe347D5C74317041E2618C49534dAf887c24";
+
+describe("SkinnyOptimisticOracle Service", function () {
+  let provider: Provider;
+  let oo: SkinnyOptimisticOracle;
+  beforeAll(async () => {
+    provider = ethers.getDefaultProvider(process.env.CUSTOM_NODE_URL, 1);
+    oo = new SkinnyOptimisticOracle(provider, ooAddress, 1);
+  });
+  test("update", async function () {
+    await oo.update();
+    assert.ok(oo.listRequests().length > 0);
+  });
+  test("getProps", async function () {
+    const result = await oo.getProps();
+    assert.ok(result.defaultLiveness);
+  });
+  test("fetchRequest", async function () {
+    const [request] = oo.listRequests();
+    const result = await oo.fetchRequest(request);
+    assert.ok(result);
+    assert.ok(result.state);
+  });
+});
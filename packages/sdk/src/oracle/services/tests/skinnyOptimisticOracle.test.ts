@@ -0,0 +1,129 @@
+import assert from "assert";
+import { ethers } from "ethers";
+import { contractInterface, RequestState } from "../../../clients/skinnyOptimisticOracle";
+import { SkinnyOptimisticOracle, SolidityRequest } from "../skinnyOptimisticOracle";
+import { Provider, Signer } from "../../types/ethers";
+
+const address = "0xeE3Afe347D5C74317041E2618C49534dAf887c24";
+const requester = "0x863E77B0bFC12193d2f5D41cdcacE81f1bb5a09F";
+const proposer = "0x9A8f92a830A5cB89a3816e3D267CB7791c16b04D";
+const otherProposer = "0x4E1b5DA1B9c5B6Ef9D2c17d9FBC8e0f3D1D21C8e";
+const key = {
+  requester,
+  identifier: "0x5945535f4f525f4e4f5f51554552590000000000000000000000000000000000",
+  timestamp: 1000,
+  ancillaryData: "0x",
+};
+
+function makeSolidityRequest(props: Partial<SolidityRequest> = {}): SolidityRequest {
+  return {
+    proposer: ethers.constants.AddressZero,
+    disputer: ethers.constants.AddressZero,
+    currency: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174",
+    settled: false,
+    proposedPrice: 0,
+    resolvedPrice: 0,
+    expirationTime: 0,
+    reward: 0,
+    finalFee: 0,
+    bond: 0,
+    customLiveness: 0,
+    ...props,
+  };
+}
+
+function makeLog(eventName: string, blockNumber: number, request: SolidityRequest): ethers.providers.Log {
+  const { requester, identifier, timestamp, ancillaryData } = key;
+  const fragment = contractInterface.getEvent(eventName);
+  return {
+    ...contractInterface.encodeEventLog(fragment, [requester, identifier, timestamp, ancillaryData, request]),
+    address,
+    blockNumber,
+    blockHash: ethers.utils.hexZeroPad(ethers.utils.hexlify(blockNumber), 32),
+    transactionIndex: 0,
+    transactionHash: ethers.utils.hexZeroPad(ethers.utils.hexlify(blockNumber), 32),
+    logIndex: 0,
+    removed: false,
+  };
+}
+
+// fake chain for the contract calls the service makes. getState reverts unless given the struct of the latest event,
+// like the contract does when the struct does not match the request hash.
+function makeChain() {
+  const logs: ethers.providers.Log[] = [];
+  const logQueries: ethers.providers.Filter[] = [];
+  const sentTransactions: ethers.utils.TransactionDescription[] = [];
+  const latestRequest = () => {
+    const [latest] = [...logs].sort((a, b) => b.blockNumber - a.blockNumber);
+    return contractInterface.parseLog(latest).args.request;
+  };
+  const provider = {
+    _isProvider: true,
+    async getLogs(filter: ethers.providers.Filter) {
+      logQueries.push(filter);
+      const topics = filter.topics || [];
+      return logs.filter((log) => topics.every((topic, i) => topic === null || topic === log.topics[i]));
+    },
+    async call(transaction: ethers.providers.TransactionRequest) {
+      const { args } = contractInterface.parseTransaction({ data: transaction.data as string });
+      if (args.request.proposer !== latestRequest().proposer) throw new Error("Hashed request don't match");
+      return contractInterface.encodeFunctionResult("getState", [RequestState.Proposed]);
+    },
+  };
+  const signer = {
+    _isSigner: true,
+    provider,
+    async getAddress() {
+      return proposer;
+    },
+    async sendTransaction(transaction: ethers.providers.TransactionRequest) {
+      sentTransactions.push(contractInterface.parseTransaction({ data: transaction.data as string }));
+      return { hash: "0x01", wait: async () => ({ status: 1 }) };
+    },
+  };
+  return {
+    logs,
+    logQueries,
+    sentTransactions,
+    provider: (provider as unknown) as Provider,
+    signer: (signer as unknown) as Signer,
+  };
+}
+
+describe("SkinnyOptimisticOracle Service", function () {
+  let chain: ReturnType<typeof makeChain>;
+  let oo: SkinnyOptimisticOracle;
+  beforeEach(function () {
+    chain = makeChain();
+    oo = new SkinnyOptimisticOracle(chain.provider, address, 1);
+  });
+  test("keeps the struct from the latest event", async function () {
+    chain.logs.push(makeLog("RequestPrice", 1, makeSolidityRequest()));
+    chain.logs.push(makeLog("ProposePrice", 2, makeSolidityRequest({ proposer, proposedPrice: 1 })));
+    // events are not returned in order
+    chain.logs.reverse();
+    await oo.update();
+    // getState only succeeds with the struct of the proposal, without fetching the events again
+    const request = await oo.fetchRequest(key);
+    assert.equal(request.state, RequestState.Proposed);
+    assert.equal(request.proposer, proposer);
+    assert.equal(chain.logQueries.length, 1);
+  });
+  test("refreshes the request before each transaction", async function () {
+    chain.logs.push(makeLog("RequestPrice", 1, makeSolidityRequest()));
+    await oo.update();
+    // another account proposes after the client has seen the request
+    chain.logs.push(makeLog("ProposePrice", 2, makeSolidityRequest({ proposer: otherProposer, proposedPrice: 1 })));
+    await oo.disputePrice(chain.signer, key);
+    assert.equal(chain.sentTransactions[0].name, "disputePrice");
+    assert.equal(chain.sentTransactions[0].args.request.proposer, otherProposer);
+  });
+  test("refreshes the request when getState reverts", async function () {
+    chain.logs.push(makeLog("RequestPrice", 1, makeSolidityRequest()));
+    await oo.update();
+    chain.logs.push(makeLog("ProposePrice", 2, makeSolidityRequest({ proposer: otherProposer, proposedPrice: 1 })));
+    const request = await oo.fetchRequest(key);
+    assert.equal(request.state, RequestState.Proposed);
+    assert.equal(request.proposer, otherProposer);
+  });
+});
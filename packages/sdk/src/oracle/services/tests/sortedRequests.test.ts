@@ -0,0 +1,90 @@
+import assert from "assert";
+import { ethers, BigNumber } from "ethers";
+import { SortedRequests } from "../sortedRequests";
+import { Request } from "../../types/interfaces";
+import { RequestState } from "../../types/state";
+
+const requester = "0x863E77B0bFC12193d2f5D41cdcacE81f1bb5a09F";
+const proposer = "0x9A8f92a830A5cB89a3816e3D267CB7791c16b04D";
+const identifier = "0x5945535f4f525f4e4f5f51554552590000000000000000000000000000000000";
+const toHex = (text: string) => ethers.utils.hexlify(ethers.utils.toUtf8Bytes(text));
+
+function makeRequest(timestamp: number, props: Partial<Request> = {}): Request {
+  return {
+    requester,
+    identifier,
+    timestamp,
+    ancillaryData: toHex("q:title: Will it rain " + timestamp),
+    chainId: 1,
+    state: RequestState.Requested,
+    ...props,
+  };
+}
+
+describe("SortedRequests", function () {
+  let sorted: SortedRequests;
+  beforeAll(function () {
+    sorted = new SortedRequests();
+    sorted.setByRequest(makeRequest(1000));
+    sorted.setByRequest(makeRequest(1001, { chainId: 137 }));
+    sorted.setByRequest(makeRequest(1002, { ancillaryData: toHex("base:UMA,quote:USD") }));
+    sorted.setByRequest(
+      makeRequest(1003, { state: RequestState.Proposed, proposer, expirationTimestamp: BigNumber.from(2000) })
+    );
+  });
+  test("query all descending", function () {
+    const { requests, next } = sorted.query();
+    assert.deepEqual(
+      requests.map((request) => request.timestamp),
+      [1003, 1002, 1001, 1000]
+    );
+    assert.equal(next, undefined);
+  });
+  test("query indexed fields", function () {
+    assert.equal(sorted.query({ chainId: 137 }).requests[0].timestamp, 1001);
+    assert.equal(sorted.query({ chainId: [1, 137] }).requests.length, 4);
+    // addresses are case insensitive
+    assert.equal(sorted.query({ proposer: proposer.toLowerCase() }).requests[0].timestamp, 1003);
+    assert.equal(sorted.query({ requester, state: RequestState.Proposed }).requests.length, 1);
+    assert.equal(sorted.query({ disputer: proposer }).requests.length, 0);
+  });
+  test("reindexes updated requests", function () {
+    sorted.setByRequest(makeRequest(1000, { state: RequestState.Settled }));
+    assert.equal(sorted.query({ state: RequestState.Settled }).requests[0].timestamp, 1000);
+    assert.equal(sorted.query({ state: RequestState.Requested }).requests.length, 2);
+  });
+  test("query expiration window", function () {
+    assert.equal(sorted.query({ expiresAfter: 2000, expiresBefore: 2001 }).requests.length, 1);
+    assert.equal(sorted.query({ expiresBefore: 2000 }).requests.length, 0);
+  });
+  test("search ancillary data", function () {
+    assert.equal(sorted.query({ search: "uma" }).requests[0].timestamp, 1002);
+    // freeform ancillary data which does not parse is searched as text
+    assert.equal(sorted.query({ search: "rain 1001" }).requests[0].timestamp, 1001);
+  });
+  test("paginate with cursors", function () {
+    let result = sorted.query({ limit: 3 });
+    assert.equal(result.requests.length, 3);
+    assert.ok(result.next);
+    result = sorted.query({ limit: 3, cursor: result.next });
+    assert.deepEqual(
+      result.requests.map((request) => request.timestamp),
+      [1000]
+    );
+    assert.equal(result.next, undefined);
+
+    result = sorted.query({ ascending: true, limit: 2 });
+    assert.deepEqual(
+      result.requests.map((request) => request.timestamp),
+      [1000, 1001]
+    );
+    result = sorted.query({ ascending: true, limit: 2, cursor: result.next });
+    assert.deepEqual(
+      result.requests.map((request) => request.timestamp),
+      [1002, 1003]
+    );
+    assert.equal(result.next, undefined);
+
+    assert.throws(() => sorted.query({ limit: 0 }), /limit/);
+  });
+});
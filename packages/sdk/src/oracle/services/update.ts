@@ -1,6 +1,9 @@
 import Store from "../store";
 import { InputRequest } from "../types/state";
 import { TransactionReceipt } from "../types/ethers";
+import { Request } from "../types/interfaces";
+import { lastEventBlockNumber, rollbackRequest } from "./eventCache";
+import { exists } from "../../utils";
 
 export class Update {
   private read: Store["read"];
@@ -91,7 +94,8 @@ export class Update {
     Object.values(requests).forEach((value) => {
       // chains can have colliding keys ( mainly testnet forks), so we always need to append chain to to keep key unique across chains otherwise
       // collisions will cause overwrites, removing ability to list identical requests across chains.
-      sortedRequestsService.setByRequest({ ...value });
+      // merge with what we already know, since requests loaded from the event cache may not have all their events here.
+      sortedRequestsService.setByRequest({ ...sortedRequestsService.getByRequest(value), ...value });
     });
     // query all known requests and update our state with the entire list.
     // this is expensive, consider optimizing after proven detrimental.
@@ -100,6 +104,52 @@ export class Update {
       w.descendingRequests(descendingRequests);
     });
   };
+  // loads requests saved in the event cache into the sorted request table, and returns the block to resume scanning
+  // events from. Blocks in the reorg window are scanned again, so requests and events first seen there are removed from
+  // the cache in case they were reorged away, they will be added back if found again. Returns undefined if this chain
+  // has nothing cached.
+  loadEventCache = async (chainId: number, reorgWindow: number): Promise<number | undefined> => {
+    const eventCache = this.read().eventCacheService();
+    const scannedBlock = await eventCache.getScannedBlock(chainId);
+    if (!exists(scannedBlock)) return;
+    const resumeBlock = Math.max(scannedBlock - reorgWindow, 0);
+    const requests = await eventCache.getRequests(chainId);
+    const sortedRequestsService = this.read().sortedRequestsService();
+    const removedRequests: Request[] = [];
+    const rolledBackRequests: Request[] = [];
+    requests.forEach((request) => {
+      const rolledBackRequest = rollbackRequest(request, resumeBlock);
+      if (!exists(rolledBackRequest)) {
+        removedRequests.push(request);
+        return;
+      }
+      if (rolledBackRequest !== request) rolledBackRequests.push(rolledBackRequest);
+      sortedRequestsService.setByRequest(rolledBackRequest);
+    });
+    await eventCache.deleteRequests(removedRequests);
+    await eventCache.setRequests(rolledBackRequests);
+    const descendingRequests = sortedRequestsService.descending();
+    this.write((w) => {
+      w.descendingRequests(descendingRequests);
+    });
+    return resumeBlock;
+  };
+  // saves requests with events from startBlock onwards to the event cache, once all blocks between the last cached block
+  // and endBlock have been scanned. If this range does not connect to the cached blocks, nothing is saved, otherwise
+  // resuming would skip the blocks in between.
+  saveEventCache = async (chainId: number, startBlock: number, endBlock: number): Promise<void> => {
+    const eventCache = this.read().eventCacheService();
+    const scannedBlock = await eventCache.getScannedBlock(chainId);
+    const { earliestBlockNumber = 0 } = this.read().chainConfig(chainId);
+    const connected = exists(scannedBlock) ? startBlock <= scannedBlock + 1 : startBlock <= earliestBlockNumber;
+    if (!connected) return;
+    const requests = this.read()
+      .sortedRequestsService()
+      .ascending()
+      .filter((request) => request.chainId === chainId && lastEventBlockNumber(request) >= startBlock);
+    await eventCache.setRequests(requests);
+    if (!exists(scannedBlock) || endBlock > scannedBlock) await eventCache.setScannedBlock(chainId, endBlock);
+  };
   // this updates the current active request object used in the details page, as new properties might come in from events
   // current request needs access to things like transation hash, only available through events.
   activeRequestFromEvents = (params?: InputRequest): void => {
@@ -23,6 +23,9 @@ export default class Has {
   sortedRequestsService = (): boolean => {
     return exists(ignoreExistenceError(this.read.sortedRequestsService));
   };
+  eventCacheService = (): boolean => {
+    return exists(ignoreExistenceError(this.read.eventCacheService));
+  };
   requestChainId = (): boolean => {
     return exists(ignoreExistenceError(this.read.requestChainId));
   };
@@ -1,11 +1,22 @@
 import filter from "lodash/filter";
 
-import type { State, Chain, InputRequest, Erc20Props, ChainConfig, Context, Memory, User } from "../types/state";
-import type { JsonRpcSigner, BigNumber, Provider } from "../types/ethers";
+import type {
+  State,
+  Chain,
+  InputRequest,
+  Erc20Props,
+  ChainConfig,
+  Context,
+  Memory,
+  User,
+  OptimisticOracleType,
+} from "../types/state";
+import type { Signer, BigNumber, Provider } from "../types/ethers";
 import { TransactionConfirmer, requestId } from "../utils";
 import { OracleInterface, Request, Requests } from "../types/interfaces";
 import { Erc20 } from "../services/erc20";
-import { SortedRequests } from "../services/sortedRequests";
+import { SortedRequests, RequestQuery, RequestQueryResult } from "../services/sortedRequests";
+import { EventCache } from "../services/eventCache";
 import { assertExists } from "../errors";
 
 // This is a typescript compatible way of pulling out values from the global state object, essentially
@@ -52,7 +63,10 @@ export default class Read {
     assertExists(address, "Optimistic oracle address not set");
     return address;
   };
-  signer = (): JsonRpcSigner => {
+  oracleType = (optionalChainId?: number): OptimisticOracleType => {
+    return this.chainConfig(optionalChainId).optimisticOracleType;
+  };
+  signer = (): Signer => {
     const signer = this.state?.inputs?.user?.signer;
     assertExists(signer, "Signer is not set");
     return signer;
@@ -160,6 +174,11 @@ export default class Read {
     assertExists(result, "Sorted request service not set");
     return result;
   };
+  eventCacheService = (): EventCache => {
+    const result = this.state?.services?.eventCache;
+    assertExists(result, "Event cache service not set");
+    return result;
+  };
   listChains = (): number[] => {
     return Object.keys(this.state?.chains || {}).map(Number);
   };
@@ -173,4 +192,7 @@ export default class Read {
   filterRequests = (query: Partial<Request>): Requests => {
     return filter(this.descendingRequests(), query);
   };
+  queryRequests = (query: RequestQuery): RequestQueryResult => {
+    return this.sortedRequestsService().query(query);
+  };
 }
@@ -6,6 +6,7 @@ import { requestId } from "../utils";
 import { factory as Erc20Factory } from "../services/erc20";
 import Multicall2 from "../../multicall2";
 import { SortedRequests } from "../services/sortedRequests";
+import type { EventCache } from "../services/eventCache";
 import type { OracleInterface, Request, Requests } from "../types/interfaces";
 
 // This file contains composable and type safe state writers which mirror the state in types/state.
@@ -36,7 +37,7 @@ export class User {
   address(address: string): void {
     this.state.address = address;
   }
-  signer(signer: ethersTypes.JsonRpcSigner): void {
+  signer(signer: ethersTypes.Signer): void {
     this.state.signer = signer;
   }
   provider(provider: ethersTypes.Web3Provider): void {
@@ -165,6 +166,10 @@ export default class Write {
     // only want to add this once
     this.state.services = { sortedRequests: new SortedRequests() };
   }
+  eventCacheService(eventCache: EventCache): void {
+    if (!this.state.services) this.state.services = {};
+    this.state.services.eventCache = eventCache;
+  }
   descendingRequests(sortedRequests: Requests): void {
     this.state.descendingRequests = sortedRequests;
   }
@@ -0,0 +1,115 @@
+import assert from "assert";
+import { BigNumber } from "ethers";
+import { JsMap } from "../../stores";
+import Store from "../store";
+import { Update } from "../services/update";
+import { EventCache, SerializedRequest, rollbackRequest } from "../services/eventCache";
+import { defaultChainConfig } from "../utils";
+import { Request, RequestState } from "../types/interfaces";
+
+const chainConfig = defaultChainConfig(1, {
+  chainName: "Ethereum",
+  rpcUrls: ["https://localhost:8545"],
+  blockExplorerUrls: ["https://etherscan.io"],
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  earliestBlockNumber: 100,
+});
+
+function makeRequest(timestamp: number, requestBlockNumber: number, chainId = 1): Request {
+  return {
+    requester: "0x863E77B0bFC12193d2f5D41cdcacE81f1bb5a09F",
+    identifier: "0x5945535f4f525f4e4f5f51554552590000000000000000000000000000000000",
+    ancillaryData: "0x",
+    timestamp,
+    chainId,
+    bond: BigNumber.from("1000"),
+    requestTx: "0x" + timestamp,
+    requestBlockNumber,
+  };
+}
+
+describe("Oracle Event Cache", function () {
+  let eventCache: EventCache;
+  let store: Store;
+  let update: Update;
+  beforeEach(function () {
+    eventCache = new EventCache(JsMap<string, SerializedRequest>(), JsMap<string, number>());
+    store = new Store();
+    store.write((write) => {
+      write.config({ chains: { 1: chainConfig } });
+      write.sortedRequestsService();
+      write.eventCacheService(eventCache);
+    });
+    update = new Update(store);
+  });
+  test("saves requests with BigNumbers by chain", async function () {
+    await eventCache.setRequests([makeRequest(1, 150), makeRequest(1, 150, 137)]);
+    const [request, ...rest] = await eventCache.getRequests(1);
+    assert.equal(rest.length, 0);
+    assert.deepEqual(request, makeRequest(1, 150));
+    assert.ok(BigNumber.isBigNumber(request.bond));
+  });
+  test("only saves scanned blocks connected to the earliest or cached block", async function () {
+    store.read().sortedRequestsService().setByRequest(makeRequest(1, 150));
+    // blocks between the earliest block and 200 were not scanned
+    await update.saveEventCache(1, 200, 300);
+    assert.equal(await eventCache.getScannedBlock(1), undefined);
+
+    await update.saveEventCache(1, 100, 300);
+    assert.equal(await eventCache.getScannedBlock(1), 300);
+    assert.equal((await eventCache.getRequests(1)).length, 1);
+
+    await update.saveEventCache(1, 400, 500);
+    assert.equal(await eventCache.getScannedBlock(1), 300);
+    await update.saveEventCache(1, 301, 500);
+    assert.equal(await eventCache.getScannedBlock(1), 500);
+  });
+  test("resumes before the reorg window", async function () {
+    await eventCache.setRequests([makeRequest(1, 150), makeRequest(2, 450)]);
+    await eventCache.setScannedBlock(1, 500);
+    const resumeBlock = await update.loadEventCache(1, 100);
+    assert.equal(resumeBlock, 400);
+    // the request in the reorg window is left to be scanned again
+    const requests = store.read().descendingRequests();
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].timestamp, 1);
+    assert.equal(await update.loadEventCache(137, 100), undefined);
+  });
+  test("forgets requests and events in the reorg window that are not found again", async function () {
+    const proposedRequest: Request = {
+      ...makeRequest(1, 150),
+      proposer: "0x9A8f92a830A5cB89a3816e3D267CB7791c16b04D",
+      proposedPrice: BigNumber.from("1"),
+      expirationTimestamp: BigNumber.from("7200"),
+      state: RequestState.Proposed,
+      proposeTx: "0x450",
+      proposeBlockNumber: 450,
+    };
+    await eventCache.setRequests([proposedRequest, makeRequest(2, 450)]);
+    await eventCache.setScannedBlock(1, 500);
+    assert.equal(await update.loadEventCache(1, 100), 400);
+    // rescanning blocks 400 to 600 finds neither the proposal nor the second request
+    await update.saveEventCache(1, 400, 600);
+
+    const [request, ...rest] = await eventCache.getRequests(1);
+    assert.equal(rest.length, 0);
+    assert.deepEqual(request, { ...makeRequest(1, 150), state: RequestState.Requested });
+    assert.deepEqual(store.read().descendingRequests(), [request]);
+
+    // once the scanned block is past the reorg window, the next load does not bring them back
+    const nextStore = new Store();
+    nextStore.write((write) => {
+      write.config({ chains: { 1: chainConfig } });
+      write.sortedRequestsService();
+      write.eventCacheService(eventCache);
+    });
+    assert.equal(await new Update(nextStore).loadEventCache(1, 100), 500);
+    assert.deepEqual(nextStore.read().descendingRequests(), [request]);
+  });
+  test("rolls back only events after the block", async function () {
+    const proposedRequest: Request = { ...makeRequest(1, 150), proposeTx: "0x450", proposeBlockNumber: 450 };
+    assert.deepEqual(rollbackRequest(proposedRequest, 450), proposedRequest);
+    assert.deepEqual(rollbackRequest(proposedRequest, 449), { ...makeRequest(1, 150), state: RequestState.Requested });
+    assert.equal(rollbackRequest(proposedRequest, 149), undefined);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from "assert";
+import { ethers } from "ethers";
+import { factory, NodeClient } from "../nodeClient";
+import type { Signer } from "../types/ethers";
+
+const config = {
+  chains: {
+    1: { rpcUrls: ["https://localhost:8545"] as [string] },
+  },
+};
+
+describe("Oracle Node Client", function () {
+  let nodeClient: NodeClient;
+  beforeAll(function () {
+    nodeClient = factory(config, ethers.Wallet.createRandom());
+  });
+  test("fills wallet metadata", function () {
+    const chainConfig = nodeClient.client.store.read().chainConfig(1);
+    assert.equal(chainConfig.chainName, "Chain 1");
+    assert.deepEqual(chainConfig.rpcUrls, config.chains[1].rpcUrls);
+  });
+  test("waitFor resolves when command is done", async function () {
+    const done = nodeClient.waitFor(nodeClient.client.clearUser());
+    await nodeClient.client.sm.tick();
+    const command = await done;
+    assert.equal(command.state, "done");
+  });
+  test("waitFor resolves commands which are already done", async function () {
+    const id = nodeClient.client.clearUser();
+    await nodeClient.client.sm.tick();
+    const command = await nodeClient.waitFor(id);
+    assert.equal(command.id, id);
+  });
+  test("waitFor rejects with command error", async function () {
+    const signer = ({ getChainId: async () => 2 } as unknown) as Signer;
+    const id = nodeClient.client.sm.types.approve.create({
+      currency: ethers.constants.AddressZero,
+      chainId: 1,
+      signer,
+      account: ethers.constants.AddressZero,
+      spender: ethers.constants.AddressZero,
+      amount: "1",
+      confirmations: 1,
+      checkTxIntervalSec: 1,
+    });
+    const done = nodeClient.waitFor(id);
+    await nodeClient.client.sm.tick();
+    await assert.rejects(done, /Signer on wrong chainid/);
+  });
+  test("stop rejects pending commands", async function () {
+    nodeClient.start(1000);
+    const done = nodeClient.waitFor("unknown");
+    nodeClient.stop();
+    await assert.rejects(done, /Node client stopped/);
+  });
+  test("rejects pending commands when the client loop crashes", async function () {
+    const crashingClient = factory(config, ethers.Wallet.createRandom());
+    crashingClient.client.sm.tick = async () => {
+      throw new Error("Tick failed");
+    };
+    const done = crashingClient.waitFor("unknown");
+    crashingClient.start(1);
+    await assert.rejects(done, /Tick failed/);
+    // commands waited for after the crash are rejected too, until the client is started again
+    await assert.rejects(crashingClient.waitFor("unknown"), /Tick failed/);
+  });
+});
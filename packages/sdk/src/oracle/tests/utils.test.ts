@@ -1,5 +1,6 @@
 import assert from "assert";
 import * as utils from "../utils";
+import { OptimisticOracleType } from "../types/state";
 
 describe("Oracle Utils", function () {
   test("rangeDescending", function () {
@@ -74,4 +75,29 @@ describe("Oracle Utils", function () {
     assert.equal(rangeState.currentEnd, endBlock - maxRange);
     assert.ok(!rangeState.done);
   });
+  test("defaultChainConfig", function () {
+    const chainMetadata = {
+      chainName: "Ethereum",
+      rpcUrls: ["https://localhost:8545"] as [string],
+      blockExplorerUrls: ["https://etherscan.io"] as [string],
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    };
+    let config = utils.defaultChainConfig(1, chainMetadata);
+    assert.equal(config.optimisticOracleType, OptimisticOracleType.OptimisticOracle);
+    assert.equal(config.optimisticOracleAddress, utils.getOptimisticOracleAddress(1));
+
+    config = utils.defaultChainConfig(1, {
+      ...chainMetadata,
+      optimisticOracleType: OptimisticOracleType.SkinnyOptimisticOracle,
+    });
+    assert.equal(config.optimisticOracleType, OptimisticOracleType.SkinnyOptimisticOracle);
+    assert.equal(config.optimisticOracleAddress, utils.getSkinnyOptimisticOracleAddress(1));
+
+    assert.throws(() =>
+      utils.defaultChainConfig(137, {
+        ...chainMetadata,
+        optimisticOracleType: OptimisticOracleType.SkinnyOptimisticOracle,
+      })
+    );
+  });
 });
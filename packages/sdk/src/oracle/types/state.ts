@@ -1,5 +1,5 @@
-import { JsonRpcSigner, BigNumber, Web3Provider, FallbackProvider } from "./ethers";
-import type { erc20, sortedRequests } from "../services";
+import { Signer, BigNumber, Web3Provider, FallbackProvider } from "./ethers";
+import type { erc20, sortedRequests, eventCache } from "../services";
 import { Request, OracleInterface } from "./interfaces";
 import type Multicall2 from "../../multicall2";
 import { Context, Memory } from "./statemachine";
@@ -20,6 +20,7 @@ export type ChainServices = {
 
 export type Services = {
   sortedRequests?: sortedRequests.SortedRequests;
+  eventCache?: eventCache.EventCache;
   chains?: Record<number, Partial<ChainServices>>;
 };
 
@@ -37,20 +38,29 @@ export type ChainMetadata = {
   };
 };
 
+// the flavour of optimistic oracle deployed at optimisticOracleAddress
+export enum OptimisticOracleType {
+  OptimisticOracle = "OptimisticOracle",
+  SkinnyOptimisticOracle = "SkinnyOptimisticOracle",
+}
+
 export type ChainConfig = ChainMetadata & {
   checkTxIntervalSec: number;
   multicall2Address?: string;
   optimisticOracleAddress: string;
+  optimisticOracleType: OptimisticOracleType;
   // specify a block number which we do not care about blocks before this. This effectively prevents listing
   // requests older than this. If not specified, we will lookback to block 0 when considering request history.
   earliestBlockNumber?: number;
   maxEventRangeQuery?: number;
+  // when resuming from an event cache, re-scan this many blocks before the last cached block to reconcile reorgs.
+  reorgWindow?: number;
 };
 
 // partial config lets user omit some fields which we can infer internally using contracts-frontend
 export type PartialChainConfig = PartialBy<
   ChainConfig,
-  "optimisticOracleAddress" | "chainId" | "checkTxIntervalSec" | "earliestBlockNumber"
+  "optimisticOracleAddress" | "optimisticOracleType" | "chainId" | "checkTxIntervalSec" | "earliestBlockNumber"
 >;
 
 // config definition
@@ -67,7 +77,8 @@ export type Balances = Record<string, BigNumber>;
 export type User = {
   address: string;
   chainId: number;
-  signer: JsonRpcSigner;
+  // a JsonRpcSigner in the browser, or any signer connected to the chain, like an ethers Wallet, in node
+  signer: Signer;
   provider: Web3Provider;
 };
 
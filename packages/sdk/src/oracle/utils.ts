@@ -15,6 +15,7 @@ import {
   PartialConfig,
   ChainMetadata,
   Config,
+  OptimisticOracleType,
 } from "./types/state";
 import type { Provider, TransactionReceipt, BigNumberish } from "./types/ethers";
 import { ContextType } from "./types/statemachine";
@@ -126,6 +127,19 @@ export function getOptimisticOracleAddress(chainId: number): string {
   }
 }
 
+export function getSkinnyOptimisticOracleAddress(chainId: number): string {
+  switch (chainId.toString()) {
+    case "1":
+      return getAddress("0xeE3Afe347D5C74317041E2618C49534dAf887c24");
+    case "4":
+      return getAddress("0xAbE04Ace666294aefD65F991d78CE9F9218aFC67");
+    case "42":
+      return getAddress("0xAa04b5D40574Fb8C001249B24d1c6B35a207F0bD");
+    default:
+      throw new Error(`No address found for deployment SkinnyOptimisticOracle on chainId ${chainId}`);
+  }
+}
+
 export function getMulticall2Address(chainId: number): string {
   switch (chainId.toString()) {
     case "1":
@@ -149,8 +163,13 @@ export function defaultChainConfig(chainId: number, chainConfig: PartialChainCon
     // ignore, multicall optional
   }
 
+  const optimisticOracleType = chainConfig.optimisticOracleType || OptimisticOracleType.OptimisticOracle;
   // dont ignore error, oracle required
-  const optimisticOracleAddress = chainConfig.optimisticOracleAddress || getOptimisticOracleAddress(chainId);
+  const optimisticOracleAddress =
+    chainConfig.optimisticOracleAddress ||
+    (optimisticOracleType === OptimisticOracleType.SkinnyOptimisticOracle
+      ? getSkinnyOptimisticOracleAddress(chainId)
+      : getOptimisticOracleAddress(chainId));
   const checkTxIntervalSec = chainConfig.checkTxIntervalSec || 5;
 
   return {
@@ -158,6 +177,7 @@ export function defaultChainConfig(chainId: number, chainConfig: PartialChainCon
     chainId,
     multicall2Address,
     optimisticOracleAddress,
+    optimisticOracleType,
     checkTxIntervalSec,
   };
 }
@@ -189,7 +209,13 @@ export class TransactionConfirmer {
 }
 
 export function chainConfigToChainMetadata(config: ChainConfig): ChainMetadata {
-  const { checkTxIntervalSec, multicall2Address, optimisticOracleAddress, ...chainMetadata } = config;
+  const {
+    checkTxIntervalSec,
+    multicall2Address,
+    optimisticOracleAddress,
+    optimisticOracleType,
+    ...chainMetadata
+  } = config;
   return chainMetadata;
 }
 
@@ -1,6 +1,8 @@
 export { default as JsMap } from "./js-map";
 export { default as SortedJsMap } from "./sorted-js-map";
 export { default as GoogleDatastore } from "./google-datastore";
+export { default as IndexedDb } from "./indexed-db";
+export { default as Sqlite } from "./sqlite";
 
 // Base store interface which is inspired by JS map
 export interface Store<Id, Data> {
@@ -0,0 +1,91 @@
+import assert from "assert";
+import Store from ".";
+import type { Store as StoreType } from "..";
+
+type Data = { name: string; age: number };
+
+// in memory fake of an indexeddb database with object stores without key paths. requests succeed asynchronously, like
+// in the browser, and keys are kept in insertion order rather than sorted.
+function FakeIDBDatabase(storeNames: string[]): IDBDatabase {
+  const objectStores = new Map(storeNames.map((name) => [name, new Map<IDBValidKey, unknown>()]));
+  function request<T>(getResult: () => T): IDBRequest<T> {
+    const result = {} as { result: T; error: unknown; onsuccess?: () => void; onerror?: () => void };
+    setTimeout(() => {
+      try {
+        result.result = getResult();
+        result.onsuccess?.();
+      } catch (error) {
+        result.error = error;
+        result.onerror?.();
+      }
+    });
+    return (result as unknown) as IDBRequest<T>;
+  }
+  function transaction(storeName: string, mode: IDBTransactionMode = "readonly") {
+    const data = objectStores.get(storeName);
+    assert.ok(data, "no such object store: " + storeName);
+    const write = <T>(getResult: () => T) =>
+      request(() => {
+        assert.equal(mode, "readwrite", "write in a readonly transaction");
+        return getResult();
+      });
+    const objectStore = {
+      get: (id: IDBValidKey) => request(() => data.get(id)),
+      put: (value: unknown, id: IDBValidKey) =>
+        write(() => {
+          data.set(id, value);
+          return id;
+        }),
+      count: (id?: IDBValidKey) => request(() => (id === undefined ? data.size : Number(data.has(id)))),
+      delete: (id: IDBValidKey) => write(() => void data.delete(id)),
+      getAll: () => request(() => Array.from(data.values())),
+      getAllKeys: () => request(() => Array.from(data.keys())),
+      clear: () => write(() => data.clear()),
+    };
+    return { objectStore: () => objectStore };
+  }
+  return ({ transaction } as unknown) as IDBDatabase;
+}
+
+describe("indexeddb store", function () {
+  let db: IDBDatabase;
+  let store: StoreType<string, Data>;
+  beforeEach(function () {
+    db = FakeIDBDatabase(["users"]);
+    store = Store<string, Data>(db, "users");
+  });
+  test("set and get", async function () {
+    await store.set("john", { name: "john", age: 23 });
+    assert.deepEqual(await store.get("john"), { name: "john", age: 23 });
+    assert.equal(await store.get("jane"), undefined);
+    assert.equal(await store.has("john"), true);
+    assert.equal(await store.has("jane"), false);
+  });
+  test("replaces and deletes", async function () {
+    await store.set("john", { name: "john", age: 23 });
+    await store.set("john", { name: "john", age: 24 });
+    assert.deepEqual(await store.get("john"), { name: "john", age: 24 });
+    assert.equal(await store.size(), 1);
+    await store.delete("john");
+    assert.equal(await store.has("john"), false);
+    assert.equal(await store.size(), 0);
+  });
+  test("lists and clears", async function () {
+    await store.set("john", { name: "john", age: 23 });
+    await store.set("jane", { name: "jane", age: 32 });
+    assert.deepEqual(await store.keys(), ["john", "jane"]);
+    assert.deepEqual(await store.values(), [
+      { name: "john", age: 23 },
+      { name: "jane", age: 32 },
+    ]);
+    assert.deepEqual(await store.entries(), [
+      ["john", { name: "john", age: 23 }],
+      ["jane", { name: "jane", age: 32 }],
+    ]);
+    await store.clear();
+    assert.equal(await store.size(), 0);
+  });
+  test("rejects when the object store does not exist", async function () {
+    await assert.rejects(Store<string, Data>(db, "pets").get("john"));
+  });
+});
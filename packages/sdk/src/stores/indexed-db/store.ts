@@ -0,0 +1,58 @@
+import type { Store } from "../index";
+
+// wraps an indexeddb request in a promise
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// db must already contain an object store named storeName without a key path, since ids are passed in on every set.
+export default function <I extends IDBValidKey, D>(db: IDBDatabase, storeName: string): Store<I, D> {
+  function objectStore(mode: IDBTransactionMode = "readonly"): IDBObjectStore {
+    return db.transaction(storeName, mode).objectStore(storeName);
+  }
+  async function get(id: I) {
+    return toPromise<D | undefined>(objectStore().get(id));
+  }
+  async function set(id: I, data: D) {
+    await toPromise(objectStore("readwrite").put(data, id));
+  }
+  async function has(id: I) {
+    return (await toPromise(objectStore().count(id))) > 0;
+  }
+  async function del(id: I) {
+    await toPromise(objectStore("readwrite").delete(id));
+  }
+  async function entries() {
+    // read keys and values in the same transaction so they line up
+    const store = objectStore();
+    const [keys, values] = await Promise.all([toPromise(store.getAllKeys()), toPromise(store.getAll())]);
+    return keys.map((key, index): [I, D] => [key as I, values[index]]);
+  }
+  async function values() {
+    return toPromise<D[]>(objectStore().getAll());
+  }
+  async function keys() {
+    return (await toPromise(objectStore().getAllKeys())) as I[];
+  }
+  async function size() {
+    return toPromise(objectStore().count());
+  }
+  async function clear() {
+    await toPromise(objectStore("readwrite").clear());
+  }
+  return {
+    get,
+    set,
+    has,
+    delete: del,
+    entries,
+    values,
+    keys,
+    size,
+    clear,
+    driver: db,
+  };
+}
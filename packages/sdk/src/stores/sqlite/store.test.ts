@@ -0,0 +1,95 @@
+import assert from "assert";
+import Store from ".";
+import type { Store as StoreType } from "..";
+import type { Database, Row } from "./store";
+
+type Data = { name: string; age: number };
+
+// in memory fake of the few statements the store runs, with tables keyed by name
+function FakeDatabase(): Database {
+  const tables = new Map<string, Map<string, string>>();
+  function table(sql: string) {
+    const name = sql.match(/(?:FROM|INTO|EXISTS) (\w+)/)?.[1];
+    assert.ok(name && tables.has(name), "no such table: " + name);
+    return tables.get(name) as Map<string, string>;
+  }
+  function exec(sql: string) {
+    const created = sql.match(/^CREATE TABLE IF NOT EXISTS (\w+)/);
+    if (created) {
+      if (!tables.has(created[1])) tables.set(created[1], new Map());
+    } else if (sql.startsWith("DELETE FROM")) {
+      table(sql).clear();
+    } else {
+      throw new Error("Unexpected sql: " + sql);
+    }
+  }
+  function prepare(sql: string) {
+    const rows = table(sql);
+    const all = (): Row[] => Array.from(rows.entries()).map(([id, data]) => ({ id, data }));
+    return {
+      get(id?: unknown) {
+        if (sql.startsWith("SELECT COUNT(*)")) return { count: rows.size };
+        if (!rows.has(id as string)) return undefined;
+        return sql.startsWith("SELECT 1") ? { 1: 1 } : { data: rows.get(id as string) };
+      },
+      all() {
+        return sql.startsWith("SELECT id,") ? all() : all().map(({ id }) => ({ id }));
+      },
+      run(id: unknown, data?: unknown) {
+        if (sql.startsWith("INSERT OR REPLACE")) rows.set(id as string, data as string);
+        else if (sql.startsWith("DELETE FROM")) rows.delete(id as string);
+        else throw new Error("Unexpected sql: " + sql);
+      },
+    };
+  }
+  return { exec, prepare };
+}
+
+describe("sqlite store", function () {
+  let db: Database;
+  let store: StoreType<string, Data>;
+  beforeEach(function () {
+    db = FakeDatabase();
+    store = Store<Data>(db, "users");
+  });
+  test("set and get", async function () {
+    await store.set("john", { name: "john", age: 23 });
+    assert.deepEqual(await store.get("john"), { name: "john", age: 23 });
+    assert.equal(await store.get("jane"), undefined);
+    assert.equal(await store.has("john"), true);
+    assert.equal(await store.has("jane"), false);
+  });
+  test("replaces and deletes", async function () {
+    await store.set("john", { name: "john", age: 23 });
+    await store.set("john", { name: "john", age: 24 });
+    assert.deepEqual(await store.get("john"), { name: "john", age: 24 });
+    assert.equal(await store.size(), 1);
+    await store.delete("john");
+    assert.equal(await store.has("john"), false);
+    assert.equal(await store.size(), 0);
+  });
+  test("lists and clears", async function () {
+    await store.set("john", { name: "john", age: 23 });
+    await store.set("jane", { name: "jane", age: 32 });
+    assert.deepEqual(await store.keys(), ["john", "jane"]);
+    assert.deepEqual(await store.values(), [
+      { name: "john", age: 23 },
+      { name: "jane", age: 32 },
+    ]);
+    assert.deepEqual(await store.entries(), [
+      ["john", { name: "john", age: 23 }],
+      ["jane", { name: "jane", age: 32 }],
+    ]);
+    await store.clear();
+    assert.equal(await store.size(), 0);
+  });
+  test("keeps data in an existing table", async function () {
+    await store.set("john", { name: "john", age: 23 });
+    const reopened = Store<Data>(db, "users");
+    assert.deepEqual(await reopened.get("john"), { name: "john", age: 23 });
+    assert.equal(await Store<Data>(db, "pets").has("john"), false);
+  });
+  test("rejects unsafe table names", function () {
+    assert.throws(() => Store<Data>(db, "users; DROP TABLE users"));
+  });
+});
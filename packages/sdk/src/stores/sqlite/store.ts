@@ -0,0 +1,68 @@
+import type { Store } from "../index";
+
+// Subset of a synchronous sqlite client, such as a better-sqlite3 Database, used by this store.
+export interface Database {
+  exec(sql: string): unknown;
+  prepare(
+    sql: string
+  ): {
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+    run(...params: unknown[]): unknown;
+  };
+}
+
+// rows of the store table, with data saved as json
+export type Row = { id: string; data: string };
+
+// stores data as json in table, which is created if it does not exist
+export default function <D>(db: Database, table: string): Store<string, D> {
+  // table names cannot be passed as a parameter, so make sure its safe to put in the query
+  if (!/^\w+$/.test(table)) throw new Error("Invalid sqlite table name: " + table);
+  db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+
+  async function get(id: string) {
+    const row = db.prepare(`SELECT data FROM ${table} WHERE id = ?`).get(id) as Pick<Row, "data"> | undefined;
+    return row ? (JSON.parse(row.data) as D) : undefined;
+  }
+  async function set(id: string, data: D) {
+    db.prepare(`INSERT OR REPLACE INTO ${table} (id, data) VALUES (?, ?)`).run(id, JSON.stringify(data));
+  }
+  async function has(id: string) {
+    return db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(id) !== undefined;
+  }
+  async function del(id: string) {
+    db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id);
+  }
+  async function entries() {
+    return (db.prepare(`SELECT id, data FROM ${table}`).all() as Row[]).map((row): [string, D] => [
+      row.id,
+      JSON.parse(row.data),
+    ]);
+  }
+  async function values() {
+    return (await entries()).map(([, data]) => data);
+  }
+  async function keys() {
+    return (db.prepare(`SELECT id FROM ${table}`).all() as Pick<Row, "id">[]).map((row) => row.id);
+  }
+  async function size() {
+    const row = db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number };
+    return Number(row.count);
+  }
+  async function clear() {
+    db.exec(`DELETE FROM ${table}`);
+  }
+  return {
+    get,
+    set,
+    has,
+    delete: del,
+    entries,
+    values,
+    keys,
+    size,
+    clear,
+    driver: db,
+  };
+}
@@ -17,6 +17,7 @@ export class TraderConfig {
   readonly exchangeAdapterConfig: any;
   readonly rangeTraderConfig: any;
   readonly dsProxyConfig: any;
+  readonly networkerConfig: any;
 
   constructor(env: ProcessEnv) {
     const {
@@ -29,6 +30,7 @@ export class TraderConfig {
       EXCHANGE_ADAPTER_CONFIG,
       RANGE_TRADER_CONFIG,
       DSPROXY_CONFIG,
+      NETWORKER_CONFIG,
     } = env;
     assert(EMP_ADDRESS, "EMP_ADDRESS required");
     this.financialContractAddress = Web3.utils.toChecksumAddress(EMP_ADDRESS);
@@ -41,5 +43,6 @@ export class TraderConfig {
     this.exchangeAdapterConfig = EXCHANGE_ADAPTER_CONFIG ? JSON.parse(EXCHANGE_ADAPTER_CONFIG) : null;
     this.rangeTraderConfig = RANGE_TRADER_CONFIG ? JSON.parse(RANGE_TRADER_CONFIG) : {};
     this.dsProxyConfig = DSPROXY_CONFIG ? JSON.parse(DSPROXY_CONFIG) : null;
+    this.networkerConfig = NETWORKER_CONFIG ? JSON.parse(NETWORKER_CONFIG) : {};
   }
 }
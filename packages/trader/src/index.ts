@@ -39,10 +39,11 @@ export async function run(logger: winston.Logger, web3: Web3): Promise<void> {
       referencePriceFeedConfig: config.referencePriceFeedConfig,
       exchangeAdapterConfig: config.exchangeAdapterConfig,
       rangeTraderConfig: config.rangeTraderConfig,
+      networkerConfig: config.networkerConfig,
     });
 
     // Load unlocked web3 accounts, get the networkId and set up price feed.
-    const networker = new Networker(logger);
+    const networker = new Networker(logger, config.networkerConfig);
     const [accounts, networkId] = await Promise.all([web3.eth.getAccounts(), web3.eth.net.getId()]);
 
     const gasEstimator = new GasEstimator(logger);